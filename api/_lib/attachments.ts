@@ -0,0 +1,192 @@
+import { spawn } from 'child_process';
+import { PDFParse } from 'pdf-parse';
+import { GmailAttachmentPart, GmailService } from './gmail.js';
+
+// Attachment text extraction for the sync stage: PDFs are read from their text
+// layer, images go through a pluggable local OCR engine (OCR_ENGINE).
+// The extracted text rides along in the email job payload and is sent through
+// the same chunking and extraction prompt as the email body.
+
+export interface AttachmentText {
+  filename: string;
+  mimeType: string;
+  method: 'pdf' | 'ocr';
+  text: string;
+}
+
+// Local OCR engine. Implementations receive the raw image bytes and return plain text.
+export interface OcrEngine {
+  name: string;
+  recognize(image: Buffer, mimeType: string): Promise<string>;
+}
+
+const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const DEFAULT_MAX_TEXT_CHARS = 50000;
+// Smaller images are almost always signature logos and tracking pixels
+const MIN_IMAGE_BYTES = 15 * 1024;
+
+const OCR_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg', 'image/tiff', 'image/bmp', 'image/gif', 'image/webp'];
+
+// Tesseract CLI adapter: `tesseract stdin stdout` reads the image from stdin
+class TesseractOcrEngine implements OcrEngine {
+  name = 'tesseract';
+  private binary: string;
+  private language: string;
+  private timeoutMs: number;
+
+  constructor(binary: string, language: string, timeoutMs: number) {
+    this.binary = binary;
+    this.language = language;
+    this.timeoutMs = timeoutMs;
+  }
+
+  recognize(image: Buffer): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(this.binary, ['stdin', 'stdout', '-l', this.language]);
+      let stdout = '';
+      let stderr = '';
+
+      const timer = setTimeout(() => {
+        child.kill();
+        reject(new Error(`Tesseract timed out after ${this.timeoutMs}ms`));
+      }, this.timeoutMs);
+
+      child.stdout.on('data', chunk => { stdout += chunk.toString(); });
+      child.stderr.on('data', chunk => { stderr += chunk.toString(); });
+      child.on('error', error => {
+        clearTimeout(timer);
+        reject(new Error(`Failed to start tesseract: ${error.message}`));
+      });
+      child.on('close', code => {
+        clearTimeout(timer);
+        if (code === 0) {
+          resolve(stdout);
+        } else {
+          reject(new Error(`Tesseract exited with code ${code}: ${stderr.trim()}`));
+        }
+      });
+
+      child.stdin.on('error', () => { /* reported through 'close' */ });
+      child.stdin.end(image);
+    });
+  }
+}
+
+// Available OCR engines by OCR_ENGINE name. Other local engines plug in via registerOcrEngine.
+const ocrEngineFactories: Record<string, () => OcrEngine> = {
+  tesseract: () => new TesseractOcrEngine(
+    process.env.TESSERACT_PATH || 'tesseract',
+    process.env.OCR_LANGUAGE || 'eng',
+    parseInt(process.env.OCR_TIMEOUT_MS || '30000')
+  )
+};
+
+export function registerOcrEngine(name: string, factory: () => OcrEngine): void {
+  ocrEngineFactories[name] = factory;
+}
+
+// OCR is off unless OCR_ENGINE names a registered engine
+export function createOcrEngine(): OcrEngine | null {
+  const name = (process.env.OCR_ENGINE || 'none').toLowerCase();
+  if (name === 'none') {
+    return null;
+  }
+
+  const factory = ocrEngineFactories[name];
+  if (!factory) {
+    console.warn(`Unknown OCR_ENGINE "${name}", image attachments will be skipped`);
+    return null;
+  }
+
+  return factory();
+}
+
+async function extractPdfText(data: Buffer): Promise<string> {
+  const parser = new PDFParse({ data });
+  try {
+    const result = await parser.getText();
+    return result.text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+// Collapse the whitespace runs PDF and OCR output is full of, keeping paragraph breaks
+function cleanExtractedText(text: string): string {
+  return text
+    .replace(/\r\n/g, '\n')
+    .replace(/[ \t]+/g, ' ')
+    .replace(/ *\n */g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Download and read the text of every supported attachment on a message.
+// Failures are logged per attachment so one bad file never blocks the email.
+export async function extractAttachmentTexts(
+  gmailService: GmailService,
+  accessToken: string,
+  message: any,
+  ocrEngine: OcrEngine | null
+): Promise<AttachmentText[]> {
+  const maxBytes = parseInt(process.env.ATTACHMENT_MAX_BYTES || String(DEFAULT_MAX_ATTACHMENT_BYTES));
+  const maxChars = parseInt(process.env.ATTACHMENT_MAX_TEXT_CHARS || String(DEFAULT_MAX_TEXT_CHARS));
+  const results: AttachmentText[] = [];
+
+  for (const part of gmailService.listAttachmentParts(message)) {
+    const isPdf = part.mimeType === 'application/pdf' || part.filename.toLowerCase().endsWith('.pdf');
+    const isImage = OCR_IMAGE_TYPES.includes(part.mimeType);
+
+    if (!isPdf && !isImage) {
+      continue;
+    }
+    if (isImage && !ocrEngine) {
+      console.log(`Skipping image attachment "${part.filename}" (OCR_ENGINE not configured)`);
+      continue;
+    }
+    if (isImage && part.size < MIN_IMAGE_BYTES) {
+      continue;
+    }
+    if (part.size > maxBytes) {
+      console.log(`Skipping attachment "${part.filename}" (${part.size} bytes exceeds ${maxBytes})`);
+      continue;
+    }
+
+    try {
+      const data = await downloadAttachment(gmailService, accessToken, message.id, part);
+      const rawText = isPdf
+        ? await extractPdfText(data)
+        : await ocrEngine!.recognize(data, part.mimeType);
+      const text = cleanExtractedText(rawText);
+
+      if (!text) {
+        console.log(`Attachment "${part.filename}" has no readable text${isPdf ? ' (scanned PDF without a text layer?)' : ''}`);
+        continue;
+      }
+
+      console.log(`Extracted ${text.length} chars from attachment "${part.filename}" via ${isPdf ? 'PDF text layer' : ocrEngine!.name}`);
+      results.push({
+        filename: part.filename,
+        mimeType: part.mimeType,
+        method: isPdf ? 'pdf' : 'ocr',
+        text: text.substring(0, maxChars)
+      });
+    } catch (error) {
+      console.warn(`Failed to extract text from attachment "${part.filename}":`, error);
+    }
+  }
+
+  return results;
+}
+
+async function downloadAttachment(
+  gmailService: GmailService,
+  accessToken: string,
+  messageId: string,
+  part: GmailAttachmentPart
+): Promise<Buffer> {
+  if (part.data) {
+    return Buffer.from(part.data, 'base64');
+  }
+  return await gmailService.getAttachment(accessToken, messageId, part.attachmentId!);
+}
@@ -0,0 +1,115 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+
+// Request authentication shared by every API route. Handlers run with the
+// Supabase service key, so the caller is never taken from the request: the
+// Supabase session JWT in the Authorization header is verified and mapped to
+// the users row it belongs to. A userId sent in the query or body is only
+// accepted when it matches that user.
+
+export interface AuthContext {
+  userId: string | null; // users.id of the signed-in caller; null for cron invocations
+  authUserId: string | null; // auth.users id from the verified JWT
+  cron: boolean;
+}
+
+export type AuthenticatedHandler = (
+  req: VercelRequest,
+  res: VercelResponse,
+  auth: AuthContext
+) => Promise<unknown> | unknown;
+
+interface AuthOptions {
+  // Also accept the CRON_SECRET bearer token (auth.cron = true, no user)
+  allowCron?: boolean;
+}
+
+let authClient: SupabaseClient | null = null;
+
+function getAuthClient(): SupabaseClient {
+  if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+    throw new Error('Missing Supabase environment variables');
+  }
+  if (!authClient) {
+    authClient = createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_KEY);
+  }
+  return authClient;
+}
+
+function getBearerToken(req: VercelRequest): string | null {
+  const header = req.headers.authorization;
+  if (!header || !header.startsWith('Bearer ')) {
+    return null;
+  }
+  return header.substring('Bearer '.length).trim() || null;
+}
+
+// Cron invocations carry CRON_SECRET as their bearer token. Without the secret
+// configured no request is treated as cron.
+export function isCronRequest(req: VercelRequest): boolean {
+  if (!process.env.CRON_SECRET) {
+    return false;
+  }
+  return getBearerToken(req) === process.env.CRON_SECRET;
+}
+
+// userId the caller claims to act for, from the query string or JSON body
+function getClaimedUserId(req: VercelRequest): string | null {
+  const fromQuery = req.query?.userId;
+  if (typeof fromQuery === 'string' && fromQuery) {
+    return fromQuery;
+  }
+  const fromBody = req.body && typeof req.body === 'object' ? req.body.userId : undefined;
+  return typeof fromBody === 'string' && fromBody ? fromBody : null;
+}
+
+export function withAuth(handler: AuthenticatedHandler, options: AuthOptions = {}) {
+  return async (req: VercelRequest, res: VercelResponse) => {
+    if (options.allowCron && isCronRequest(req)) {
+      return handler(req, res, { userId: null, authUserId: null, cron: true });
+    }
+
+    const token = getBearerToken(req);
+    if (!token) {
+      return res.status(401).json({ error: 'Unauthorized', message: 'Missing bearer token' });
+    }
+
+    let supabase: SupabaseClient;
+    try {
+      supabase = getAuthClient();
+    } catch (error) {
+      console.error('Auth configuration error:', error);
+      return res.status(500).json({
+        error: 'Internal server error',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      });
+    }
+
+    const { data: authData, error: authError } = await supabase.auth.getUser(token);
+    if (authError || !authData?.user) {
+      return res.status(401).json({ error: 'Unauthorized', message: 'Invalid or expired session' });
+    }
+
+    const { data: dbUser, error: userError } = await supabase
+      .from('users')
+      .select('id')
+      .eq('auth_user_id', authData.user.id)
+      .maybeSingle();
+
+    if (userError) {
+      console.error('Failed to look up user for session:', userError);
+      return res.status(500).json({ error: 'Internal server error', message: userError.message });
+    }
+    if (!dbUser) {
+      return res.status(403).json({ error: 'Forbidden', message: 'No user record is linked to this session' });
+    }
+
+    const claimedUserId = getClaimedUserId(req);
+    if (claimedUserId && claimedUserId !== dbUser.id) {
+      console.warn(`Rejected request for user ${claimedUserId} from session of user ${dbUser.id}`);
+      return res.status(403).json({ error: 'Forbidden', message: 'userId does not match the signed-in user' });
+    }
+
+    return handler(req, res, { userId: dbUser.id, authUserId: authData.user.id, cron: false });
+  };
+}
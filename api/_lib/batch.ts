@@ -0,0 +1,377 @@
+import {
+  chatCompletionBody,
+  CompletionRequest,
+  CompletionResult,
+  geminiRequestBody,
+  LLMProvider,
+  LLMProviderName,
+  parseChatCompletion,
+  parseGeminiResponse,
+  readError
+} from './providers.js';
+import { releaseBatchedJobs } from './jobs.js';
+
+// Asynchronous main extraction through vendor batch APIs (ENABLE_BATCH_PROCESSING=true).
+// The job worker submits the extraction requests of the jobs it claims as one
+// batch per provider and model, recorded in llm_batches. A later worker run polls
+// the batch and puts each job back in the queue with its outputs, which are then
+// ingested like a live run. Batch requests cost half, but may take up to 24 hours.
+// OpenAI and Gemini have batch APIs; other providers keep running live.
+
+export interface BatchRequest {
+  id: string;
+  request: CompletionRequest;
+}
+
+// A request's outcome: the completion, or why the vendor could not run it
+export interface BatchOutput {
+  id: string;
+  result?: CompletionResult;
+  error?: string;
+}
+
+type BatchPoll =
+  | { state: 'pending' }
+  | { state: 'completed'; outputs: BatchOutput[] }
+  | { state: 'failed'; error: string };
+
+interface BatchAdapter {
+  submit(model: string, requests: BatchRequest[]): Promise<string>;
+  poll(model: string, externalId: string, requestIds: string[]): Promise<BatchPoll>;
+}
+
+// A submitted batch is polled at most this often
+const BATCH_POLL_INTERVAL_MS = 60 * 1000;
+
+const OPENAI_API = 'https://api.openai.com/v1';
+const GEMINI_API = 'https://generativelanguage.googleapis.com/v1beta';
+
+function requireApiKey(env: string): string {
+  const apiKey = process.env[env];
+  if (!apiKey) {
+    throw new Error(`Missing ${env} for batch processing`);
+  }
+  return apiKey;
+}
+
+// Output and error files are JSONL with one line per request
+async function readOpenAIBatchFile(apiKey: string, fileId: string | null, model: string): Promise<BatchOutput[]> {
+  if (!fileId) {
+    return [];
+  }
+
+  const response = await fetch(`${OPENAI_API}/files/${fileId}/content`, {
+    headers: { 'Authorization': `Bearer ${apiKey}` }
+  });
+  if (!response.ok) {
+    throw await readError(response, 'OpenAI');
+  }
+
+  const lines = (await response.text()).split('\n').filter(line => line.trim());
+  return lines.map(line => {
+    const entry = JSON.parse(line);
+    if (entry.response?.status_code !== 200) {
+      return {
+        id: entry.custom_id,
+        error: entry.error?.message || entry.response?.body?.error?.message || `Request failed with status ${entry.response?.status_code}`
+      };
+    }
+    try {
+      const result = parseChatCompletion(entry.response.body, model, null, 'OpenAI');
+      return { id: entry.custom_id, result: { ...result, provider: 'openai', batch: true } };
+    } catch (error) {
+      return { id: entry.custom_id, error: error instanceof Error ? error.message : 'Unreadable result' };
+    }
+  });
+}
+
+// OpenAI Batch API: the requests are uploaded as a JSONL file, then run as a
+// batch against /v1/chat/completions within a 24 hour window
+const openAIBatches: BatchAdapter = {
+  async submit(model, requests) {
+    const apiKey = requireApiKey('OPENAI_API_KEY');
+    const lines = requests.map(({ id, request }) => JSON.stringify({
+      custom_id: id,
+      method: 'POST',
+      url: '/v1/chat/completions',
+      body: chatCompletionBody(model, request)
+    }));
+
+    const form = new FormData();
+    form.append('purpose', 'batch');
+    form.append('file', new Blob([lines.join('\n')], { type: 'application/jsonl' }), 'extraction-batch.jsonl');
+
+    const upload = await fetch(`${OPENAI_API}/files`, {
+      method: 'POST',
+      headers: { 'Authorization': `Bearer ${apiKey}` },
+      body: form
+    });
+    if (!upload.ok) {
+      throw await readError(upload, 'OpenAI');
+    }
+    const file = await upload.json();
+
+    const response = await fetch(`${OPENAI_API}/batches`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${apiKey}`
+      },
+      body: JSON.stringify({
+        input_file_id: file.id,
+        endpoint: '/v1/chat/completions',
+        completion_window: '24h'
+      })
+    });
+    if (!response.ok) {
+      throw await readError(response, 'OpenAI');
+    }
+
+    return (await response.json()).id;
+  },
+
+  async poll(model, externalId) {
+    const apiKey = requireApiKey('OPENAI_API_KEY');
+    const response = await fetch(`${OPENAI_API}/batches/${externalId}`, {
+      headers: { 'Authorization': `Bearer ${apiKey}` }
+    });
+    if (!response.ok) {
+      throw await readError(response, 'OpenAI');
+    }
+
+    const batch = await response.json();
+    if (['failed', 'cancelling', 'cancelled'].includes(batch.status)) {
+      return { state: 'failed', error: batch.errors?.data?.[0]?.message || `OpenAI batch ${batch.status}` };
+    }
+    // An expired batch still returns the requests that finished in time; the rest
+    // are listed in the error file
+    if (batch.status !== 'completed' && batch.status !== 'expired') {
+      return { state: 'pending' };
+    }
+
+    return {
+      state: 'completed',
+      outputs: [
+        ...await readOpenAIBatchFile(apiKey, batch.output_file_id, model),
+        ...await readOpenAIBatchFile(apiKey, batch.error_file_id, model)
+      ]
+    };
+  }
+};
+
+// Gemini Batch Mode: the requests are sent inline and come back inline, in request order
+const geminiBatches: BatchAdapter = {
+  async submit(model, requests) {
+    const response = await fetch(`${GEMINI_API}/models/${model}:batchGenerateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': requireApiKey('GEMINI_API_KEY')
+      },
+      body: JSON.stringify({
+        batch: {
+          display_name: `extraction-${Date.now()}`,
+          input_config: {
+            requests: {
+              requests: requests.map(({ id, request }) => ({
+                request: geminiRequestBody(request),
+                metadata: { key: id }
+              }))
+            }
+          }
+        }
+      })
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Gemini');
+    }
+
+    // Operation name, e.g. "batches/123456"
+    return (await response.json()).name;
+  },
+
+  async poll(model, externalId, requestIds) {
+    const response = await fetch(`${GEMINI_API}/${externalId}`, {
+      headers: { 'x-goog-api-key': requireApiKey('GEMINI_API_KEY') }
+    });
+    if (!response.ok) {
+      throw await readError(response, 'Gemini');
+    }
+
+    const operation = await response.json();
+    const state: string = operation.metadata?.state || '';
+    if (/(FAILED|CANCELLED|EXPIRED)$/.test(state)) {
+      return { state: 'failed', error: operation.error?.message || `Gemini batch ${state}` };
+    }
+    if (!/SUCCEEDED$/.test(state)) {
+      return { state: 'pending' };
+    }
+
+    const inlined = operation.response?.inlinedResponses?.inlinedResponses || [];
+    return {
+      state: 'completed',
+      outputs: inlined.map((entry: any, index: number) => {
+        const id = entry.metadata?.key || requestIds[index];
+        if (entry.error || !entry.response) {
+          return { id, error: entry.error?.message || 'Request failed' };
+        }
+        try {
+          const result = parseGeminiResponse(entry.response, model, null);
+          return { id, result: { ...result, provider: 'gemini', batch: true } };
+        } catch (error) {
+          return { id, error: error instanceof Error ? error.message : 'Unreadable result' };
+        }
+      })
+    };
+  }
+};
+
+const BATCH_ADAPTERS: Partial<Record<LLMProviderName, BatchAdapter>> = {
+  openai: openAIBatches,
+  gemini: geminiBatches
+};
+
+export function isBatchProcessingEnabled(): boolean {
+  return process.env.ENABLE_BATCH_PROCESSING === 'true';
+}
+
+export function supportsBatch(provider: LLMProvider): boolean {
+  return !!BATCH_ADAPTERS[provider.name];
+}
+
+// Send extraction requests to the provider's batch API and record the batch.
+// Request ids are "<job id>:<id within the job>" so results can be handed back.
+export async function submitExtractionBatch(
+  supabase: any,
+  provider: LLMProvider,
+  requests: BatchRequest[]
+): Promise<string> {
+  const adapter = BATCH_ADAPTERS[provider.name];
+  if (!adapter) {
+    throw new Error(`LLM provider "${provider.name}" has no batch API`);
+  }
+
+  const externalId = await adapter.submit(provider.model, requests);
+
+  const { data, error } = await supabase
+    .from('llm_batches')
+    .insert({
+      provider: provider.name,
+      model: provider.model,
+      external_id: externalId,
+      request_ids: requests.map(request => request.id),
+      request_count: requests.length
+    })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to record ${provider.name} batch ${externalId}: ${error.message}`);
+  }
+
+  console.log(`Submitted ${provider.name} batch ${externalId} with ${requests.length} requests`);
+  return data.id;
+}
+
+// Outputs per job, with the job prefix taken off the ids. Requests the vendor
+// returned nothing for become errors, so the job reruns live.
+function groupOutputsByJob(requestIds: string[], outputs: BatchOutput[]): Map<string, BatchOutput[]> {
+  const outputsById = new Map(outputs.map(output => [output.id, output]));
+  const byJob = new Map<string, BatchOutput[]>();
+
+  for (const requestId of requestIds) {
+    const separator = requestId.indexOf(':');
+    const jobId = requestId.substring(0, separator);
+    const output = outputsById.get(requestId) || { id: requestId, error: 'No result returned by the batch' };
+
+    const jobOutputs = byJob.get(jobId) || [];
+    jobOutputs.push({ ...output, id: requestId.substring(separator + 1) });
+    byJob.set(jobId, jobOutputs);
+  }
+
+  return byJob;
+}
+
+// Poll submitted batches that were not checked recently. Finished batches put
+// their jobs back in the queue with their outputs; failed ones put them back
+// without, and the jobs run live.
+export async function pollExtractionBatches(
+  supabase: any,
+  limit: number = 10
+): Promise<{ completed: number; failed: number; pending: number }> {
+  const stats = { completed: 0, failed: 0, pending: 0 };
+  const pollBefore = new Date(Date.now() - BATCH_POLL_INTERVAL_MS).toISOString();
+
+  const { data: batches, error } = await supabase
+    .from('llm_batches')
+    .select('*')
+    .eq('status', 'submitted')
+    .or(`last_polled_at.is.null,last_polled_at.lt.${pollBefore}`)
+    .order('submitted_at', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    console.error('Failed to load LLM batches:', error);
+    return stats;
+  }
+
+  for (const batch of batches || []) {
+    // Take the poll so concurrent workers do not hand out the same results twice
+    let claim = supabase
+      .from('llm_batches')
+      .update({ last_polled_at: new Date().toISOString() })
+      .eq('id', batch.id)
+      .eq('status', 'submitted');
+    claim = batch.last_polled_at ? claim.eq('last_polled_at', batch.last_polled_at) : claim.is('last_polled_at', null);
+    const { data: claimed } = await claim.select('id');
+    if (!claimed || claimed.length === 0) {
+      continue;
+    }
+
+    const adapter = BATCH_ADAPTERS[batch.provider as LLMProviderName];
+    try {
+      const poll: BatchPoll = adapter
+        ? await adapter.poll(batch.model, batch.external_id, batch.request_ids || [])
+        : { state: 'failed', error: `LLM provider "${batch.provider}" has no batch API` };
+
+      if (poll.state === 'pending') {
+        stats.pending++;
+        continue;
+      }
+
+      if (poll.state === 'completed') {
+        const outputsByJob = groupOutputsByJob(batch.request_ids || [], poll.outputs);
+        const released = await releaseBatchedJobs(supabase, batch.id, outputsByJob);
+        const failedRequests = [...outputsByJob.values()].flat().filter(output => !output.result).length;
+        await supabase
+          .from('llm_batches')
+          .update({
+            status: 'completed',
+            failed_count: failedRequests,
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', batch.id);
+        console.log(`${batch.provider} batch ${batch.external_id} completed, ${released} jobs ready to ingest`);
+        stats.completed++;
+      } else {
+        const released = await releaseBatchedJobs(supabase, batch.id, null, poll.error);
+        await supabase
+          .from('llm_batches')
+          .update({
+            status: 'failed',
+            error: poll.error,
+            completed_at: new Date().toISOString()
+          })
+          .eq('id', batch.id);
+        console.error(`${batch.provider} batch ${batch.external_id} failed (${poll.error}), ${released} jobs will run live`);
+        stats.failed++;
+      }
+    } catch (pollError) {
+      // Tried again on a later poll
+      console.error(`Failed to poll ${batch.provider} batch ${batch.external_id}:`, pollError);
+      stats.pending++;
+    }
+  }
+
+  return stats;
+}
@@ -0,0 +1,152 @@
+import { EmailContent, estimateTokenUsage } from './llm.js';
+import { calculateCost } from './pricing.js';
+import { LLMProvider } from './providers.js';
+
+// Per-user monthly LLM budget. Spend is the sum of processing_history.cost since
+// the start of the calendar month (UTC), so extraction and summaries both count.
+// users.monthly_llm_budget_usd NULL means no limit; users.llm_budget_mode decides
+// what happens once the next email would cross it: 'stop' defers extraction,
+// 'degrade' keeps going on the vendor's cheapest model without the fallback stage.
+
+export type BudgetMode = 'stop' | 'degrade';
+
+export type BudgetState = 'unlimited' | 'ok' | 'warning' | 'exceeded';
+
+export type BudgetDecision = 'allow' | 'degrade' | 'stop';
+
+export interface BudgetStatus {
+  limitUsd: number | null;
+  mode: BudgetMode;
+  spentUsd: number;
+  periodStart: string;
+  periodEnd: string; // Spend resets here
+  state: BudgetState;
+}
+
+// Share of the budget after which the Dashboard warns
+export const BUDGET_WARNING_RATIO = 0.8;
+
+// Rough size of the extraction instructions and answer around the email text
+const PROMPT_OVERHEAD_TOKENS = 1200;
+const EXPECTED_OUTPUT_TOKENS = 400;
+
+const HISTORY_PAGE_SIZE = 1000;
+
+export function getBudgetPeriod(now: Date = new Date()): { start: Date; end: Date } {
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  };
+}
+
+function getBudgetState(limitUsd: number | null, spentUsd: number): BudgetState {
+  if (limitUsd === null) {
+    return 'unlimited';
+  }
+  if (spentUsd >= limitUsd) {
+    return 'exceeded';
+  }
+  return spentUsd >= limitUsd * BUDGET_WARNING_RATIO ? 'warning' : 'ok';
+}
+
+async function sumMonthlySpend(supabase: any, userId: string, periodStart: Date): Promise<number> {
+  let spent = 0;
+
+  for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('processing_history')
+      .select('cost')
+      .eq('user_id', userId)
+      .gte('created_at', periodStart.toISOString())
+      .gt('cost', 0)
+      .order('created_at', { ascending: true })
+      .range(offset, offset + HISTORY_PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load LLM spend: ${error.message}`);
+    }
+
+    spent += (data || []).reduce((sum: number, row: any) => sum + (Number(row.cost) || 0), 0);
+    if (!data || data.length < HISTORY_PAGE_SIZE) {
+      return spent;
+    }
+  }
+}
+
+export async function loadBudgetStatus(supabase: any, userId: string): Promise<BudgetStatus> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('monthly_llm_budget_usd, llm_budget_mode')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load LLM budget: ${error.message}`);
+  }
+
+  const period = getBudgetPeriod();
+  const limitUsd = user?.monthly_llm_budget_usd !== null && user?.monthly_llm_budget_usd !== undefined
+    ? Number(user.monthly_llm_budget_usd)
+    : null;
+  const spentUsd = await sumMonthlySpend(supabase, userId, period.start);
+
+  return {
+    limitUsd,
+    mode: user?.llm_budget_mode === 'degrade' ? 'degrade' : 'stop',
+    spentUsd,
+    periodStart: period.start.toISOString(),
+    periodEnd: period.end.toISOString(),
+    state: getBudgetState(limitUsd, spentUsd)
+  };
+}
+
+// Status after more spend, so a worker can keep its copy current between jobs
+export function addSpend(status: BudgetStatus, costUsd: number): BudgetStatus {
+  const spentUsd = status.spentUsd + costUsd;
+  return { ...status, spentUsd, state: getBudgetState(status.limitUsd, spentUsd) };
+}
+
+export function decideBudget(status: BudgetStatus, estimatedCostUsd: number): BudgetDecision {
+  if (status.limitUsd === null || status.spentUsd + estimatedCostUsd <= status.limitUsd) {
+    return 'allow';
+  }
+  return status.mode === 'degrade' ? 'degrade' : 'stop';
+}
+
+// Pre-flight estimate of one email's main extraction (body plus attachments).
+// The fallback stage only runs for low-confidence results and is not included.
+export function estimateExtractionCost(contents: EmailContent[], provider: LLMProvider): number {
+  return contents.reduce((sum, content) => sum + calculateCost(provider.name, provider.model, {
+    inputTokens: estimateTokenUsage(content.subject + content.body) + PROMPT_OVERHEAD_TOKENS,
+    outputTokens: EXPECTED_OUTPUT_TOKENS,
+    estimated: true
+  }), 0);
+}
+
+// Pre-flight estimate of a reprocess: the emails in its lookback window times the
+// user's recent average cost per email. 0 when there is no history to go by.
+export async function estimateReprocessCost(supabase: any, userId: string, lookbackDays: number): Promise<number> {
+  const since = new Date(Date.now() - lookbackDays * 24 * 60 * 60 * 1000).toISOString();
+
+  const { count } = await supabase
+    .from('processed_emails')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .gte('sent_date', since);
+
+  const { data: recent } = await supabase
+    .from('processed_emails')
+    .select('processing_cost')
+    .eq('user_id', userId)
+    .eq('processing_status', 'completed')
+    .gt('processing_cost', 0)
+    .order('processing_completed_at', { ascending: false })
+    .limit(50);
+
+  if (!count || !recent || recent.length === 0) {
+    return 0;
+  }
+
+  const averageCost = recent.reduce((sum: number, row: any) => sum + (Number(row.processing_cost) || 0), 0) / recent.length;
+  return count * averageCost;
+}
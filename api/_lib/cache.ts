@@ -0,0 +1,70 @@
+import { ExtractionCache, ExtractionCacheKey } from './llm.js';
+import { CompletionResult } from './providers.js';
+
+// Extraction cache on the llm_extraction_cache table. Entries are shared by all
+// users: a hit needs the exact same email text and kid profiles, which is what
+// reprocessing, or the same newsletter arriving for both parents, produces.
+// The cache is best effort - a failed read is a miss, a failed write is logged.
+
+// Columns of the table's unique key
+function matchKey(key: ExtractionCacheKey) {
+  return {
+    stage: key.stage,
+    content_hash: key.contentHash,
+    prompt_version: key.promptVersion,
+    provider: key.provider,
+    model: key.model
+  };
+}
+
+// DISABLE_EXTRACTION_CACHE=true always calls the model, e.g. when comparing runs
+export function isExtractionCacheEnabled(): boolean {
+  return process.env.DISABLE_EXTRACTION_CACHE !== 'true';
+}
+
+export function createExtractionCache(supabase: any): ExtractionCache | undefined {
+  if (!isExtractionCacheEnabled()) {
+    return undefined;
+  }
+
+  return {
+    async get(key: ExtractionCacheKey): Promise<CompletionResult | null> {
+      const { data, error } = await supabase
+        .from('llm_extraction_cache')
+        .select('id, result, hit_count')
+        .match(matchKey(key))
+        .maybeSingle();
+
+      if (error) {
+        console.warn('Extraction cache lookup failed:', error.message);
+        return null;
+      }
+      if (!data) {
+        return null;
+      }
+
+      await supabase
+        .from('llm_extraction_cache')
+        .update({ hit_count: data.hit_count + 1, last_hit_at: new Date().toISOString() })
+        .eq('id', data.id);
+
+      return data.result as CompletionResult;
+    },
+
+    async set(key: ExtractionCacheKey, result: CompletionResult): Promise<void> {
+      const { error } = await supabase
+        .from('llm_extraction_cache')
+        .upsert({
+          ...matchKey(key),
+          result,
+          created_at: new Date().toISOString()
+        }, {
+          onConflict: 'stage,content_hash,prompt_version,provider,model'
+        });
+
+      if (error) {
+        console.warn('Failed to store extraction cache entry:', error.message);
+      }
+    }
+  };
+}
@@ -0,0 +1,468 @@
+import { DateTime } from 'luxon';
+import { loadUserTokens, saveUserTokens } from './vault.js';
+
+// Google Calendar push: turns an event into a Google Calendar event and creates,
+// updates or deletes it with the user's stored tokens. Used by the calendar sync
+// endpoint and when applied reprocess changes reach events already synced.
+
+export interface CalendarEventInput {
+  id: string;
+  title: string;
+  date: string;
+  time?: string | null;
+  endDate?: string | null;
+  endTime?: string | null;
+  description?: string | null;
+  emailSubject?: string | null;
+  location?: string | null;
+  durationMinutes?: number | null;
+  calendarEventId?: string | null;
+  recurrenceRule?: string | null;
+  recurrenceExceptions?: string[] | null;
+}
+
+export interface GoogleTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+const GOOGLE_CALENDAR_API_BASE = 'https://www.googleapis.com/calendar/v3';
+
+function parseEventTime(time?: string | null): { hours: number; minutes: number } | null {
+  if (!time) {
+    return null;
+  }
+
+  const normalized = time.trim().toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+
+  if (normalized.includes('noon')) {
+    return { hours: 12, minutes: 0 };
+  }
+
+  if (normalized.includes('midnight')) {
+    return { hours: 0, minutes: 0 };
+  }
+
+  const amPmMatch = normalized.match(/(\d{1,2})(?::(\d{2}))?\s*(am|pm)/);
+  if (amPmMatch) {
+    let hours = parseInt(amPmMatch[1], 10);
+    const minutes = amPmMatch[2] ? parseInt(amPmMatch[2], 10) : 0;
+    const period = amPmMatch[3];
+
+    if (period === 'pm' && hours < 12) {
+      hours += 12;
+    }
+    if (period === 'am' && hours === 12) {
+      hours = 0;
+    }
+
+    if (hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60) {
+      return { hours, minutes };
+    }
+  }
+
+  const hourMinuteMatch = normalized.match(/^(\d{1,2}):(\d{2})$/);
+  if (hourMinuteMatch) {
+    const hours = parseInt(hourMinuteMatch[1], 10);
+    const minutes = parseInt(hourMinuteMatch[2], 10);
+
+    if (hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60) {
+      return { hours, minutes };
+    }
+  }
+
+  const compactMatch = normalized.match(/^(\d{1,2})(\d{2})$/);
+  if (compactMatch) {
+    const hours = parseInt(compactMatch[1], 10);
+    const minutes = parseInt(compactMatch[2], 10);
+
+    if (hours >= 0 && hours < 24 && minutes >= 0 && minutes < 60) {
+      return { hours, minutes };
+    }
+  }
+
+  const hourOnlyMatch = normalized.match(/^(\d{1,2})$/);
+  if (hourOnlyMatch) {
+    const hours = parseInt(hourOnlyMatch[1], 10);
+    if (hours >= 0 && hours < 24) {
+      return { hours, minutes: 0 };
+    }
+  }
+
+  return null;
+}
+
+// Google wants RRULE/EXDATE lines whose value types match the event start:
+// dates for all-day events, date-times for timed ones
+function buildRecurrence(
+  event: CalendarEventInput,
+  timeZone: string,
+  startTime: { hours: number; minutes: number } | null
+): string[] | undefined {
+  if (!event.recurrenceRule) {
+    return undefined;
+  }
+
+  let rule = event.recurrenceRule.replace(/^RRULE:/i, '');
+  if (startTime) {
+    // A date-only UNTIL becomes the end of that day where the event happens,
+    // written in UTC as RFC 5545 requires for zoned starts
+    rule = rule.replace(/UNTIL=(\d{8})(?=;|$)/, (_match, until: string) => {
+      const endOfDay = DateTime.fromFormat(until, 'yyyyMMdd', { zone: timeZone }).endOf('day');
+      return `UNTIL=${endOfDay.toUTC().toFormat("yyyyMMdd'T'HHmmss'Z'")}`;
+    });
+  } else {
+    rule = rule.replace(/UNTIL=(\d{8})T\d{6}Z?/, 'UNTIL=$1');
+  }
+
+  const lines = [`RRULE:${rule}`];
+  const exceptions = (event.recurrenceExceptions || []).map(date => date.replace(/-/g, ''));
+  if (exceptions.length > 0) {
+    if (startTime) {
+      const time = `T${String(startTime.hours).padStart(2, '0')}${String(startTime.minutes).padStart(2, '0')}00`;
+      lines.push(`EXDATE;TZID=${timeZone}:${exceptions.map(date => date + time).join(',')}`);
+    } else {
+      lines.push(`EXDATE;VALUE=DATE:${exceptions.join(',')}`);
+    }
+  }
+
+  return lines;
+}
+
+// A stated end time ends the event on its end date (or start date); a multi-day
+// event without one ends on its last day at the start time plus the duration.
+// Anything that would not end after the start falls back to the duration.
+function resolveEndDateTime(
+  event: CalendarEventInput,
+  timeZone: string,
+  startDateTime: DateTime,
+  durationMinutes: number
+): DateTime {
+  const fallback = startDateTime.plus({ minutes: durationMinutes });
+  const parsedEndTime = parseEventTime(event.endTime);
+  const endDay = DateTime.fromISO(event.endDate || event.date, { zone: timeZone });
+
+  if (!endDay.isValid) {
+    return fallback;
+  }
+
+  const endDateTime = parsedEndTime
+    ? endDay.set({ hour: parsedEndTime.hours, minute: parsedEndTime.minutes, second: 0, millisecond: 0 })
+    : endDay.set({ hour: startDateTime.hour, minute: startDateTime.minute, second: 0, millisecond: 0 })
+      .plus({ minutes: event.endDate ? durationMinutes : 0 });
+
+  return endDateTime > startDateTime ? endDateTime : fallback;
+}
+
+export function buildGoogleEventPayload(
+  event: CalendarEventInput,
+  timeZone: string
+): {
+  payload: Record<string, any>;
+  startType: 'dateTime' | 'date';
+} {
+  const descriptionParts: string[] = [];
+
+  if (event.description) {
+    descriptionParts.push(event.description.trim());
+  }
+
+  if (event.emailSubject) {
+    descriptionParts.push(`Email Subject: ${event.emailSubject}`);
+  }
+
+  descriptionParts.push('Synced via School Email Parser');
+
+  const description = descriptionParts.join('\n\n');
+  const durationMinutes = event.durationMinutes && event.durationMinutes > 0
+    ? event.durationMinutes
+    : 60;
+
+  const parsedTime = parseEventTime(event.time);
+  const recurrence = buildRecurrence(event, timeZone, parsedTime);
+
+  if (!parsedTime) {
+    const startDate = DateTime.fromISO(event.date, { zone: 'utc' });
+    // Google's all-day end date is exclusive: the day after the last day
+    const lastDate = event.endDate
+      ? DateTime.fromISO(event.endDate, { zone: 'utc' })
+      : startDate;
+    const endDate = (lastDate.isValid && lastDate > startDate ? lastDate : startDate).plus({ days: 1 });
+
+    return {
+      payload: {
+        summary: event.title,
+        description,
+        start: {
+          date: startDate.toISODate(),
+        },
+        end: {
+          date: endDate.toISODate(),
+        },
+        ...(event.location ? { location: event.location } : {}),
+        ...(recurrence ? { recurrence } : {}),
+      },
+      startType: 'date',
+    };
+  }
+
+  const startDateTime = DateTime.fromISO(event.date, { zone: timeZone })
+    .set({ hour: parsedTime.hours, minute: parsedTime.minutes, second: 0, millisecond: 0 });
+  const endDateTime = resolveEndDateTime(event, timeZone, startDateTime, durationMinutes);
+
+  return {
+    payload: {
+      summary: event.title,
+      description,
+      start: {
+        dateTime: startDateTime.toISO({ suppressMilliseconds: true }),
+        timeZone,
+      },
+      end: {
+        dateTime: endDateTime.toISO({ suppressMilliseconds: true }),
+        timeZone,
+      },
+      ...(event.location ? { location: event.location } : {}),
+      ...(recurrence ? { recurrence } : {}),
+    },
+    startType: 'dateTime',
+  };
+}
+
+// The same event as the Dashboard sends it, from a stored extracted_dates row
+// selected with processed_emails(subject)
+export function calendarEventFromRow(row: any): CalendarEventInput {
+  return {
+    id: row.id,
+    title: row.event_title,
+    date: row.event_date,
+    time: row.event_time ? row.event_time.substring(0, 5) : null,
+    endDate: row.event_end_date || null,
+    endTime: row.event_end_time ? row.event_end_time.substring(0, 5) : null,
+    description: row.description || null,
+    emailSubject: row.processed_emails?.subject || null,
+    location: row.location || null,
+    durationMinutes: row.event_time && !row.event_end_time ? 60 : null,
+    calendarEventId: row.google_calendar_event_id || null,
+    recurrenceRule: row.recurrence_rule || null,
+    recurrenceExceptions: row.recurrence_exceptions || []
+  };
+}
+
+export async function refreshGoogleAccessToken(refreshToken: string): Promise<GoogleTokens> {
+  const googleClientId = process.env.GOOGLE_CLIENT_ID || process.env.GMAIL_CLIENT_ID || process.env.VITE_GMAIL_CLIENT_ID;
+  const googleClientSecret = process.env.GOOGLE_CLIENT_SECRET || process.env.GMAIL_CLIENT_SECRET || process.env.VITE_GMAIL_CLIENT_SECRET;
+  if (!googleClientId || !googleClientSecret) {
+    throw new Error('Missing Google OAuth client configuration for calendar sync');
+  }
+
+  const response = await fetch('https://oauth2.googleapis.com/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({
+      client_id: googleClientId,
+      client_secret: googleClientSecret,
+      refresh_token: refreshToken,
+      grant_type: 'refresh_token',
+    }),
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Token refresh failed: ${response.statusText}. ${errorText}`);
+  }
+
+  const data = await response.json();
+
+  return {
+    accessToken: data.access_token,
+    refreshToken: refreshToken,
+    expiresAt: Date.now() + data.expires_in * 1000,
+  };
+}
+
+// Run a Google Calendar call with the user's stored access token. A call that
+// fails on credentials is retried once with a refreshed token, which is saved.
+export async function withGoogleAccess<T>(
+  supabase: any,
+  userId: string,
+  call: (accessToken: string) => Promise<T>
+): Promise<T> {
+  const storedTokens = await loadUserTokens(supabase, userId);
+  if (!storedTokens?.accessToken) {
+    throw new Error('No stored Google credentials - please sign in with Gmail again');
+  }
+
+  try {
+    return await call(storedTokens.accessToken);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown calendar error';
+    const isCredentialError = errorMessage.includes('Invalid Credentials') ||
+      errorMessage.includes('invalid_grant') ||
+      errorMessage.includes('401');
+
+    if (!storedTokens.refreshToken || !isCredentialError) {
+      throw error;
+    }
+
+    const tokens = await refreshGoogleAccessToken(storedTokens.refreshToken);
+    try {
+      await saveUserTokens(supabase, userId, {
+        accessToken: tokens.accessToken,
+        refreshToken: tokens.refreshToken,
+        expiresAt: new Date(tokens.expiresAt).toISOString(),
+      });
+    } catch (saveError) {
+      console.error('Failed to update user tokens after refresh:', saveError);
+    }
+    return call(tokens.accessToken);
+  }
+}
+
+// Parsed body of a Google Calendar API response; throws with Google's message
+// when the request failed
+async function readCalendarResponse(response: Response): Promise<any> {
+  const responseText = await response.text();
+
+  let parsedJson: any;
+  try {
+    parsedJson = responseText ? JSON.parse(responseText) : {};
+  } catch (jsonError) {
+    parsedJson = { raw: responseText };
+  }
+
+  if (!response.ok) {
+    const firstError = parsedJson?.error?.message || response.statusText;
+    throw new Error(`Google Calendar API error: ${firstError}`);
+  }
+
+  return parsedJson;
+}
+
+// Update the calendar event, or create it when there is none (or it was deleted
+// on Google's side); returns Google's event
+export async function pushEventToCalendar(
+  accessToken: string,
+  eventId: string | null | undefined,
+  payload: Record<string, any>
+): Promise<any> {
+  const baseUrl = `${GOOGLE_CALENDAR_API_BASE}/calendars/primary/events`;
+  const requestInit: RequestInit = {
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(payload),
+  };
+
+  if (eventId) {
+    const updateResponse = await fetch(`${baseUrl}/${eventId}`, {
+      ...requestInit,
+      method: 'PATCH',
+    });
+
+    if (updateResponse.status !== 404) {
+      return readCalendarResponse(updateResponse);
+    }
+  }
+
+  const createResponse = await fetch(baseUrl, {
+    ...requestInit,
+    method: 'POST',
+  });
+
+  return readCalendarResponse(createResponse);
+}
+
+// Delete the calendar event; one already gone from Google counts as deleted
+export async function deleteEventFromCalendar(accessToken: string, eventId: string): Promise<void> {
+  const response = await fetch(`${GOOGLE_CALENDAR_API_BASE}/calendars/primary/events/${eventId}`, {
+    method: 'DELETE',
+    headers: {
+      Authorization: `Bearer ${accessToken}`,
+    },
+  });
+
+  if (response.status === 404 || response.status === 410) {
+    return;
+  }
+  await readCalendarResponse(response);
+}
+
+async function updateSyncStatus(supabase: any, eventId: string, data: Record<string, any>) {
+  const { error } = await supabase
+    .from('extracted_dates')
+    .update(data)
+    .eq('id', eventId);
+
+  if (error) {
+    console.error('Failed to update event sync status:', error);
+  }
+}
+
+// Send a stored event's current details to the Google Calendar event it is
+// linked to. Failures are recorded on the event like any sync error; returns
+// whether Google has the update.
+export async function pushStoredEvent(supabase: any, userId: string, eventId: string, timeZone: string): Promise<boolean> {
+  const { data: row, error } = await supabase
+    .from('extracted_dates')
+    .select('*, processed_emails(subject)')
+    .eq('id', eventId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !row?.google_calendar_event_id) {
+    return false;
+  }
+
+  try {
+    const { payload } = buildGoogleEventPayload(calendarEventFromRow(row), timeZone);
+    const googleEvent = await withGoogleAccess(supabase, userId, accessToken =>
+      pushEventToCalendar(accessToken, row.google_calendar_event_id, payload)
+    );
+    await updateSyncStatus(supabase, eventId, {
+      google_calendar_event_id: googleEvent?.id || row.google_calendar_event_id,
+      google_calendar_synced_at: new Date().toISOString(),
+      google_calendar_sync_status: 'synced',
+      google_calendar_sync_error: null
+    });
+    return true;
+  } catch (pushError) {
+    const message = pushError instanceof Error ? pushError.message : 'Unknown calendar error';
+    console.error(`Failed to update calendar event of ${eventId}:`, message);
+    await updateSyncStatus(supabase, eventId, {
+      google_calendar_sync_status: 'error',
+      google_calendar_sync_error: message
+    });
+    return false;
+  }
+}
+
+// Delete the Google Calendar event a stored event is linked to and drop the
+// link, so restoring the event from Trash syncs it as a new one
+export async function removeStoredEvent(supabase: any, userId: string, eventId: string, calendarEventId: string): Promise<boolean> {
+  try {
+    await withGoogleAccess(supabase, userId, accessToken => deleteEventFromCalendar(accessToken, calendarEventId));
+    await updateSyncStatus(supabase, eventId, {
+      google_calendar_event_id: null,
+      google_calendar_synced_at: null,
+      google_calendar_sync_status: null,
+      google_calendar_sync_error: null
+    });
+    return true;
+  } catch (deleteError) {
+    const message = deleteError instanceof Error ? deleteError.message : 'Unknown calendar error';
+    console.error(`Failed to delete calendar event of ${eventId}:`, message);
+    await updateSyncStatus(supabase, eventId, {
+      google_calendar_sync_status: 'error',
+      google_calendar_sync_error: message
+    });
+    return false;
+  }
+}
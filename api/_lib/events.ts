@@ -0,0 +1,304 @@
+import crypto from 'crypto';
+
+// Helpers for storing extracted events: deduplication and time normalization
+
+// Helper function to create event hash for deduplication
+export function createEventHash(userId: string, title: string, date: string, time?: string): string {
+  const normalizedTime = normalizeTimeValue(time);
+  const eventKey = `${userId}:${title.toLowerCase().trim()}:${date}:${normalizedTime || 'no-time'}`;
+  return crypto.createHash('md5').update(eventKey).digest('hex');
+}
+
+// Helper function to clean up duplicate events. Only live events are compared:
+// deleted events (tombstones in the Trash) are never kept in place of a live
+// one, and events the user edited or added by hand are never removed. Removed
+// duplicates go to Trash.
+export async function cleanupDuplicateEvents(supabase: any, userId: string): Promise<number> {
+  console.log('Starting duplicate event cleanup...');
+  
+  // Find duplicate events based on user_id, event_title, event_date, and event_time
+  const { data: duplicates, error } = await supabase.rpc('find_duplicate_events', {
+    p_user_id: userId
+  });
+
+  if (error) {
+    console.error('Error finding duplicates:', error);
+    // If the RPC doesn't exist, fall back to manual cleanup
+    return await manualCleanupDuplicates(supabase, userId);
+  }
+
+  // The RPC does not know about tombstones, edits or manual events, so only the
+  // duplicates the live events agree on are removed
+  const reported = new Set<string>((duplicates || []).map((duplicate: any) => duplicate.id));
+  const liveDuplicates = await findLiveDuplicateIds(supabase, userId);
+  if (!liveDuplicates) {
+    return 0;
+  }
+
+  const deletedCount = await deleteDuplicateEvents(supabase, liveDuplicates.filter(id => reported.has(id)));
+  console.log(`Cleaned up ${deletedCount} duplicate events`);
+  return deletedCount;
+}
+
+// Manual fallback cleanup method
+async function manualCleanupDuplicates(supabase: any, userId: string): Promise<number> {
+  console.log('Performing manual duplicate cleanup...');
+
+  const duplicatesToDelete = await findLiveDuplicateIds(supabase, userId);
+  if (!duplicatesToDelete) {
+    return 0;
+  }
+
+  const deletedCount = await deleteDuplicateEvents(supabase, duplicatesToDelete);
+  console.log(`Manually cleaned up ${deletedCount} duplicate events`);
+  return deletedCount;
+}
+
+// Ids of the user's live events that repeat another live event's title, date and
+// time. Per group an edited or manual event is kept first, then the oldest
+// extracted one; null when the events could not be loaded.
+async function findLiveDuplicateIds(supabase: any, userId: string): Promise<string[] | null> {
+  const { data: events, error } = await supabase
+    .from('extracted_dates')
+    .select('id, event_title, event_date, event_time, edited_at, source')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('extracted_at', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching events for cleanup:', error);
+    return null;
+  }
+
+  const isProtected = (event: any) => !!event.edited_at || event.source === 'manual';
+  const eventMap = new Map<string, any[]>();
+
+  // Group events by their unique identifier
+  for (const event of events || []) {
+    const normalizedTime = normalizeTimeValue(event.event_time);
+    const eventKey = `${event.event_title.toLowerCase().trim()}:${event.event_date}:${normalizedTime || 'no-time'}`;
+    eventMap.set(eventKey, [...(eventMap.get(eventKey) || []), event]);
+  }
+
+  const duplicates: string[] = [];
+  for (const group of eventMap.values()) {
+    const survivor = group.find(isProtected) || group[0];
+    for (const event of group) {
+      if (event !== survivor && !isProtected(event)) {
+        duplicates.push(event.id);
+      }
+    }
+  }
+  return duplicates;
+}
+
+async function deleteDuplicateEvents(supabase: any, eventIds: string[]): Promise<number> {
+  let deletedCount = 0;
+  for (const eventId of eventIds) {
+    const { error: deleteError } = await supabase
+      .from('extracted_dates')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', eventId)
+      .is('deleted_at', null)
+      .is('edited_at', null)
+      .neq('source', 'manual');
+    
+    if (!deleteError) {
+      deletedCount++;
+    }
+  }
+  return deletedCount;
+}
+
+// Helper function to normalize time value
+export function normalizeTimeValue(time?: string | null): string | null {
+  // Handle null, undefined, or falsy values
+  if (!time) {
+    return null;
+  }
+  
+  // Convert to string if it's not already (in case it's passed as some other type)
+  const timeStr = String(time).trim();
+  
+  // Handle various representations of null/empty values
+  if (
+    timeStr === '' ||
+    timeStr.toLowerCase() === 'null' ||
+    timeStr.toLowerCase() === 'undefined' ||
+    timeStr === '""' ||           // Empty string with quotes
+    timeStr === "''" ||           // Empty string with single quotes
+    timeStr === 'none' ||         // Common LLM null representation
+    timeStr === 'n/a' ||          // Not applicable
+    timeStr === '-' ||            // Dash as placeholder
+    timeStr === '0' ||            // Zero as placeholder
+    timeStr === '00:00' ||        // Midnight as placeholder
+    timeStr === '00:00:00'        // Full midnight as placeholder
+  ) {
+    return null;
+  }
+  
+  // Remove any surrounding quotes
+  const cleaned = timeStr.replace(/^["']|["']$/g, '');
+  
+  // Final check after cleaning
+  if (cleaned === '' || cleaned.toLowerCase() === 'null' || cleaned.toLowerCase() === 'undefined') {
+    return null;
+  }
+  
+  return cleaned;
+}
+
+const RECURRENCE_FREQUENCIES = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const RECURRENCE_PARTS = ['FREQ', 'INTERVAL', 'COUNT', 'UNTIL', 'BYDAY', 'BYMONTHDAY', 'BYMONTH', 'WKST'];
+
+// Helper function to normalize an RRULE value (e.g. "FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20251126").
+// Accepts an "RRULE:" prefix and ISO UNTIL dates from the LLM; returns null for anything
+// the calendar can't expand so a bad rule never turns into a bogus series.
+export function normalizeRecurrenceRule(rule?: string | null): string | null {
+  if (!rule || typeof rule !== 'string') {
+    return null;
+  }
+
+  const cleaned = rule.trim().replace(/^RRULE:/i, '').toUpperCase();
+  if (!cleaned || cleaned === 'NULL' || cleaned === 'NONE') {
+    return null;
+  }
+
+  const parts: string[] = [];
+  let frequency: string | null = null;
+  for (const part of cleaned.split(';')) {
+    const [key, rawValue] = part.split('=').map(value => value?.trim());
+    if (!key || !rawValue || !RECURRENCE_PARTS.includes(key)) {
+      continue;
+    }
+
+    let value = rawValue;
+    if (key === 'FREQ') {
+      if (!RECURRENCE_FREQUENCIES.includes(value)) {
+        return null;
+      }
+      frequency = value;
+      parts.unshift(`FREQ=${value}`);
+      continue;
+    } else if (key === 'UNTIL') {
+      // 2025-11-26 -> 20251126
+      value = value.replace(/-/g, '').replace(/:/g, '');
+      if (!/^\d{8}(T\d{6}Z?)?$/.test(value)) {
+        continue;
+      }
+    } else if ((key === 'INTERVAL' || key === 'COUNT') && !/^\d+$/.test(value)) {
+      continue;
+    }
+    parts.push(`${key}=${value}`);
+  }
+
+  if (!frequency) {
+    return null;
+  }
+
+  return parts.join(';');
+}
+
+// Additional safety check for database operations
+export function validateTimeForDatabase(time: string | null): string | null {
+  if (time === null || time === undefined) {
+    return null;
+  }
+  
+  // Extra safety: if somehow a string "null" still gets through, catch it here
+  if (typeof time === 'string' && (time === 'null' || time === 'undefined' || time.trim() === '')) {
+    console.warn(`Database validator caught invalid time value: "${time}"`);
+    return null;
+  }
+  
+  return time;
+}
+
+// Helper function to check if event already exists
+export async function eventExists(
+  supabase: any, 
+  userId: string, 
+  title: string, 
+  date: string, 
+  time?: string | null,
+  emailSubject?: string
+): Promise<boolean> {
+  const normalizedTime = normalizeTimeValue(time);
+  
+  // Debug logging to identify the problematic time value
+  if (time !== normalizedTime) {
+    console.log(`Time normalization: "${time}" -> ${normalizedTime === null ? 'NULL' : `"${normalizedTime}"`}`);
+  }
+  
+  const safeTime = validateTimeForDatabase(normalizedTime);
+  
+  // Build query with proper null handling for Supabase
+  let query = supabase
+    .from('extracted_dates')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('event_title', title.trim())
+    .eq('event_date', date);
+    
+  // Handle null time values explicitly for Supabase
+  if (safeTime === null || safeTime === undefined) {
+    query = query.is('event_time', null);
+  } else {
+    query = query.eq('event_time', safeTime);
+  }
+  
+  const { data, error } = await query.limit(1);
+
+  if (error) {
+    console.error('Error checking event existence:', error);
+    console.error('Query parameters:', {
+      emailSubject: emailSubject || 'Unknown',
+      userId,
+      title: title.trim(),
+      date,
+      originalTime: time,
+      normalizedTime,
+      safeTime,
+      safeTimeType: typeof safeTime
+    });
+    return false;
+  }
+
+  return data && data.length > 0;
+}
+
+// Id of the user's deleted event with this title, date and time, if any. The
+// tombstone holds the unique key, so storing the same event again would be
+// ignored as a duplicate while the event sits in Trash.
+export async function findDeletedEvent(
+  supabase: any,
+  userId: string,
+  title: string,
+  date: string,
+  time?: string | null
+): Promise<string | null> {
+  const safeTime = validateTimeForDatabase(normalizeTimeValue(time));
+
+  let query = supabase
+    .from('extracted_dates')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('event_title', title.trim())
+    .eq('event_date', date)
+    .not('deleted_at', 'is', null);
+
+  if (safeTime === null || safeTime === undefined) {
+    query = query.is('event_time', null);
+  } else {
+    query = query.eq('event_time', safeTime);
+  }
+
+  const { data, error } = await query.limit(1);
+
+  if (error) {
+    console.error('Error checking for a deleted event:', error);
+    return null;
+  }
+
+  return data && data.length > 0 ? data[0].id : null;
+}
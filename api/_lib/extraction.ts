@@ -0,0 +1,636 @@
+import { ChildProfile, currentPromptVersions, EmailContent, ExtractionCache, LLMOrchestrator, LLMResponse } from './llm.js';
+import { eventExists, findDeletedEvent, normalizeTimeValue, validateTimeForDatabase } from './events.js';
+import { AttachmentText } from './attachments.js';
+import { CalendarEvent } from './ics.js';
+import { LLMProviderName, resolveStageProviders, toBudgetProviders } from './providers.js';
+import { BatchOutput } from './batch.js';
+import { enqueueEmailJob, EmailJobPayload } from './jobs.js';
+import { loadDeletedEventKeys, loadSuppressedEvents, suppressionKey } from './suppressions.js';
+import { loadCorrectedEventKeys } from './revisions.js';
+import { stageReprocessChanges } from './reprocess.js';
+
+// Extraction step for a single stored email: runs the tiered LLM pipeline,
+// records processing history, and stores the extracted events. Reprocessing
+// stages the differences with the stored events instead (see reprocess.ts).
+
+export interface ExtractionResult {
+  eventsExtracted: number;
+  eventsStored: number;
+  skippedDuplicateEvents: number;
+  skippedSuppressedEvents: number; // Rejected in the review queue, edited or deleted by the user before
+  changesStaged: number; // Reprocessing: added, changed and removed events waiting for the user
+  cacheHits: number;
+  cost: number;
+  processingTimeMs: number;
+}
+
+// Orchestrator for one user: each stage runs on the provider resolved from
+// LLM_PROVIDER_<STAGE>, the user's preference and the defaults (see providers.ts).
+// A degraded orchestrator, for users past their monthly budget, uses the cheapest
+// model of each vendor and never runs the fallback stage. With a cache, extraction
+// output for content seen before is reused instead of calling the model again.
+export function createLLMOrchestrator(
+  preference?: LLMProviderName | null,
+  options: { degraded?: boolean; cache?: ExtractionCache } = {}
+): LLMOrchestrator {
+  const providers = resolveStageProviders(preference);
+
+  return new LLMOrchestrator(
+    options.degraded ? toBudgetProviders(providers) : providers,
+    {
+      // Confidence never drops below 0, so no event triggers the fallback
+      confidenceThreshold: options.degraded ? 0 : parseFloat(process.env.CONFIDENCE_THRESHOLD || '0.7'),
+      cache: options.cache
+    }
+  );
+}
+
+export interface ChildTag {
+  id: string;
+  profile: ChildProfile;
+}
+
+// The user's kid tags, described to the model so it can attribute events
+async function loadChildTags(supabase: any, userId: string): Promise<ChildTag[]> {
+  const { data, error } = await supabase
+    .from('tags')
+    .select('id, name, grade_level, school_name, teacher_name')
+    .eq('user_id', userId)
+    .eq('type', 'kid');
+
+  if (error) {
+    console.error('Failed to load kid tags, events will not be attributed:', error);
+    return [];
+  }
+
+  return (data || []).map((tag: any) => ({
+    id: tag.id,
+    profile: {
+      name: tag.name,
+      gradeLevel: tag.grade_level || undefined,
+      schoolName: tag.school_name || undefined,
+      teacherName: tag.teacher_name || undefined
+    }
+  }));
+}
+
+// Map the child names the model returned back to kid tags. Names are matched
+// case-insensitively, ignoring details the model may echo in parentheses.
+export function matchChildTags(names: string[] | undefined, childTags: ChildTag[]): string[] {
+  const normalize = (name: string) => name.replace(/\(.*?\)/g, '').trim().toLowerCase();
+  const wanted = new Set((names || []).map(normalize));
+  return childTags.filter(tag => wanted.has(normalize(tag.profile.name))).map(tag => tag.id);
+}
+
+// What the model reads for one email: the body and each attachment as separate
+// contents, so every event can point back to the file it came from
+export async function loadExtractionContents(
+  supabase: any,
+  job: {
+    userId: string;
+    content: EmailContent;
+    attachments?: AttachmentText[];
+  }
+): Promise<{ contents: EmailContent[]; childTags: ChildTag[] }> {
+  const childTags = await loadChildTags(supabase, job.userId);
+  const content: EmailContent = { ...job.content, children: childTags.map(tag => tag.profile) };
+
+  const contents: EmailContent[] = [
+    content,
+    ...(job.attachments || []).map(attachment => ({
+      subject: content.subject,
+      body: attachment.text,
+      senderEmail: content.senderEmail,
+      sentDate: content.sentDate,
+      sourceAttachment: attachment.filename,
+      children: content.children
+    }))
+  ];
+
+  return { contents, childTags };
+}
+
+// Run extraction for one email and store its events. batchOutputs carries the
+// main extraction results of a completed LLM batch (see batch.ts).
+export async function extractAndStoreEvents(
+  supabase: any,
+  llmOrchestrator: LLMOrchestrator,
+  job: {
+    userId: string;
+    sessionId: string | null;
+    emailId: string;
+    content: EmailContent;
+    attachments?: AttachmentText[];
+    forceReprocess: boolean;
+    batchOutputs?: BatchOutput[];
+  }
+): Promise<ExtractionResult> {
+  const { userId, sessionId, emailId, forceReprocess } = job;
+  const { contents, childTags } = await loadExtractionContents(supabase, job);
+  const content = contents[0];
+
+  await supabase
+    .from('processed_emails')
+    .update({
+      processing_status: 'processing',
+      processing_started_at: new Date().toISOString()
+    })
+    .eq('id', emailId);
+
+  console.log(`Extracting events from "${content.subject}" with ${contents.length - 1} attachments${job.batchOutputs ? ' from batch results' : ''}`);
+
+  const llmStartTime = Date.now();
+  const llmResults = await llmOrchestrator.processEmails(contents, job.batchOutputs);
+  const totalLLMTime = Date.now() - llmStartTime;
+
+  // Keep the first occurrence when the body and an attachment announce the same event
+  const events: Array<LLMResponse & { sourceAttachment: string | null }> = [];
+  const seenEvents = new Set<string>();
+  contents.forEach((item, index) => {
+    for (const event of llmResults.results[`email-${index}`] || []) {
+      const key = `${event.title.toLowerCase()}:${event.date}:${normalizeTimeValue(event.time) || ''}`;
+      if (seenEvents.has(key)) {
+        continue;
+      }
+      seenEvents.add(key);
+      events.push({ ...event, sourceAttachment: item.sourceAttachment || null });
+    }
+  });
+
+  console.log(`LLM processing completed in ${totalLLMTime}ms${llmResults.processingStats.cacheHits > 0 ? ` (${llmResults.processingStats.cacheHits} cached responses reused)` : ''}`);
+  console.log(`Processing stats:`, llmResults.processingStats);
+
+  // Store processing history for each cost tracking entry
+  for (const cost of llmResults.costTracking) {
+    const { error: historyError } = await supabase
+      .from('processing_history')
+      .insert({
+        user_id: userId,
+        session_id: sessionId,
+        email_id: emailId,
+        llm_provider: cost.provider,
+        model_name: cost.model,
+        processing_step: cost.stage,
+        prompt_version: cost.promptVersion,
+        processing_time: cost.processingTimeMs,
+        input_tokens: cost.inputTokens,
+        output_tokens: cost.outputTokens,
+        token_usage: cost.inputTokens + cost.outputTokens,
+        cost: cost.cost,
+        success_status: true,
+        retry_count: 0
+      });
+
+    if (historyError) {
+      console.error('Failed to store processing history:', historyError);
+    }
+  }
+
+  // Store email-level processing history
+  const avgConfidence = events.length > 0 ? events.reduce((sum, e) => sum + e.confidence, 0) / events.length : null;
+  const { error: emailHistoryError } = await supabase
+    .from('processing_history')
+    .insert({
+      user_id: userId,
+      session_id: sessionId,
+      email_id: emailId,
+      llm_provider: 'email_processing',
+      model_name: 'orchestrator',
+      processing_step: 'email_analysis',
+      prompt_version: llmOrchestrator.extractionPromptVersion,
+      processing_time: totalLLMTime,
+      input_tokens: 0, // Summed from the LLM calls above
+      output_tokens: events.length, // Number of events extracted
+      token_usage: events.length,
+      cost: 0, // Cost is tracked at LLM level
+      success_status: true,
+      confidence_score: avgConfidence,
+      retry_count: 0
+    });
+
+  if (emailHistoryError) {
+    console.error('Failed to store email processing history:', emailHistoryError);
+  }
+
+  // Update the processed email with comprehensive processing information
+  const totalEmailCost = llmResults.costTracking.reduce((sum, cost) => sum + cost.cost, 0);
+  const totalTokens = llmResults.costTracking.reduce((sum, cost) => sum + cost.inputTokens + cost.outputTokens, 0);
+
+  const { error: updateError } = await supabase
+    .from('processed_emails')
+    .update({
+      processing_status: 'completed',
+      processing_completed_at: new Date().toISOString(),
+      events_extracted_count: events.length,
+      average_confidence_score: avgConfidence,
+      processing_cost: totalEmailCost,
+      total_tokens_used: totalTokens,
+      llm_providers_used: [...new Set(llmResults.costTracking.map(c => c.provider))].join(', '),
+      models_used: [...new Set(llmResults.costTracking.map(c => c.model))].join(', '),
+      prompt_version: llmOrchestrator.extractionPromptVersion,
+      processing_time_ms: totalLLMTime,
+      had_date_content: events.length > 0,
+      classification_passed: true,
+      extraction_successful: true,
+      processing_error_message: null
+    })
+    .eq('id', emailId);
+
+  if (updateError) {
+    console.error(`Failed to update processing info for email ${content.subject}:`, updateError);
+  }
+
+  let eventsStored = 0;
+  let skippedDuplicateEvents = 0;
+  let skippedSuppressedEvents = 0;
+  const suppressed = await loadSuppressedEvents(supabase, userId, emailId);
+  for (const key of [...await loadCorrectedEventKeys(supabase, emailId), ...await loadDeletedEventKeys(supabase, emailId)]) {
+    suppressed.add(key);
+  }
+
+  const keptEvents = events.filter(event => {
+    if (suppressed.has(suppressionKey(event.title, event.date))) {
+      console.log(`Event "${event.title}" on ${event.date} was turned down in review, edited or deleted, skipping...`);
+      skippedSuppressedEvents++;
+      return false;
+    }
+    return true;
+  });
+
+  const result = {
+    eventsExtracted: events.length,
+    skippedSuppressedEvents,
+    cacheHits: llmResults.processingStats.cacheHits,
+    cost: totalEmailCost,
+    processingTimeMs: totalLLMTime
+  };
+
+  // Reprocessing leaves the stored events alone: the new extraction is compared
+  // with them and the user applies the differences
+  if (forceReprocess) {
+    const staged = await stageReprocessChanges(supabase, {
+      userId,
+      emailId,
+      events: keptEvents.map(event => ({
+        title: event.title,
+        date: event.date,
+        time: validateTimeForDatabase(normalizeTimeValue(event.time)),
+        endDate: event.endDate || null,
+        endTime: validateTimeForDatabase(normalizeTimeValue(event.endTime)),
+        location: event.location || null,
+        description: event.description || null,
+        recurrenceRule: event.recurrenceRule || null,
+        confidence: event.confidence,
+        reasoning: event.reasoning || null,
+        sourceAttachment: event.sourceAttachment,
+        promptVersion: event.promptVersion || null,
+        tagIds: matchChildTags(event.children, childTags)
+      }))
+    });
+    console.log(`Staged reprocess changes for "${content.subject}":`, staged);
+
+    return {
+      ...result,
+      eventsStored: 0,
+      skippedDuplicateEvents: 0,
+      changesStaged: staged.added + staged.changed + staged.removed
+    };
+  }
+
+  for (const event of keptEvents) {
+    // Normalize the time value before checking existence and storing
+    const normalizedTime = normalizeTimeValue(event.time);
+
+    // The same event deleted from another email stays in Trash until the user restores it
+    if (await findDeletedEvent(supabase, userId, event.title, event.date, normalizedTime)) {
+      console.log(`Event "${event.title}" on ${event.date} is in Trash, skipping...`);
+      skippedSuppressedEvents++;
+      continue;
+    }
+
+    // Check if this exact event already exists for this user
+    const exists = await eventExists(supabase, userId, event.title, event.date, normalizedTime, content.subject);
+
+    if (exists) {
+      console.log(`Event "${event.title}" on ${event.date} already exists, skipping...`);
+      skippedDuplicateEvents++;
+      continue;
+    }
+
+    const safeTime = validateTimeForDatabase(normalizedTime);
+
+    const { data: extractedDate, error: dateError } = await supabase
+      .from('extracted_dates')
+      .upsert({
+        email_id: emailId,
+        user_id: userId,
+        event_title: event.title,
+        event_date: event.date,
+        event_time: safeTime === null || safeTime === undefined ? null : safeTime,
+        event_end_date: event.endDate || null,
+        event_end_time: validateTimeForDatabase(normalizeTimeValue(event.endTime)) || null,
+        location: event.location || null,
+        description: event.description,
+        confidence_score: event.confidence,
+        is_verified: false,
+        extracted_at: new Date().toISOString(),
+        reasoning: event.reasoning || null,
+        recurrence_rule: event.recurrenceRule || null,
+        source_attachment: event.sourceAttachment,
+        prompt_version: event.promptVersion || null
+      }, {
+        onConflict: 'user_id,event_title,event_date,event_time',
+        ignoreDuplicates: true
+      })
+      .select()
+      .single();
+
+    if (!dateError && extractedDate) {
+      eventsStored++;
+
+      const tagIds = matchChildTags(event.children, childTags);
+      if (tagIds.length > 0) {
+        const { error: tagError } = await supabase
+          .from('extracted_date_tags')
+          .upsert(tagIds.map(tagId => ({
+            extracted_date_id: extractedDate.id,
+            tag_id: tagId,
+            user_id: userId,
+            assigned_by: 'llm'
+          })), {
+            onConflict: 'extracted_date_id,tag_id',
+            ignoreDuplicates: true
+          });
+
+        if (tagError) {
+          console.error(`Failed to attribute "${event.title}" to children:`, tagError);
+        }
+      }
+    } else if (dateError) {
+      console.error('Error storing extracted date:', dateError);
+      console.error('Failed event data:', {
+        emailSubject: content.subject,
+        emailSender: content.senderEmail,
+        title: event.title,
+        date: event.date,
+        originalTime: event.time,
+        normalizedTime,
+        safeTime,
+        userId
+      });
+    }
+  }
+
+  return {
+    ...result,
+    eventsStored,
+    skippedDuplicateEvents,
+    changesStaged: 0
+  };
+}
+
+// Store events parsed from iCalendar data. They bypass the LLM entirely, so they
+// are stored with full confidence and no cost. A UID that was seen before
+// updates its earlier rows in place, which is how updated and cancelled invites
+// arrive; verification and the Google Calendar link survive the update. Rows the
+// user edited or deleted are kept and the invite's version skipped. A reprocess
+// reads the same invite again, possibly an older version of it, so `keepExisting`
+// leaves every stored row as it is and only adds events that are missing.
+export async function storeCalendarEvents(
+  supabase: any,
+  job: {
+    userId: string;
+    sessionId: string | null;
+    emailId: string;
+    events: CalendarEvent[];
+    keepExisting?: boolean;
+  }
+): Promise<{ eventsStored: number; eventsCancelled: number }> {
+  const { userId, sessionId, emailId, events } = job;
+  const startTime = Date.now();
+  let eventsStored = 0;
+  let eventsCancelled = 0;
+
+  const uids = [...new Set(events.map(event => event.uid).filter((uid): uid is string => !!uid))];
+  const earlierRows = await loadCalendarRows(supabase, userId, uids);
+
+  for (const event of events) {
+    if (event.cancelled) {
+      eventsCancelled++;
+      continue;
+    }
+
+    const fields = {
+      email_id: emailId,
+      event_title: event.title,
+      event_date: event.date,
+      event_time: event.time,
+      event_end_date: event.endDate,
+      event_end_time: event.endTime,
+      location: event.location,
+      description: event.description,
+      confidence_score: 1.0,
+      recurrence_rule: event.recurrenceRule,
+      recurrence_exceptions: event.recurrenceExceptions.length > 0 ? event.recurrenceExceptions : null,
+      source: 'ics',
+      ics_uid: event.uid
+    };
+
+    // An occurrence on the same date takes over that row, otherwise the earliest left
+    const rows = event.uid ? earlierRows.get(event.uid) || [] : [];
+    const sameDate = rows.findIndex(row => row.event_date === event.date);
+    const earlier = rows.splice(sameDate === -1 ? 0 : sameDate, 1)[0];
+
+    if (earlier && (job.keepExisting || earlier.edited_at || earlier.deleted_at)) {
+      console.log(`Calendar event "${event.title}" is already stored or was edited or deleted by the user, keeping that version...`);
+      continue;
+    }
+
+    if (earlier) {
+      const { error: updateError } = await supabase
+        .from('extracted_dates')
+        .update(fields)
+        .eq('id', earlier.id);
+
+      // 23505 = unique_violation: the updated event matches one already stored
+      if (updateError && updateError.code !== '23505') {
+        console.error('Error updating calendar event:', updateError, { title: event.title, date: event.date });
+      } else if (!updateError) {
+        eventsStored++;
+      }
+      continue;
+    }
+
+    if (await findDeletedEvent(supabase, userId, event.title, event.date, event.time)) {
+      console.log(`Calendar event "${event.title}" on ${event.date} is in Trash, skipping...`);
+      continue;
+    }
+
+    const { data: storedEvent, error: dateError } = await supabase
+      .from('extracted_dates')
+      .upsert({
+        ...fields,
+        user_id: userId,
+        is_verified: false,
+        extracted_at: new Date().toISOString(),
+        reasoning: null
+      }, {
+        onConflict: 'user_id,event_title,event_date,event_time',
+        ignoreDuplicates: true
+      })
+      .select()
+      .maybeSingle();
+
+    if (dateError) {
+      console.error('Error storing calendar event:', dateError, { title: event.title, date: event.date });
+    } else if (storedEvent) {
+      eventsStored++;
+    }
+  }
+
+  // Rows no occurrence took over belong to cancelled invites or dropped occurrences
+  const leftoverIds = job.keepExisting ? [] : [...earlierRows.values()].flat()
+    .filter(row => !row.edited_at && !row.deleted_at)
+    .map(row => row.id);
+  if (leftoverIds.length > 0) {
+    const { error: deleteError } = await supabase
+      .from('extracted_dates')
+      .update({ deleted_at: new Date().toISOString() })
+      .in('id', leftoverIds);
+
+    if (deleteError) {
+      console.error('Failed to remove cancelled calendar events:', deleteError);
+    } else {
+      console.log(`Moved ${leftoverIds.length} events no longer in updated calendar invites to Trash`);
+    }
+  }
+
+  const { error: historyError } = await supabase
+    .from('processing_history')
+    .insert({
+      user_id: userId,
+      session_id: sessionId,
+      email_id: emailId,
+      llm_provider: 'ics',
+      model_name: null,
+      processing_step: 'ics_import',
+      processing_time: Date.now() - startTime,
+      input_tokens: 0,
+      output_tokens: eventsStored, // Number of events stored, as for email_analysis rows
+      token_usage: 0,
+      cost: 0,
+      success_status: true,
+      confidence_score: 1.0,
+      retry_count: 0
+    });
+
+  if (historyError) {
+    console.error('Failed to store calendar import history:', historyError);
+  }
+
+  return { eventsStored, eventsCancelled };
+}
+
+interface CalendarRow {
+  id: string;
+  event_date: string;
+  edited_at: string | null;
+  deleted_at: string | null;
+}
+
+// Rows already imported for these invite UIDs, grouped by UID in date order
+async function loadCalendarRows(
+  supabase: any,
+  userId: string,
+  uids: string[]
+): Promise<Map<string, CalendarRow[]>> {
+  const rows = new Map<string, CalendarRow[]>();
+  if (uids.length === 0) {
+    return rows;
+  }
+
+  const { data, error } = await supabase
+    .from('extracted_dates')
+    .select('id, ics_uid, event_date, edited_at, deleted_at')
+    .eq('user_id', userId)
+    .in('ics_uid', uids)
+    .order('event_date', { ascending: true });
+
+  if (error) {
+    console.error('Failed to load earlier calendar events:', error);
+    return rows;
+  }
+
+  for (const row of data || []) {
+    rows.set(row.ics_uid, [...(rows.get(row.ics_uid) || []), row]);
+  }
+  return rows;
+}
+
+// Completed emails whose main extraction used a prompt version that is no longer
+// current, including emails extracted before versioning. Calendar-only emails
+// never went through the LLM and are left out.
+export async function findOutdatedEmails(supabase: any, userId: string): Promise<Array<{ id: string; prompt_version: string | null }>> {
+  const { data, error } = await supabase
+    .from('processed_emails')
+    .select('id, prompt_version, llm_providers_used')
+    .eq('user_id', userId)
+    .eq('processing_status', 'completed');
+
+  if (error) {
+    throw new Error(`Failed to load processed emails: ${error.message}`);
+  }
+
+  const currentVersions = currentPromptVersions();
+  return (data || []).filter((email: any) =>
+    email.llm_providers_used !== 'ics' && !currentVersions.includes(email.prompt_version)
+  );
+}
+
+// Queue extraction again for up to `limit` outdated emails. Each job reuses the
+// payload of the email's last extraction job, so Gmail is not read again, and
+// runs as a reprocess: the differences with the email's LLM events are staged
+// for the user to apply (see reprocess.ts). Calendar imports are kept.
+export async function requeueOutdatedEmails(
+  supabase: any,
+  userId: string,
+  options: { limit?: number } = {}
+): Promise<{ jobsEnqueued: number; unavailable: number; remaining: number }> {
+  const outdated = await findOutdatedEmails(supabase, userId);
+  const selected = outdated.slice(0, options.limit || 200);
+  let jobsEnqueued = 0;
+  let unavailable = 0;
+
+  for (const email of selected) {
+    const { data: lastJob } = await supabase
+      .from('email_jobs')
+      .select('payload')
+      .eq('email_id', email.id)
+      .order('created_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    // Emails from before the job queue have no stored content; a full reprocess covers them
+    if (!lastJob?.payload) {
+      unavailable++;
+      continue;
+    }
+
+    const payload: EmailJobPayload = { ...lastJob.payload, forceReprocess: true };
+    if (await enqueueEmailJob(supabase, { userId, sessionId: null, emailId: email.id, payload })) {
+      jobsEnqueued++;
+      await supabase
+        .from('processed_emails')
+        .update({ processing_status: 'queued' })
+        .eq('id', email.id);
+    }
+  }
+
+  console.log(`Requeued ${jobsEnqueued} of ${outdated.length} emails extracted with outdated prompts (${unavailable} without stored content)`);
+
+  return {
+    jobsEnqueued,
+    unavailable,
+    remaining: outdated.length - selected.length
+  };
+}
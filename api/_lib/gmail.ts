@@ -0,0 +1,567 @@
+// Gmail access shared by the sync endpoint and background jobs:
+// OAuth token refresh, message listing/history, and MIME text extraction.
+
+/**
+ * Converts HTML content to clean plain text
+ * Handles HTML entities, preserves meaningful whitespace, and cleans up formatting
+ */
+function htmlToText(html: string): string {
+  if (!html) return '';
+
+  let text = html;
+
+  // Remove script and style tags and their content (they add noise)
+  text = text.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '');
+  text = text.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '');
+
+  // Preserve important links by extracting href text
+  // Convert <a href="url">text</a> to "text (url)" for important links
+  text = text.replace(/<a[^>]+href=["']([^"']+)["'][^>]*>(.*?)<\/a>/gi, (match, url, linkText) => {
+    // Only preserve link URL if it looks important (not tracking pixels, etc.)
+    if (url.startsWith('http') && !url.includes('track') && !url.includes('pixel')) {
+      return `${linkText} [${url}]`;
+    }
+    return linkText;
+  });
+
+  // Handle tables: Add spacing between cells
+  text = text.replace(/<\/td>/gi, ' | ');
+  text = text.replace(/<\/tr>/gi, '\n');
+  text = text.replace(/<\/th>/gi, ' | ');
+
+  // Preserve headings with emphasis
+  text = text.replace(/<h[1-6][^>]*>(.*?)<\/h[1-6]>/gi, '\n\n$1\n');
+
+  // Replace common block elements with line breaks
+  text = text.replace(/<\/?(div|p|br|li|blockquote)[^>]*>/gi, '\n');
+
+  // Replace list items with bullet points
+  text = text.replace(/<li[^>]*>/gi, '\n• ');
+
+  // Handle horizontal rules
+  text = text.replace(/<hr[^>]*>/gi, '\n---\n');
+
+  // Remove all remaining HTML tags
+  text = text.replace(/<[^>]*>/g, '');
+
+  // Decode common HTML entities
+  const entities: { [key: string]: string } = {
+    '&amp;': '&',
+    '&lt;': '<',
+    '&gt;': '>',
+    '&quot;': '"',
+    '&#39;': "'",
+    '&apos;': "'",
+    '&nbsp;': ' ',
+    '&ndash;': '–',
+    '&mdash;': '—',
+    '&hellip;': '…',
+    '&copy;': '©',
+    '&reg;': '®',
+    '&trade;': '™',
+    '&bull;': '•',
+    '&middot;': '·',
+    '&lsquo;': '‘',
+    '&rsquo;': '’',
+    '&ldquo;': '“',
+    '&rdquo;': '”',
+    '&times;': '×',
+    '&divide;': '÷'
+  };
+
+  // Replace HTML entities
+  for (const [entity, replacement] of Object.entries(entities)) {
+    text = text.replace(new RegExp(entity, 'gi'), replacement);
+  }
+
+  // Handle numeric HTML entities (like &#160; for non-breaking space)
+  text = text.replace(/&#(\d+);/g, (match, dec) => {
+    const code = parseInt(dec, 10);
+    // Skip control characters and use space for non-breaking space
+    if (code === 160) return ' ';
+    if (code < 32) return '';
+    return String.fromCharCode(code);
+  });
+
+  // Handle hex HTML entities (like &#x00A0; for non-breaking space)
+  text = text.replace(/&#x([0-9A-F]+);/gi, (match, hex) => {
+    const code = parseInt(hex, 16);
+    // Skip control characters and use space for non-breaking space
+    if (code === 160) return ' ';
+    if (code < 32) return '';
+    return String.fromCharCode(code);
+  });
+
+  // Handle zero-width characters and other Unicode noise
+  text = text.replace(/[\u200B-\u200D\uFEFF]/g, ''); // Zero-width spaces
+
+  // Clean up whitespace
+  text = text
+    .replace(/\r\n/g, '\n') // Normalize line endings
+    .replace(/\r/g, '\n') // Normalize line endings
+    .replace(/\n{3,}/g, '\n\n') // Replace multiple line breaks with double line breaks
+    .replace(/[ \t]+/g, ' ') // Replace multiple spaces/tabs with single space
+    .replace(/[ \t]*\n[ \t]*/g, '\n') // Remove spaces around line breaks
+    .replace(/\n\s*\n\s*\n/g, '\n\n') // Remove excessive blank lines
+    .trim(); // Remove leading/trailing whitespace
+
+  return text;
+}
+
+/**
+ * Decodes quoted-printable encoded text
+ * Used in many MIME email parts
+ */
+function decodeQuotedPrintable(text: string): string {
+  if (!text) return '';
+
+  // Decode =XX sequences (hex-encoded characters)
+  let decoded = text.replace(/=([0-9A-F]{2})/gi, (match, hex) => {
+    return String.fromCharCode(parseInt(hex, 16));
+  });
+
+  // Handle soft line breaks (=\r\n or =\n)
+  decoded = decoded.replace(/=\r?\n/g, '');
+
+  return decoded;
+}
+
+/**
+ * Extracts and cleans text content from email body, handling both plain text and HTML
+ */
+export function extractEmailText(body: string): string {
+  if (!body) return '';
+
+  // First, try to detect and decode quoted-printable encoding
+  // Common indicators: presence of =XX sequences and/or =\n line continuations
+  const looksLikeQuotedPrintable = /=[0-9A-F]{2}|=\r?\n/.test(body);
+  if (looksLikeQuotedPrintable) {
+    body = decodeQuotedPrintable(body);
+  }
+
+  // Check if content appears to be HTML (contains HTML tags)
+  const hasHtmlTags = /<[^>]+>/.test(body);
+
+  if (hasHtmlTags) {
+    return htmlToText(body);
+  }
+
+  // For plain text, just clean up whitespace
+  return body
+    .replace(/\r\n/g, '\n')
+    .replace(/\r/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+}
+
+// Gmail Token interface
+export interface GmailTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: number;
+}
+
+export interface GmailAttachmentPart {
+  filename: string;
+  mimeType: string;
+  size: number;
+  attachmentId?: string;
+  data?: string; // base64url body for small inline attachments
+}
+
+// Gmail Service class
+export class GmailService {
+  private clientId: string;
+  private clientSecret: string;
+
+  constructor(clientId: string, clientSecret: string) {
+    this.clientId = clientId;
+    this.clientSecret = clientSecret;
+  }
+
+  // Refresh access token
+  async refreshAccessToken(refreshToken: string): Promise<GmailTokens> {
+    const response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({
+        client_id: this.clientId,
+        client_secret: this.clientSecret,
+        refresh_token: refreshToken,
+        grant_type: 'refresh_token',
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Token refresh failed: ${response.statusText}`);
+    }
+
+    const data = await response.json();
+    
+    return {
+      accessToken: data.access_token,
+      refreshToken: refreshToken, // Refresh token usually doesn't change
+      expiresAt: Date.now() + (data.expires_in * 1000)
+    };
+  }
+
+  // List messages from Gmail
+  async listMessages(
+    accessToken: string,
+    options: {
+      maxResults?: number;
+      pageToken?: string;
+      q?: string; // Gmail search query
+    } = {}
+  ): Promise<{
+    messages: Array<{ id: string; threadId: string }>;
+    nextPageToken?: string;
+  }> {
+    const params = new URLSearchParams({
+      maxResults: (options.maxResults || 10).toString(),
+      ...(options.pageToken && { pageToken: options.pageToken }),
+      ...(options.q && { q: options.q }),
+    });
+
+    const response = await fetch(
+      `https://gmail.googleapis.com/gmail/v1/users/me/messages?${params.toString()}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Gmail API listMessages error: ${response.status} ${response.statusText}`, errorText);
+      
+      if (response.status === 401) {
+        throw new Error('Gmail access token expired or invalid');
+      } else if (response.status === 403) {
+        throw new Error('Gmail API access forbidden - check OAuth scopes and permissions');
+      } else if (response.status === 429) {
+        throw new Error('Gmail API rate limit exceeded');
+      } else {
+        throw new Error(`Failed to list messages: ${response.status} ${response.statusText}`);
+      }
+    }
+
+    const data = await response.json();
+    return {
+      messages: data.messages || [],
+      nextPageToken: data.nextPageToken
+    };
+  }
+
+  // Get the mailbox profile - its historyId is the checkpoint for incremental syncs
+  async getProfile(accessToken: string): Promise<{ emailAddress: string; historyId: string }> {
+    const response = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/profile', {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Gmail API getProfile error: ${response.status} ${response.statusText}`, errorText);
+
+      if (response.status === 401) {
+        throw new Error('Gmail access token expired or invalid');
+      } else if (response.status === 403) {
+        throw new Error('Gmail API access forbidden - check OAuth scopes and permissions');
+      } else {
+        throw new Error(`Failed to get profile: ${response.status} ${response.statusText}`);
+      }
+    }
+
+    const data = await response.json();
+    return {
+      emailAddress: data.emailAddress,
+      historyId: String(data.historyId)
+    };
+  }
+
+  // List messages added to the mailbox since startHistoryId.
+  // Returns null when startHistoryId is too old for Gmail to replay (404), in which
+  // case the caller has to fall back to a search-based scan.
+  async listHistory(
+    accessToken: string,
+    options: {
+      startHistoryId: string;
+      pageToken?: string;
+      maxResults?: number;
+    }
+  ): Promise<{
+    messageIds: string[];
+    historyId: string;
+    nextPageToken?: string;
+  } | null> {
+    const params = new URLSearchParams({
+      startHistoryId: options.startHistoryId,
+      historyTypes: 'messageAdded',
+      maxResults: (options.maxResults || 100).toString(),
+      ...(options.pageToken && { pageToken: options.pageToken }),
+    });
+
+    const response = await fetch(
+      `https://gmail.googleapis.com/gmail/v1/users/me/history?${params.toString()}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (response.status === 404) {
+      console.log(`Gmail history from ${options.startHistoryId} is no longer available`);
+      return null;
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Gmail API listHistory error: ${response.status} ${response.statusText}`, errorText);
+
+      if (response.status === 401) {
+        throw new Error('Gmail access token expired or invalid');
+      } else if (response.status === 403) {
+        throw new Error('Gmail API access forbidden - check OAuth scopes and permissions');
+      } else if (response.status === 429) {
+        throw new Error('Gmail API rate limit exceeded');
+      } else {
+        throw new Error(`Failed to list history: ${response.status} ${response.statusText}`);
+      }
+    }
+
+    const data = await response.json();
+    const messageIds: string[] = [];
+    for (const record of data.history || []) {
+      for (const added of record.messagesAdded || []) {
+        // Drafts and chats show up as messageAdded too, they are never school emails
+        const labels: string[] = added.message?.labelIds || [];
+        if (added.message?.id && !labels.includes('DRAFT') && !labels.includes('CHAT')) {
+          messageIds.push(added.message.id);
+        }
+      }
+    }
+
+    return {
+      messageIds,
+      historyId: String(data.historyId),
+      nextPageToken: data.nextPageToken
+    };
+  }
+
+  // Get a specific message (metadata format only returns the requested headers)
+  async getMessage(accessToken: string, messageId: string, format: 'full' | 'metadata' = 'full'): Promise<any> {
+    const query = format === 'metadata'
+      ? 'format=metadata&metadataHeaders=From'
+      : 'format=full';
+    const response = await fetch(
+      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}?${query}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Gmail API getMessage error: ${response.status} ${response.statusText}`, errorText);
+      
+      if (response.status === 401) {
+        throw new Error('Gmail access token expired or invalid');
+      } else if (response.status === 403) {
+        throw new Error('Gmail API access forbidden - check OAuth scopes and permissions');
+      } else if (response.status === 429) {
+        throw new Error('Gmail API rate limit exceeded');
+      } else {
+        throw new Error(`Failed to get message: ${response.status} ${response.statusText}`);
+      }
+    }
+
+    return await response.json();
+  }
+
+  // Collect the attachment parts of a message. Small attachments carry their data
+  // inline; larger ones only have an attachmentId and must be downloaded.
+  listAttachmentParts(message: any): GmailAttachmentPart[] {
+    const attachments: GmailAttachmentPart[] = [];
+
+    const walk = (part: any) => {
+      if (part.filename && (part.body?.attachmentId || part.body?.data)) {
+        attachments.push({
+          filename: part.filename,
+          mimeType: (part.mimeType || 'application/octet-stream').toLowerCase(),
+          size: part.body.size || 0,
+          attachmentId: part.body.attachmentId,
+          data: part.body.data
+        });
+      }
+      for (const subPart of part.parts || []) {
+        walk(subPart);
+      }
+    };
+
+    if (message.payload) {
+      walk(message.payload);
+    }
+
+    return attachments;
+  }
+
+  // Download an attachment body
+  async getAttachment(accessToken: string, messageId: string, attachmentId: string): Promise<Buffer> {
+    const response = await fetch(
+      `https://gmail.googleapis.com/gmail/v1/users/me/messages/${messageId}/attachments/${attachmentId}`,
+      {
+        headers: {
+          'Authorization': `Bearer ${accessToken}`,
+        },
+      }
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(`Gmail API getAttachment error: ${response.status} ${response.statusText}`, errorText);
+
+      if (response.status === 401) {
+        throw new Error('Gmail access token expired or invalid');
+      } else if (response.status === 429) {
+        throw new Error('Gmail API rate limit exceeded');
+      } else {
+        throw new Error(`Failed to get attachment: ${response.status} ${response.statusText}`);
+      }
+    }
+
+    const data = await response.json();
+    return Buffer.from(data.data || '', 'base64');
+  }
+
+  // Extract text content from Gmail message with proper MIME handling
+  extractTextFromMessage(message: any): {
+    subject: string;
+    body: string;
+    from: string;
+    date: string;
+  } {
+    const headers = message.payload.headers;
+    const subject = headers.find((h: any) => h.name === 'Subject')?.value || '';
+    const from = headers.find((h: any) => h.name === 'From')?.value || '';
+    const date = headers.find((h: any) => h.name === 'Date')?.value || '';
+
+    let body = '';
+
+    // Strategy: Prefer plain text, fall back to HTML if needed
+    // This recursive function extracts content with MIME-aware handling
+    const extractBody = (part: any, depth: number = 0): { text: string; html: string } => {
+      const result = { text: '', html: '' };
+      const mimeType = part.mimeType || '';
+
+      // Base case: This part has body data
+      if (part.body?.data) {
+        try {
+          const decoded = Buffer.from(part.body.data, 'base64').toString('utf-8');
+
+          // Store based on MIME type
+          if (mimeType === 'text/plain') {
+            result.text = decoded;
+          } else if (mimeType === 'text/html') {
+            result.html = decoded;
+          } else if (mimeType === 'text/calendar') {
+            // Calendar invites are imported from the VEVENT data itself (see ics.ts)
+          } else if (mimeType.startsWith('text/')) {
+            // Other text types
+            result.text = decoded;
+          }
+        } catch (err) {
+          console.warn(`Failed to decode part with mimeType ${mimeType}:`, err);
+        }
+      }
+
+      // Recursive case: This part has sub-parts
+      if (part.parts && Array.isArray(part.parts)) {
+        for (const subPart of part.parts) {
+          const subResult = extractBody(subPart, depth + 1);
+
+          // Handle multipart/alternative: prefer text/plain over text/html
+          if (mimeType === 'multipart/alternative') {
+            // In multipart/alternative, parts are ordered by preference (simplest first)
+            // We prefer text/plain, so only take HTML if we don't have text yet
+            if (subResult.text) {
+              result.text = subResult.text;
+            }
+            if (!result.text && subResult.html) {
+              result.html = subResult.html;
+            }
+          } else {
+            // For other multipart types (mixed, related), concatenate all text content
+            if (subResult.text) {
+              result.text += (result.text ? '\n\n' : '') + subResult.text;
+            }
+            if (subResult.html) {
+              result.html += (result.html ? '\n\n' : '') + subResult.html;
+            }
+          }
+        }
+      }
+
+      return result;
+    };
+
+    // Extract from the message payload
+    let extractedContent: { text: string; html: string };
+
+    if (message.payload.body?.data) {
+      // Simple message with body directly in payload
+      const decoded = Buffer.from(message.payload.body.data, 'base64').toString('utf-8');
+      const mimeType = message.payload.mimeType || '';
+
+      if (mimeType === 'text/plain') {
+        extractedContent = { text: decoded, html: '' };
+      } else if (mimeType === 'text/html') {
+        extractedContent = { text: '', html: decoded };
+      } else {
+        extractedContent = { text: decoded, html: '' };
+      }
+    } else if (message.payload.parts) {
+      // Multipart message - use recursive extraction
+      extractedContent = extractBody(message.payload, 0);
+    } else {
+      // Empty message
+      extractedContent = { text: '', html: '' };
+    }
+
+    // Prefer text/plain, fall back to converted HTML
+    if (extractedContent.text) {
+      body = extractedContent.text;
+    } else if (extractedContent.html) {
+      body = extractedContent.html;
+    }
+
+    // Clean HTML and extract readable text from body
+    body = extractEmailText(body);
+
+    return { subject, body, from, date };
+  }
+}
+
+// Helper function to check a From header against the configured email sources.
+// Sources are either full addresses or domain patterns like "@school.org",
+// mirroring what the from:(...) search query accepts.
+export function matchesEmailSource(fromHeader: string, sourceEmails: string[]): boolean {
+  const addressMatch = fromHeader.match(/<([^>]+)>/);
+  const senderEmail = (addressMatch ? addressMatch[1] : fromHeader).trim().toLowerCase();
+
+  return sourceEmails.some(source => {
+    const normalizedSource = source.trim().toLowerCase();
+    if (normalizedSource.startsWith('@')) {
+      return senderEmail.endsWith(normalizedSource);
+    }
+    return senderEmail === normalizedSource;
+  });
+}
@@ -0,0 +1,388 @@
+import { DateTime, Duration } from 'luxon';
+import { GmailService } from './gmail.js';
+
+// Deterministic import of iCalendar data (text/calendar parts and .ics files).
+// VEVENTs are parsed directly instead of being guessed at by the LLM: start and
+// end with their timezone, LOCATION, and RRULE/EXDATE for repeating events.
+
+export interface CalendarEvent {
+  uid: string | null;
+  title: string;
+  description: string | null;
+  location: string | null;
+  date: string; // YYYY-MM-DD in the display timezone
+  time: string | null; // HH:MM, null for all-day events
+  endDate: string | null; // Only set when the event ends on a later day
+  endTime: string | null;
+  recurrenceRule: string | null; // RRULE value, anchored at `date`
+  recurrenceExceptions: string[]; // EXDATEs (YYYY-MM-DD) after `date`
+  cancelled: boolean;
+}
+
+export interface CalendarData {
+  text: string;
+  filename: string | null; // null for an inline text/calendar part
+}
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface ParsedDate {
+  value: DateTime;
+  allDay: boolean;
+}
+
+// How far ahead to look for the next occurrence of a rule without UNTIL or COUNT
+const MAX_SEARCH_YEARS = 5;
+
+const WEEKDAYS: Record<string, number> = { MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6, SU: 7 };
+
+// Unfold continuation lines and split every content line into name, params and value
+function parseContentLines(text: string): IcsProperty[] {
+  const unfolded = text.replace(/\r?\n[ \t]/g, '');
+  const properties: IcsProperty[] = [];
+
+  for (const line of unfolded.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    // The value starts at the first colon outside a quoted parameter value
+    let inQuotes = false;
+    let separator = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') {
+        inQuotes = !inQuotes;
+      } else if (line[i] === ':' && !inQuotes) {
+        separator = i;
+        break;
+      }
+    }
+    if (separator === -1) {
+      continue;
+    }
+
+    const [name, ...rawParams] = line.substring(0, separator).split(';');
+    const params: Record<string, string> = {};
+    for (const rawParam of rawParams) {
+      const [key, ...rest] = rawParam.split('=');
+      params[key.toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+
+    properties.push({ name: name.toUpperCase(), params, value: line.substring(separator + 1) });
+  }
+
+  return properties;
+}
+
+function unescapeText(value: string): string {
+  return value
+    .replace(/\\[nN]/g, '\n')
+    .replace(/\\([,;\\])/g, '$1')
+    .trim();
+}
+
+// DATE (20251003), UTC DATE-TIME (20251003T150000Z), or local DATE-TIME with an
+// optional TZID. Unknown zones (e.g. Outlook's Windows names) keep their wall time.
+function parseIcsDate(property: IcsProperty, fallbackZone: string): ParsedDate | null {
+  const value = property.value.trim();
+
+  const dateMatch = value.match(/^(\d{4})(\d{2})(\d{2})$/);
+  if (dateMatch || property.params.VALUE === 'DATE') {
+    const parsed = DateTime.fromFormat(value.substring(0, 8), 'yyyyMMdd', { zone: fallbackZone });
+    return parsed.isValid ? { value: parsed, allDay: true } : null;
+  }
+
+  if (value.endsWith('Z')) {
+    const parsed = DateTime.fromFormat(value, "yyyyMMdd'T'HHmmss'Z'", { zone: 'utc' });
+    return parsed.isValid ? { value: parsed, allDay: false } : null;
+  }
+
+  const tzid = property.params.TZID;
+  let parsed = tzid ? DateTime.fromFormat(value, "yyyyMMdd'T'HHmmss", { zone: tzid }) : null;
+  if (!parsed || !parsed.isValid) {
+    parsed = DateTime.fromFormat(value, "yyyyMMdd'T'HHmmss", { zone: fallbackZone });
+  }
+  return parsed.isValid ? { value: parsed, allDay: false } : null;
+}
+
+function parseRule(rule: string): Record<string, string> {
+  const parts: Record<string, string> = {};
+  for (const part of rule.split(';')) {
+    const [key, value] = part.split('=');
+    if (key && value) {
+      parts[key.toUpperCase()] = value.toUpperCase();
+    }
+  }
+  return parts;
+}
+
+// Does the day match a BYDAY entry such as "TU", "2TU" or "-1FR" within its month?
+function matchesMonthlyByDay(day: DateTime, entry: string): boolean {
+  const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/);
+  if (!match || WEEKDAYS[match[2]] !== day.weekday) {
+    return false;
+  }
+  if (!match[1]) {
+    return true;
+  }
+
+  const ordinal = parseInt(match[1], 10);
+  const fromStart = Math.floor((day.day - 1) / 7) + 1;
+  const fromEnd = -(Math.floor((day.daysInMonth! - day.day) / 7) + 1);
+  return ordinal > 0 ? ordinal === fromStart : ordinal === fromEnd;
+}
+
+function matchesDayWithinMonth(day: DateTime, start: DateTime, rule: Record<string, string>): boolean {
+  if (rule.BYMONTHDAY) {
+    return rule.BYMONTHDAY.split(',').some(value => {
+      const monthDay = parseInt(value, 10);
+      return monthDay > 0 ? day.day === monthDay : day.day === day.daysInMonth! + monthDay + 1;
+    });
+  }
+  if (rule.BYDAY) {
+    return rule.BYDAY.split(',').some(entry => matchesMonthlyByDay(day, entry));
+  }
+  return day.day === start.day;
+}
+
+// Walk day by day from DTSTART to the first occurrence the RRULE selects on or
+// after `notBefore`, skipping EXDATEs. Also returns how many occurrences came
+// before it so a COUNT can be carried over to the re-anchored rule.
+// Covers FREQ DAILY/WEEKLY/MONTHLY/YEARLY with INTERVAL, COUNT, UNTIL, BYDAY,
+// BYMONTHDAY and BYMONTH, which is what school and club calendars use.
+function findNextOccurrence(
+  start: DateTime,
+  ruleText: string,
+  excluded: Set<string>,
+  notBefore: DateTime
+): { occurrence: DateTime; preceding: number } | null {
+  const rule = parseRule(ruleText);
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1', 10));
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : null;
+  const ruleUntil = rule.UNTIL
+    ? DateTime.fromFormat(rule.UNTIL.substring(0, 8), 'yyyyMMdd', { zone: start.zone }).endOf('day')
+    : null;
+  const searchLimit = notBefore.plus({ years: MAX_SEARCH_YEARS });
+  const lastDay = ruleUntil && ruleUntil < searchLimit ? ruleUntil : searchLimit;
+  const byDay = rule.BYDAY ? rule.BYDAY.split(',') : null;
+  const byMonth = rule.BYMONTH ? rule.BYMONTH.split(',').map(m => parseInt(m, 10)) : null;
+
+  let matched = 0;
+  const startWeek = start.startOf('week');
+
+  for (let day = start; day <= lastDay; day = day.plus({ days: 1 })) {
+    let selected = false;
+
+    switch (rule.FREQ) {
+      case 'DAILY':
+        selected = Math.round(day.startOf('day').diff(start.startOf('day'), 'days').days) % interval === 0 &&
+          (!byDay || byDay.some(entry => WEEKDAYS[entry.slice(-2)] === day.weekday)) &&
+          (!byMonth || byMonth.includes(day.month));
+        break;
+      case 'WEEKLY': {
+        const weeks = Math.round(day.startOf('week').diff(startWeek, 'weeks').weeks);
+        selected = weeks % interval === 0 &&
+          (byDay ? byDay.some(entry => WEEKDAYS[entry.slice(-2)] === day.weekday) : day.weekday === start.weekday);
+        break;
+      }
+      case 'MONTHLY': {
+        const months = (day.year - start.year) * 12 + day.month - start.month;
+        selected = months % interval === 0 && matchesDayWithinMonth(day, start, rule);
+        break;
+      }
+      case 'YEARLY':
+        selected = (day.year - start.year) % interval === 0 &&
+          (byMonth ? byMonth.includes(day.month) : day.month === start.month) &&
+          matchesDayWithinMonth(day, start, rule);
+        break;
+      default:
+        // Unsupported frequency: treat the event as a single occurrence
+        return start >= notBefore ? { occurrence: start, preceding: 0 } : null;
+    }
+
+    if (!selected) {
+      continue;
+    }
+    if (count !== null && matched >= count) {
+      return null;
+    }
+    if (day >= notBefore && !excluded.has(day.toFormat('yyyy-MM-dd'))) {
+      return { occurrence: day, preceding: matched };
+    }
+    matched++;
+  }
+
+  return null;
+}
+
+// Parse every VEVENT in an iCalendar document. Events that end before `notBefore`
+// are dropped; a recurring event is kept once, moved to its next occurrence.
+export function parseCalendarEvents(
+  text: string,
+  options: { notBefore?: Date; displayZone?: string } = {}
+): CalendarEvent[] {
+  const properties = parseContentLines(text);
+  const calendarZone = properties.find(p => p.name === 'X-WR-TIMEZONE')?.value.trim();
+  const method = properties.find(p => p.name === 'METHOD')?.value.trim().toUpperCase();
+  const displayZone = options.displayZone || process.env.ICS_DEFAULT_TIMEZONE || calendarZone || null;
+  const fallbackZone = displayZone || 'utc';
+  const notBefore = options.notBefore ? DateTime.fromJSDate(options.notBefore).startOf('day') : null;
+
+  // Group the properties of each VEVENT, skipping nested components like VALARM
+  const vevents: IcsProperty[][] = [];
+  let current: IcsProperty[] | null = null;
+  let nestedDepth = 0;
+  for (const property of properties) {
+    if (property.name === 'BEGIN') {
+      if (property.value.trim().toUpperCase() === 'VEVENT') {
+        current = [];
+      } else if (current) {
+        nestedDepth++;
+      }
+    } else if (property.name === 'END') {
+      if (property.value.trim().toUpperCase() === 'VEVENT' && current) {
+        vevents.push(current);
+        current = null;
+        nestedDepth = 0;
+      } else if (current && nestedDepth > 0) {
+        nestedDepth--;
+      }
+    } else if (current && nestedDepth === 0) {
+      current.push(property);
+    }
+  }
+
+  // Times are shown in the display zone when one is known, otherwise as the sender wrote them
+  const toDisplay = (value: DateTime, allDay: boolean) =>
+    !allDay && displayZone ? value.setZone(displayZone) : value;
+
+  const events: CalendarEvent[] = [];
+  for (const vevent of vevents) {
+    const get = (name: string) => vevent.find(p => p.name === name);
+    const dtstart = get('DTSTART');
+    const start = dtstart ? parseIcsDate(dtstart, fallbackZone) : null;
+    if (!start) {
+      console.warn('Skipping VEVENT without a valid DTSTART');
+      continue;
+    }
+
+    const dtend = get('DTEND');
+    const end = dtend ? parseIcsDate(dtend, fallbackZone) : null;
+    const durationProperty = get('DURATION');
+    let duration = end
+      ? end.value.diff(start.value)
+      : durationProperty ? Duration.fromISO(durationProperty.value.trim()) : null;
+    if (duration && (!duration.isValid || duration.toMillis() < 0)) {
+      duration = null;
+    }
+
+    const rrule = get('RRULE')?.value.trim() || null;
+    const excluded = new Set<string>();
+    for (const exdate of vevent.filter(p => p.name === 'EXDATE')) {
+      for (const value of exdate.value.split(',')) {
+        const parsed = parseIcsDate({ ...exdate, value }, fallbackZone);
+        if (parsed) {
+          excluded.add(parsed.value.setZone(start.value.zone).toFormat('yyyy-MM-dd'));
+        }
+      }
+    }
+
+    const title = unescapeText(get('SUMMARY')?.value || '') || 'Calendar event';
+    const description = get('DESCRIPTION') ? unescapeText(get('DESCRIPTION')!.value) || null : null;
+    const location = get('LOCATION') ? unescapeText(get('LOCATION')!.value) || null : null;
+    const cancelled = method === 'CANCEL' || get('STATUS')?.value.trim().toUpperCase() === 'CANCELLED';
+
+    // Move a series that started in the past to its next occurrence. COUNT is
+    // reduced by the occurrences already behind it, so the series still ends
+    // where the sender meant it to.
+    let occurrenceStart = start.value;
+    let recurrenceRule = rrule;
+    if (rrule) {
+      const next = findNextOccurrence(start.value, rrule, excluded, notBefore || start.value);
+      if (!next) {
+        continue;
+      }
+      occurrenceStart = next.occurrence;
+      recurrenceRule = rrule.replace(/COUNT=(\d+)/i, (_match, count) => `COUNT=${parseInt(count, 10) - next.preceding}`);
+    }
+
+    const occurrenceEnd = duration ? occurrenceStart.plus(duration) : null;
+    // DTEND of an all-day event is exclusive
+    const lastMoment = occurrenceEnd && start.allDay ? occurrenceEnd.minus({ days: 1 }) : occurrenceEnd;
+    if (!rrule && notBefore && (lastMoment || occurrenceStart) < notBefore) {
+      continue;
+    }
+
+    const displayStart = toDisplay(occurrenceStart, start.allDay);
+    const displayEnd = lastMoment ? toDisplay(lastMoment, start.allDay) : null;
+    const date = displayStart.toFormat('yyyy-MM-dd');
+    const endDate = displayEnd ? displayEnd.toFormat('yyyy-MM-dd') : null;
+    const anchorDay = occurrenceStart.toFormat('yyyy-MM-dd');
+
+    events.push({
+      uid: get('UID')?.value.trim() || null,
+      title,
+      description,
+      location,
+      date,
+      time: start.allDay ? null : displayStart.toFormat('HH:mm'),
+      endDate: endDate && endDate !== date ? endDate : null,
+      endTime: displayEnd && !start.allDay ? displayEnd.toFormat('HH:mm') : null,
+      recurrenceRule,
+      recurrenceExceptions: rrule ? [...excluded].filter(day => day > anchorDay).sort() : [],
+      cancelled
+    });
+  }
+
+  return events;
+}
+
+// Find iCalendar data on a message: inline text/calendar parts (meeting invites)
+// and .ics attachments, which are downloaded.
+export async function collectCalendarData(
+  gmailService: GmailService,
+  accessToken: string,
+  message: any
+): Promise<CalendarData[]> {
+  const calendars: CalendarData[] = [];
+
+  const walk = (part: any) => {
+    if ((part.mimeType || '').toLowerCase() === 'text/calendar' && !part.filename && part.body?.data) {
+      calendars.push({ text: Buffer.from(part.body.data, 'base64').toString('utf-8'), filename: null });
+    }
+    for (const subPart of part.parts || []) {
+      walk(subPart);
+    }
+  };
+  if (message.payload) {
+    walk(message.payload);
+  }
+
+  for (const part of gmailService.listAttachmentParts(message)) {
+    if (part.mimeType !== 'text/calendar' && part.mimeType !== 'application/ics' && !part.filename.toLowerCase().endsWith('.ics')) {
+      continue;
+    }
+    try {
+      const data = part.data
+        ? Buffer.from(part.data, 'base64')
+        : await gmailService.getAttachment(accessToken, message.id, part.attachmentId!);
+      calendars.push({ text: data.toString('utf-8'), filename: part.filename });
+    } catch (error) {
+      console.warn(`Failed to download calendar attachment "${part.filename}":`, error);
+    }
+  }
+
+  // Outlook sends the same invite both inline and as invite.ics
+  const seen = new Set<string>();
+  return calendars.filter(calendar => {
+    if (!calendar.text.includes('BEGIN:VEVENT') || seen.has(calendar.text)) {
+      return false;
+    }
+    seen.add(calendar.text);
+    return true;
+  });
+}
@@ -0,0 +1,317 @@
+import { EmailContent } from './llm.js';
+import { AttachmentText } from './attachments.js';
+import { BatchOutput } from './batch.js';
+
+// Per-email job queue backed by the email_jobs table.
+// The sync endpoint enqueues one job per new email; the worker endpoint claims
+// jobs under a lease, runs extraction, and retries failures with backoff until
+// max_attempts is reached, after which the job is dead-lettered. In batch mode a
+// job waits as 'batched' while its extraction runs in a vendor batch (batch.ts).
+
+export type EmailJobStatus = 'queued' | 'running' | 'batched' | 'completed' | 'dead';
+
+export interface EmailJobPayload {
+  content: EmailContent;
+  attachments?: AttachmentText[]; // Text read from PDF/image attachments at sync time
+  forceReprocess: boolean;
+}
+
+export interface EmailJob {
+  id: string;
+  user_id: string;
+  session_id: string | null;
+  email_id: string;
+  status: EmailJobStatus;
+  payload: EmailJobPayload;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  last_error: string | null;
+  result: Record<string, any> | null;
+  batch_id: string | null; // Set once the job went through a batch, which is never retried as one
+  batch_output: BatchOutput[] | null; // Main extraction results waiting to be ingested
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_MAX_DELAY_SECONDS = 60 * 60;
+
+// Queue extraction for a stored email. Returns false when the email already has
+// an active job (the partial unique index rejects a second one).
+export async function enqueueEmailJob(
+  supabase: any,
+  job: {
+    userId: string;
+    sessionId: string | null;
+    emailId: string;
+    payload: EmailJobPayload;
+  }
+): Promise<boolean> {
+  const { error } = await supabase
+    .from('email_jobs')
+    .insert({
+      user_id: job.userId,
+      session_id: job.sessionId,
+      email_id: job.emailId,
+      payload: job.payload,
+      max_attempts: parseInt(process.env.EMAIL_JOB_MAX_ATTEMPTS || String(DEFAULT_MAX_ATTEMPTS))
+    });
+
+  if (error) {
+    // 23505 = unique_violation: an active job for this email already exists
+    if (error.code === '23505') {
+      console.log(`Email ${job.emailId} already has an active job, not enqueuing again`);
+      return false;
+    }
+    throw new Error(`Failed to enqueue email job: ${error.message}`);
+  }
+
+  return true;
+}
+
+// Lease the next runnable jobs: queued jobs whose run_after has passed, plus
+// running jobs whose lease expired because their worker died.
+export async function claimEmailJobs(
+  supabase: any,
+  workerId: string,
+  options: {
+    limit?: number;
+    leaseSeconds?: number;
+    userId?: string | null;
+  } = {}
+): Promise<EmailJob[]> {
+  const { data, error } = await supabase.rpc('claim_email_jobs', {
+    p_worker_id: workerId,
+    p_limit: options.limit || 1,
+    p_lease_seconds: options.leaseSeconds || parseInt(process.env.EMAIL_JOB_LEASE_SECONDS || '180'),
+    p_user_id: options.userId || null
+  });
+
+  if (error) {
+    throw new Error(`Failed to claim email jobs: ${error.message}`);
+  }
+
+  return (data || []) as EmailJob[];
+}
+
+export async function completeEmailJob(
+  supabase: any,
+  job: EmailJob,
+  workerId: string,
+  result: Record<string, any>
+): Promise<void> {
+  const { error } = await supabase
+    .from('email_jobs')
+    .update({
+      status: 'completed',
+      result,
+      last_error: null,
+      lease_owner: null,
+      lease_expires_at: null,
+      completed_at: new Date().toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    console.error(`Failed to mark job ${job.id} completed:`, error);
+  }
+}
+
+// Record a failed attempt. Returns the job's new status: 'queued' when it will be
+// retried after an exponential backoff, 'dead' once attempts are exhausted.
+export async function failEmailJob(
+  supabase: any,
+  job: EmailJob,
+  workerId: string,
+  errorMessage: string
+): Promise<EmailJobStatus> {
+  const exhausted = job.attempts >= job.max_attempts;
+  const delaySeconds = Math.min(
+    RETRY_MAX_DELAY_SECONDS,
+    RETRY_BASE_DELAY_SECONDS * Math.pow(2, Math.max(0, job.attempts - 1))
+  );
+
+  const { error } = await supabase
+    .from('email_jobs')
+    .update({
+      status: exhausted ? 'dead' : 'queued',
+      last_error: errorMessage,
+      batch_output: null, // Retries make live calls
+      lease_owner: null,
+      lease_expires_at: null,
+      run_after: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      ...(exhausted && { completed_at: new Date().toISOString() }),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    console.error(`Failed to record failure for job ${job.id}:`, error);
+  }
+
+  return exhausted ? 'dead' : 'queued';
+}
+
+// Put a claimed job back without running it, e.g. while the user is over their
+// LLM budget. The claim's attempt is given back so waiting never dead-letters it.
+export async function deferEmailJob(
+  supabase: any,
+  job: EmailJob,
+  workerId: string,
+  runAfter: Date,
+  reason: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('email_jobs')
+    .update({
+      status: 'queued',
+      attempts: Math.max(0, job.attempts - 1),
+      last_error: reason,
+      lease_owner: null,
+      lease_expires_at: null,
+      run_after: runAfter.toISOString(),
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    console.error(`Failed to defer job ${job.id}:`, error);
+  }
+}
+
+// Hand a claimed job over to a submitted LLM batch. It waits without a lease until
+// the batch is done, and the claim's attempt is given back as for deferred jobs.
+export async function markEmailJobBatched(
+  supabase: any,
+  job: EmailJob,
+  workerId: string,
+  batchId: string
+): Promise<void> {
+  const { error } = await supabase
+    .from('email_jobs')
+    .update({
+      status: 'batched',
+      batch_id: batchId,
+      attempts: Math.max(0, job.attempts - 1),
+      lease_owner: null,
+      lease_expires_at: null,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', job.id)
+    .eq('lease_owner', workerId);
+
+  if (error) {
+    console.error(`Failed to mark job ${job.id} batched:`, error);
+  }
+}
+
+// Queue a batch's jobs again once the batch is done: each with its outputs, or,
+// when the batch failed, without, so they run live. Returns how many were queued.
+export async function releaseBatchedJobs(
+  supabase: any,
+  batchId: string,
+  outputsByJob: Map<string, BatchOutput[]> | null,
+  errorMessage?: string
+): Promise<number> {
+  const now = new Date().toISOString();
+
+  if (!outputsByJob) {
+    const { count, error } = await supabase
+      .from('email_jobs')
+      .update({ status: 'queued', last_error: errorMessage || null, run_after: now, updated_at: now }, { count: 'exact' })
+      .eq('batch_id', batchId)
+      .eq('status', 'batched');
+
+    if (error) {
+      throw new Error(`Failed to requeue jobs of batch ${batchId}: ${error.message}`);
+    }
+    return count || 0;
+  }
+
+  let released = 0;
+  for (const [jobId, outputs] of outputsByJob) {
+    const { error } = await supabase
+      .from('email_jobs')
+      .update({ status: 'queued', batch_output: outputs, run_after: now, updated_at: now })
+      .eq('id', jobId)
+      .eq('batch_id', batchId)
+      .eq('status', 'batched');
+
+    if (error) {
+      throw new Error(`Failed to hand batch results to job ${jobId}: ${error.message}`);
+    }
+    released++;
+  }
+
+  return released;
+}
+
+// Count jobs that still need a worker, optionally scoped to one user
+export async function countPendingEmailJobs(supabase: any, userId?: string | null): Promise<number> {
+  let query = supabase
+    .from('email_jobs')
+    .select('id', { count: 'exact', head: true })
+    .in('status', ['queued', 'running']);
+
+  if (userId) {
+    query = query.eq('user_id', userId);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    console.warn('Failed to count pending email jobs:', error);
+    return 0;
+  }
+
+  return count || 0;
+}
+
+// Roll job results and calendar imports up into the sync session totals shown on
+// the processing dashboard
+export async function updateSessionTotals(supabase: any, sessionId: string): Promise<void> {
+  try {
+    const { data: completedJobs } = await supabase
+      .from('email_jobs')
+      .select('result')
+      .eq('session_id', sessionId)
+      .eq('status', 'completed');
+
+    const { data: sessionHistory } = await supabase
+      .from('processing_history')
+      .select('cost, processing_step, output_tokens')
+      .eq('session_id', sessionId);
+
+    const totals = (completedJobs || []).reduce(
+      (sum: { events: number; skipped: number }, job: { result: Record<string, any> | null }) => ({
+        events: sum.events + (job.result?.eventsStored || 0),
+        skipped: sum.skipped + (job.result?.skippedDuplicateEvents || 0)
+      }),
+      { events: 0, skipped: 0 }
+    );
+    const totalSessionCost = sessionHistory?.reduce((sum: number, item: { cost: string | null }) => sum + parseFloat(item.cost || '0'), 0) || 0;
+    // Calendar imports never become jobs; their history row counts stored events in output_tokens
+    const calendarEvents = (sessionHistory || [])
+      .filter((item: { processing_step: string }) => item.processing_step === 'ics_import')
+      .reduce((sum: number, item: { output_tokens: number | null }) => sum + (item.output_tokens || 0), 0);
+
+    await supabase
+      .from('sync_sessions')
+      .update({
+        total_events_extracted: totals.events + calendarEvents,
+        skipped_duplicate_events: totals.skipped,
+        total_cost: totalSessionCost
+      })
+      .eq('id', sessionId);
+  } catch (error) {
+    console.warn('Failed to update sync session totals:', error);
+  }
+}
@@ -0,0 +1,1510 @@
+import crypto from 'crypto';
+import { prompts, promptVersions } from '../../config/prompts.js';
+import { normalizeRecurrenceRule, normalizeTimeValue } from './events.js';
+import { completionCost } from './pricing.js';
+import { CompletionRequest, CompletionResult, LLMProvider, LLMProviderName, LLMStage, StageProviders, withUsageTracking } from './providers.js';
+import { BatchOutput, BatchRequest } from './batch.js';
+
+// Tiered LLM pipeline: classification, main extraction and fallback extraction,
+// each stage running on whichever provider providers.ts resolves for it
+
+// LLM Response interface
+export interface LLMResponse {
+  title: string;
+  date: string;
+  time?: string;
+  description: string;
+  confidence: number;
+  reasoning?: string;
+  endDate?: string; // Last day of a multi-day event (YYYY-MM-DD)
+  endTime?: string; // Explicit end time (HH:MM)
+  location?: string; // Venue as written: room, campus, field or address
+  recurrenceRule?: string; // RRULE value for repeating events, e.g. FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20251126
+  children?: string[]; // Names from EmailContent.children the event applies to
+  promptVersion?: string; // Version of the prompt that produced the event
+}
+
+// A child the user tracks (kid tag), described to the model for attribution
+export interface ChildProfile {
+  name: string;
+  gradeLevel?: string;
+  schoolName?: string;
+  teacherName?: string;
+}
+
+// Email Content interface
+export interface EmailContent {
+  subject: string;
+  body: string;
+  senderEmail: string;
+  sentDate: string;
+  sourceAttachment?: string; // Attachment filename when the body is text read from an attachment
+  children?: ChildProfile[]; // The user's kids, so events can be attributed to them
+}
+
+// Email Classification interface
+interface EmailClassification {
+  hasDateContent: boolean;
+  confidence: number;
+  reasoning: string;
+}
+
+// Stages the orchestrator runs per email (summaries have their own route)
+export type PipelineStage = Exclude<LLMStage, 'summary'>;
+
+const PIPELINE_STAGES: PipelineStage[] = ['classification', 'extraction', 'fallback'];
+
+// Cost Tracking interface: one entry per stage that called a model, summed
+// from the usage blocks the provider returned
+export interface CostTracking {
+  stage: PipelineStage;
+  provider: LLMProviderName;
+  model: string;
+  promptVersion: string;
+  inputTokens: number;
+  outputTokens: number;
+  cost: number;
+  processingTimeMs: number;
+  estimatedUsage: boolean; // Some call reported no usage, counts are length / 4
+}
+
+// Raw main and fallback extraction output, reused when the same content is sent
+// again with the same prompt and model (see cache.ts for the stored version)
+export interface ExtractionCacheKey {
+  stage: 'extraction' | 'fallback';
+  contentHash: string; // hashEmailContent of the chunk sent to the model
+  promptVersion: string; // Declared version plus a hash of the rendered request
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface ExtractionCache {
+  get(key: ExtractionCacheKey): Promise<CompletionResult | null>;
+  set(key: ExtractionCacheKey, result: CompletionResult): Promise<void>;
+}
+
+// Version of the inline main extraction prompt (createOptimizedPrompt). Bump it
+// with every change to that prompt, like promptVersions in config/prompts.
+const MAIN_EXTRACTION_PROMPT_VERSION = 'main-extraction-v1';
+
+// Main extraction stage with the detailed inline prompt
+class ExtractionService {
+  private provider: LLMProvider;
+  private systemPrompt: string;
+  private cache?: ExtractionCache;
+  cacheHits = 0;
+
+  constructor(provider: LLMProvider, cache?: ExtractionCache) {
+    this.provider = provider;
+    this.systemPrompt = 'Extract important dates from school emails. Focus on academic deadlines, events, sports, meetings. Return only valid JSON.';
+    this.cache = cache;
+  }
+
+  get promptVersion(): string {
+    return this.provider.compactPrompts ? promptVersions.compactExtractionPrompt : MAIN_EXTRACTION_PROMPT_VERSION;
+  }
+
+  async extractDates(emailContent: EmailContent): Promise<LLMResponse[]> {
+    // Check if email needs chunking
+    const chunks = this.chunk(emailContent);
+
+    // If no chunking needed (single chunk), use regular processing
+    if (chunks.length === 1) {
+      return await this.extractDatesFromSingleEmail(emailContent);
+    }
+
+    // Process multiple chunks and merge results
+    console.log(`Processing email in ${chunks.length} chunks...`);
+    const allEvents: LLMResponse[] = [];
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      console.log(`Processing chunk ${i + 1}/${chunks.length}: ${chunk.section}`);
+
+      try {
+        const chunkEvents = await this.extractDatesFromSingleEmail(chunk.content);
+        console.log(`Chunk ${i + 1} extracted ${chunkEvents.length} events`);
+        allEvents.push(...chunkEvents);
+
+        // Small delay between chunks to avoid rate limiting
+        if (i < chunks.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
+      } catch (error) {
+        console.error(`Error processing chunk ${i + 1}:`, error);
+        // Continue with other chunks even if one fails
+      }
+    }
+
+    // Deduplicate events across chunks (same title + date + time)
+    const uniqueEvents = this.deduplicateEvents(allEvents);
+    console.log(`After deduplication: ${uniqueEvents.length} unique events from ${allEvents.length} total`);
+
+    return uniqueEvents;
+  }
+
+  // New method: Extract dates from a single email (no chunking)
+  private async extractDatesFromSingleEmail(emailContent: EmailContent): Promise<LLMResponse[]> {
+    const request = this.createRequest(emailContent);
+    const cacheKey = this.cacheKey(emailContent);
+
+    const cachedEvents = await readCachedEvents(this.cache, cacheKey, content => this.parseExtraction(content, emailContent));
+    if (cachedEvents) {
+      this.cacheHits++;
+      return cachedEvents;
+    }
+
+    try {
+      return await retryApiCall(async () => {
+        const result = await this.provider.complete(request);
+        const events = this.parseExtraction(result.content, emailContent);
+        // Only output that parsed is worth reusing
+        await this.cache?.set(cacheKey, result);
+        return events;
+      }, 3, 1000, this.provider.name);
+
+    } catch (error) {
+      console.error(`${this.provider.name} API error after retries:`, error);
+      throw new Error(`Failed to extract dates: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private cacheKey(emailContent: EmailContent): ExtractionCacheKey {
+    return {
+      stage: 'extraction',
+      contentHash: hashEmailContent(emailContent),
+      promptVersion: cacheVersion(this.promptVersion, this.createRequest(PROMPT_TEMPLATE_CONTENT)),
+      provider: this.provider.name,
+      model: this.provider.model
+    };
+  }
+
+  // True when every chunk of the email has cached output, so extracting it is free
+  async isCached(emailContent: EmailContent): Promise<boolean> {
+    if (!this.cache) {
+      return false;
+    }
+    for (const chunk of this.chunk(emailContent)) {
+      if (!(await this.cache.get(this.cacheKey(chunk.content)))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private chunk(emailContent: EmailContent) {
+    return chunkEmailContent(emailContent, this.provider.compactPrompts ? COMPACT_CHUNK_TOKENS : undefined);
+  }
+
+  private createRequest(emailContent: EmailContent): CompletionRequest {
+    return {
+      system: this.systemPrompt,
+      prompt: this.createOptimizedPrompt(emailContent),
+      temperature: 0.1,
+      maxTokens: 2500,
+      json: true
+    };
+  }
+
+  // Parse a model response into validated events, salvaging truncated JSON
+  private parseExtraction(content: string, emailContent: EmailContent): LLMResponse[] {
+    console.log(`${this.provider.name} response received, parsing...`);
+    console.log(`${this.provider.name} raw response (first 500 chars):`, content.substring(0, 500));
+    
+    let parsedData;
+    try {
+      parsedData = JSON.parse(content);
+      // Handle both direct array format and object with events property
+      const events = Array.isArray(parsedData) ? parsedData : (parsedData.events || []);
+      console.log(`${this.provider.name} parsed events with reasoning:`, events.map((e: any) => ({ title: e.title, reasoning: e.reasoning || 'MISSING' })));
+      return this.validateAndNormalizeResponse(events, emailContent.sentDate);
+    } catch (parseError) {
+      console.error(`${this.provider.name} JSON parsing failed. Raw content:`, content.substring(0, 1000));
+      console.error('Parse error:', parseError);
+
+      // Try basic cleanup of markdown code fences
+      try {
+        const cleanedContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+        const retryParsed = JSON.parse(cleanedContent);
+        const events = Array.isArray(retryParsed) ? retryParsed : (retryParsed.events || []);
+        console.log(`${this.provider.name} JSON parsing succeeded after cleanup, events with reasoning:`, events.map((e: any) => ({ title: e.title, reasoning: e.reasoning || 'MISSING' })));
+        return this.validateAndNormalizeResponse(events, emailContent.sentDate);
+      } catch (retryError) {
+        console.log('Attempting to salvage partial JSON response...');
+
+        // Try to salvage partial responses by extracting complete event objects
+        try {
+          // Find the events array and extract all complete event objects
+          const eventsMatch = content.match(/"events"\s*:\s*\[(.*)\]/s);
+          if (eventsMatch) {
+            // Extract individual complete event objects
+            const eventsContent = eventsMatch[1];
+            const completeEvents = [];
+            let depth = 0;
+            let currentEvent = '';
+            let inString = false;
+            let escapeNext = false;
+
+            for (let i = 0; i < eventsContent.length; i++) {
+              const char = eventsContent[i];
+
+              if (escapeNext) {
+                currentEvent += char;
+                escapeNext = false;
+                continue;
+              }
+
+              if (char === '\\') {
+                escapeNext = true;
+                currentEvent += char;
+                continue;
+              }
+
+              if (char === '"') {
+                inString = !inString;
+              }
+
+              if (!inString) {
+                if (char === '{') depth++;
+                if (char === '}') depth--;
+              }
+
+              currentEvent += char;
+
+              // If we've closed an event object, try to parse it
+              if (depth === 0 && currentEvent.trim().endsWith('}')) {
+                const trimmed = currentEvent.trim().replace(/,$/, '');
+                try {
+                  const parsed = JSON.parse(trimmed);
+                  if (parsed.title && parsed.date) {
+                    completeEvents.push(parsed);
+                  }
+                } catch (e) {
+                  // Skip malformed event
+                }
+                currentEvent = '';
+              }
+            }
+
+            if (completeEvents.length > 0) {
+              console.log(`Salvaged ${completeEvents.length} complete events from truncated response`);
+              return this.validateAndNormalizeResponse(completeEvents, emailContent.sentDate);
+            }
+          }
+        } catch (salvageError) {
+          console.error('Failed to salvage partial JSON:', salvageError);
+        }
+
+        throw new Error(`Invalid JSON response from ${this.provider.name}: ${parseError instanceof Error ? parseError.message : 'Unknown parsing error'}`);
+      }
+    }
+  }
+
+  // One request per chunk, in chunk order, for a batch API
+  createBatchRequests(emailContent: EmailContent): CompletionRequest[] {
+    return this.chunk(emailContent).map(chunk => this.createRequest(chunk.content));
+  }
+
+  // Events from the batch results of one email's chunks, which are cached like
+  // live output so a later reprocess does not pay for them again
+  async parseBatchResults(emailContent: EmailContent, results: CompletionResult[]): Promise<LLMResponse[]> {
+    const chunks = this.chunk(emailContent);
+    const events: LLMResponse[] = [];
+    for (let i = 0; i < results.length; i++) {
+      events.push(...this.parseExtraction(results[i].content, emailContent));
+      if (chunks[i]) {
+        await this.cache?.set(this.cacheKey(chunks[i].content), results[i]);
+      }
+    }
+    return results.length > 1 ? this.deduplicateEvents(events) : events;
+  }
+
+  // Deduplicate events that may appear in multiple chunks
+  private deduplicateEvents(events: LLMResponse[]): LLMResponse[] {
+    const seen = new Map<string, LLMResponse>();
+
+    for (const event of events) {
+      // Create unique key from title + date + time
+      const normalizedTime = event.time || 'no-time';
+      const key = `${event.title.toLowerCase().trim()}:${event.date}:${normalizedTime}`;
+
+      if (!seen.has(key)) {
+        seen.set(key, event);
+      } else {
+        // If duplicate, keep the one with higher confidence
+        const existing = seen.get(key)!;
+        if (event.confidence > existing.confidence) {
+          seen.set(key, event);
+        }
+      }
+    }
+
+    return Array.from(seen.values()).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  private createOptimizedPrompt(emailContent: EmailContent): string {
+    if (this.provider.compactPrompts) {
+      return createCompactExtractionPrompt(emailContent);
+    }
+
+    return `Extract important dates from this school email. Be specific and detailed.
+
+Email: ${emailContent.subject}
+From: ${emailContent.senderEmail}
+Date: ${emailContent.sentDate}
+Source: ${describeContentSource(emailContent)}
+Children: ${describeChildren(emailContent)}
+Body (cleaned from HTML): ${emailContent.body}
+
+Focus on school events: assignments, tests, meetings, sports, trips, performances.
+Include specific details in titles and descriptions.
+Convert relative dates to absolute dates based on sent date: ${emailContent.sentDate}
+Only include future dates.
+If the source is an attachment, its text was extracted from the file (tables may be flattened); mention the attachment in the reasoning.
+
+MULTI-DAY EVENTS: For events spanning several days (e.g., "Spring break March 24-28", "camp October 2-3"), create ONE event with "date" set to the first day and "endDate" set to the last day.
+END TIMES: When an end time is stated (e.g., "3:00-4:30 PM", "until 5pm"), set "endTime" in HH:MM.
+
+LOCATION: When the email says where an event happens (room, gym, campus, field, street address), copy it into "location" as written, e.g. "Room 204", "Lincoln Field, 120 Main St". Omit "location" when no place is given; do not guess the school itself.
+CHILDREN: When children are listed above, set "children" to the names of the ones each event applies to, matching on name, grade, school or teacher (e.g., "3rd grade field trip" belongs to the child in 3rd grade). Use several names when an event applies to several children. Omit "children" for events meant for every family or when you cannot tell.
+RECURRING EVENTS: For events that repeat on a pattern (e.g., "practice every Tuesday and Thursday through November"), create ONE event on the first upcoming occurrence and set "recurrence" to an iCalendar RRULE value such as "FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20251126". Use FREQ (DAILY, WEEKLY, MONTHLY, YEARLY) with INTERVAL, BYDAY, BYMONTHDAY, UNTIL or COUNT. Do not list every occurrence separately. Omit "recurrence" for one-time events.
+
+LUNCH MENUS: When you see sections titled "CAFETERIA", "WHAT'S FOR LUNCH", or similar with day-of-week patterns:
+CRITICAL: Calculate dates from the email sent date: ${emailContent.sentDate}
+
+For each weekday mentioned (Monday, Tuesday, Wednesday, Thursday, Friday):
+- Find the NEXT occurrence of that weekday starting from (and including) the sent date
+- If the sent date IS that weekday and is still future/current, use that date
+- Otherwise use the next occurrence
+
+EXAMPLES:
+1. Email sent: Sunday, September 28, 2025
+   - "Monday: Fried Chicken" → Monday, September 29, 2025 (the very next day!)
+   - "Tuesday: Pizza" → Tuesday, September 30, 2025
+   - "Friday: Subs" → Friday, October 3, 2025
+
+2. Email sent: Wednesday, September 24, 2025
+   - "Monday: Fried Chicken" → Monday, September 29, 2025 (next Monday, since Sept 22 has passed)
+   - "Thursday: Chicken" → Thursday, September 25, 2025 (next day)
+   - "Friday: Subs" → Friday, September 26, 2025
+
+3. Email sent: Saturday, September 27, 2025
+   - "Monday: Fried Chicken" → Monday, September 29, 2025 (the upcoming Monday)
+
+The key: Calculate from sent date. Find the SOONEST occurrence of each weekday that is on or after the sent date.
+
+Skip generic notes like "soup available daily" - only extract specific menu items for specific days
+
+Return JSON object with events array:
+{
+  "events": [
+    {
+      "title": "specific event title with details",
+      "date": "YYYY-MM-DD",
+      "time": "HH:MM" (optional),
+      "endDate": "YYYY-MM-DD" (optional, multi-day events only),
+      "endTime": "HH:MM" (optional),
+      "location": "room, venue or address" (optional),
+      "description": "detailed context and instructions",
+      "confidence": 0.95,
+      "reasoning": "explain exactly which text/phrase led to this date extraction and your interpretation",
+      "recurrence": "FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20251126" (optional, repeating events only),
+      "children": ["child name"] (optional)
+    }
+  ]
+}
+
+CRITICAL: Each event object must have exactly ONE "date" field. Never use duplicate keys.
+Return {"events": []} if no dates found.`;
+  }
+
+  private validateAndNormalizeResponse(events: any[], sentDate: string): LLMResponse[] {
+    if (!Array.isArray(events)) {
+      return [];
+    }
+
+    const sentDateTime = new Date(sentDate);
+    const validEvents: LLMResponse[] = [];
+
+    for (const event of events) {
+      // Validate required fields
+      if (!event.title || !event.date || typeof event.confidence !== 'number') {
+        continue;
+      }
+
+      // Validate date format
+      const eventDate = new Date(event.date);
+      if (isNaN(eventDate.getTime())) {
+        continue;
+      }
+
+      // Only include future dates (a quick-add is dated midnight of its day, so
+      // events later that day are kept)
+      if (eventDate < sentDateTime) {
+        continue;
+      }
+
+      // Validate confidence score
+      const confidence = Math.max(0, Math.min(1, event.confidence));
+
+      // Normalize time value
+      const normalizedTime = normalizeTimeValue(event.time);
+
+      validEvents.push({
+        title: String(event.title).trim(),
+        date: event.date,
+        time: normalizedTime || undefined,
+        ...normalizeEventEnd(event),
+        location: normalizeLocation(event.location),
+        children: normalizeChildren(event.children),
+        description: event.description ? String(event.description).trim() : '',
+        confidence: confidence,
+        reasoning: event.reasoning ? String(event.reasoning).trim() : undefined,
+        recurrenceRule: normalizeRecurrenceRule(event.recurrence) || undefined,
+        promptVersion: this.promptVersion
+      });
+    }
+
+    return validEvents;
+  }
+}
+
+// LLM Orchestrator class for managing tiered processing workflow
+export class LLMOrchestrator {
+  readonly providers: StageProviders;
+  private confidenceThreshold: number;
+  private cache?: ExtractionCache;
+
+  constructor(
+    providers: StageProviders,
+    options: {
+      confidenceThreshold?: number;
+      cache?: ExtractionCache;
+    } = {}
+  ) {
+    this.providers = providers;
+    this.confidenceThreshold = options.confidenceThreshold ?? 0.7;
+    this.cache = options.cache;
+  }
+
+  // Version of the main extraction prompt this orchestrator sends
+  get extractionPromptVersion(): string {
+    return new ExtractionService(this.providers.extraction).promptVersion;
+  }
+
+  get fallbackPromptVersion(): string {
+    return new FallbackService(this.providers.classification, this.providers.fallback).promptVersion;
+  }
+
+  // True when the main extraction of every content would come from the cache,
+  // in which case a batch would only add latency
+  async isExtractionCached(emailContents: EmailContent[]): Promise<boolean> {
+    const extractionService = new ExtractionService(this.providers.extraction, this.cache);
+    for (const emailContent of emailContents) {
+      if (!(await extractionService.isCached(emailContent))) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Main extraction requests for a vendor batch API, one per email chunk, keyed
+  // "<email index>:<chunk index>". The results come back through processEmails.
+  createBatchRequests(emailContents: EmailContent[]): BatchRequest[] {
+    const extractionService = new ExtractionService(this.providers.extraction);
+    return emailContents.flatMap((emailContent, emailIndex) =>
+      extractionService.createBatchRequests(emailContent).map((request, chunkIndex) => ({
+        id: `${emailIndex}:${chunkIndex}`,
+        request
+      }))
+    );
+  }
+
+  // Main processing method with tiered approach. With batchOutputs, the main
+  // extraction comes from a completed batch instead of a live call; the
+  // fallback for low-confidence events still runs live.
+  async processEmails(emailContents: EmailContent[], batchOutputs?: BatchOutput[]): Promise<{
+    results: { [key: string]: LLMResponse[] };
+    costTracking: CostTracking[];
+    processingStats: {
+      totalEmails: number;
+      prefilterPassed: number;
+      mainExtractions: number;
+      fallbackUsed: number;
+      cacheHits: number; // Chunks whose model output came from the extraction cache
+      totalCost: number;
+    };
+  }> {
+    const results: { [key: string]: LLMResponse[] } = {};
+    const costTracking: CostTracking[] = [];
+    const processingStats = {
+      totalEmails: emailContents.length,
+      prefilterPassed: 0,
+      mainExtractions: 0,
+      fallbackUsed: 0,
+      cacheHits: 0,
+      totalCost: 0
+    };
+
+    const batchExtractions = batchOutputs ? await this.parseBatchOutputs(emailContents, batchOutputs) : null;
+
+    console.log(`Starting tiered processing for ${emailContents.length} emails${batchExtractions ? ' from batch results' : ''}`);
+
+    return await this.singleProcess(emailContents, results, costTracking, processingStats, batchExtractions);
+  }
+
+  // Batch results per email index. A failed or unreadable result throws instead of
+  // dropping that email's events, so the job is retried with live calls.
+  private async parseBatchOutputs(emailContents: EmailContent[], batchOutputs: BatchOutput[]) {
+    const failed = batchOutputs.filter(output => !output.result);
+    if (failed.length > 0) {
+      throw new Error(`Batch extraction failed for ${failed.length} of ${batchOutputs.length} requests: ${failed[0].error || 'no result'}`);
+    }
+
+    const extractionService = new ExtractionService(this.providers.extraction, this.cache);
+    const extractions = new Map<number, { events: LLMResponse[]; calls: CompletionResult[] }>();
+    for (const [index, emailContent] of emailContents.entries()) {
+      const calls = batchOutputs
+        .filter(output => output.id.startsWith(`${index}:`))
+        .sort((a, b) => parseInt(a.id.split(':')[1]) - parseInt(b.id.split(':')[1]))
+        .map(output => output.result!);
+      extractions.set(index, { events: await extractionService.parseBatchResults(emailContent, calls), calls });
+    }
+
+    return extractions;
+  }
+
+  // Single processing mode
+  private async singleProcess(
+    emailContents: EmailContent[],
+    results: { [key: string]: LLMResponse[] },
+    costTracking: CostTracking[],
+    processingStats: any,
+    batchExtractions: Map<number, { events: LLMResponse[]; calls: CompletionResult[] }> | null
+  ) {
+    for (let i = 0; i < emailContents.length; i++) {
+      const emailContent = emailContents[i];
+      const emailKey = `email-${i}`;
+
+      console.log(`Processing email ${i + 1}/${emailContents.length}: "${emailContent.subject}"`);
+
+      const { calls, extractionService, fallbackService } = this.createMeteredServices();
+      const stageTimes: Record<PipelineStage, number> = { classification: 0, extraction: 0, fallback: 0 };
+
+      try {
+        // Step 1: Check if this is from a trusted school sender (skip classification for known sources)
+        // Since emails are pre-filtered by user's configured email sources, we can trust them
+        // This prevents classification from missing content that appears later in the email
+        const skipClassification = true; // Always skip for configured email sources
+
+        let classification = { hasDateContent: true, confidence: 1.0, reasoning: 'Trusted school sender - skipped classification' };
+
+        if (!skipClassification) {
+          // Step 1: Pre-filter with the classification provider
+          const { classification: classifier } = this.providers;
+          console.log(`Step 1: Pre-filtering with ${classifier.name} ${classifier.model}...`);
+          const classificationStart = Date.now();
+          classification = await fallbackService.classifyEmail(emailContent);
+          stageTimes.classification = Date.now() - classificationStart;
+
+          console.log(`Classification result: ${classification.hasDateContent} (confidence: ${classification.confidence})`);
+
+          if (!classification.hasDateContent) {
+            console.log('Email does not contain date content, skipping extraction');
+            results[emailKey] = [];
+            continue;
+          }
+        } else {
+          console.log('Step 1: Skipping classification for trusted school sender (pre-filtered by user configuration)');
+        }
+
+        processingStats.prefilterPassed++;
+
+        // Step 2: Main extraction
+        const { extraction: extractor } = this.providers;
+        const batchExtraction = batchExtractions?.get(i);
+        const extractionStart = Date.now();
+        let mainExtractionResults: LLMResponse[];
+        if (batchExtraction) {
+          console.log(`Step 2: Main extraction from ${batchExtraction.calls.length} batch results...`);
+          calls.extraction.push(...batchExtraction.calls);
+          mainExtractionResults = batchExtraction.events;
+        } else {
+          console.log(`Step 2: Main extraction with ${extractor.name} ${extractor.model}...`);
+          mainExtractionResults = await extractionService.extractDates(emailContent);
+        }
+        stageTimes.extraction = Date.now() - extractionStart;
+        processingStats.mainExtractions++;
+
+        console.log(`Main extraction found ${mainExtractionResults.length} events`);
+
+        // Step 3: Check confidence and use fallback if needed
+        const lowConfidenceEvents = mainExtractionResults.filter(event => event.confidence < this.confidenceThreshold);
+        
+        if (lowConfidenceEvents.length > 0) {
+          const { fallback } = this.providers;
+          console.log(`Step 3: Using ${fallback.name} ${fallback.model} fallback for ${lowConfidenceEvents.length} low-confidence events...`);
+          
+          const fallbackStart = Date.now();
+          const fallbackResults = await fallbackService.extractDates(emailContent);
+          stageTimes.fallback = Date.now() - fallbackStart;
+          processingStats.fallbackUsed++;
+
+          // Merge results, preferring higher confidence events
+          const mergedResults = this.mergeResults(mainExtractionResults, fallbackResults);
+          results[emailKey] = mergedResults;
+          
+          console.log(`Fallback processing completed, final result: ${mergedResults.length} events`);
+        } else {
+          results[emailKey] = mainExtractionResults;
+        }
+
+      } catch (error) {
+        console.error(`Error processing email ${emailKey}:`, error);
+        results[emailKey] = [];
+      } finally {
+        // Calls that completed before an error were still billed
+        const stagePromptVersions: Record<PipelineStage, string> = {
+          classification: fallbackService.classificationPromptVersion,
+          extraction: extractionService.promptVersion,
+          fallback: fallbackService.promptVersion
+        };
+        for (const stage of PIPELINE_STAGES) {
+          this.trackStageCost(stage, calls[stage], stageTimes[stage], stagePromptVersions[stage], costTracking, processingStats);
+        }
+        processingStats.cacheHits += extractionService.cacheHits + fallbackService.cacheHits;
+      }
+
+      // Small delay to avoid rate limiting
+      if (i < emailContents.length - 1) {
+        await new Promise(resolve => setTimeout(resolve, 500));
+      }
+    }
+
+    console.log(`Single processing completed. Total cost: $${processingStats.totalCost.toFixed(4)}, ${processingStats.cacheHits} cached responses reused`);
+
+    return {
+      results,
+      costTracking,
+      processingStats
+    };
+  }
+
+  // Services for one email whose provider calls are collected per stage. Cache
+  // hits make no call, so they never show up in the cost tracking.
+  private createMeteredServices() {
+    const calls: Record<PipelineStage, CompletionResult[]> = { classification: [], extraction: [], fallback: [] };
+    const metered = (stage: PipelineStage) =>
+      withUsageTracking(this.providers[stage], result => calls[stage].push(result));
+
+    return {
+      calls,
+      extractionService: new ExtractionService(metered('extraction'), this.cache),
+      fallbackService: new FallbackService(metered('classification'), metered('fallback'), this.cache)
+    };
+  }
+
+  private trackStageCost(
+    stage: PipelineStage,
+    calls: CompletionResult[],
+    processingTimeMs: number,
+    promptVersion: string,
+    costTracking: CostTracking[],
+    processingStats: any
+  ) {
+    if (calls.length === 0) {
+      return;
+    }
+
+    const entry: CostTracking = {
+      stage,
+      provider: calls[0].provider,
+      model: calls[0].model,
+      promptVersion,
+      inputTokens: calls.reduce((sum, call) => sum + call.usage.inputTokens, 0),
+      outputTokens: calls.reduce((sum, call) => sum + call.usage.outputTokens, 0),
+      cost: calls.reduce((sum, call) => sum + completionCost(call), 0),
+      processingTimeMs,
+      estimatedUsage: calls.some(call => call.usage.estimated)
+    };
+
+    costTracking.push(entry);
+    processingStats.totalCost += entry.cost;
+  }
+
+  // Merge results from main extraction and fallback, preferring higher confidence
+  private mergeResults(mainResults: LLMResponse[], fallbackResults: LLMResponse[]): LLMResponse[] {
+    const mergedEvents = [...mainResults];
+    const existingEvents = new Set(mainResults.map(e => `${e.title}:${e.date}:${e.time || ''}`));
+
+    for (const fallbackEvent of fallbackResults) {
+      const eventKey = `${fallbackEvent.title}:${fallbackEvent.date}:${fallbackEvent.time || ''}`;
+      
+      if (!existingEvents.has(eventKey)) {
+        mergedEvents.push(fallbackEvent);
+      } else {
+        // Replace if fallback has higher confidence
+        const existingIndex = mergedEvents.findIndex(e => 
+          `${e.title}:${e.date}:${e.time || ''}` === eventKey);
+        
+        if (existingIndex >= 0 && fallbackEvent.confidence > mergedEvents[existingIndex].confidence) {
+          mergedEvents[existingIndex] = fallbackEvent;
+        }
+      }
+    }
+
+    return mergedEvents.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+}
+
+// Helper function to clean up an extracted location; placeholders like "TBD" are dropped
+function normalizeLocation(location: any): string | undefined {
+  if (typeof location !== 'string') {
+    return undefined;
+  }
+  const cleaned = location.replace(/\s+/g, ' ').trim();
+  if (!cleaned || /^(n\/?a|none|tbd|tba|unknown)$/i.test(cleaned)) {
+    return undefined;
+  }
+  return cleaned.substring(0, 255);
+}
+
+// Helper function to validate the optional end of an extracted event: the end date
+// must be a real date after the start date, the end time a usable time value
+function normalizeEventEnd(event: any): { endDate?: string; endTime?: string } {
+  const end: { endDate?: string; endTime?: string } = {};
+
+  if (event.endDate && /^\d{4}-\d{2}-\d{2}$/.test(String(event.endDate))) {
+    const endDate = new Date(event.endDate);
+    if (!isNaN(endDate.getTime()) && endDate > new Date(event.date)) {
+      end.endDate = String(event.endDate);
+    }
+  }
+
+  const endTime = normalizeTimeValue(event.endTime);
+  if (endTime) {
+    end.endTime = endTime;
+  }
+
+  return end;
+}
+
+// Helper function to keep the list of child names the model assigned an event to
+function normalizeChildren(children: any): string[] | undefined {
+  if (!Array.isArray(children)) {
+    return undefined;
+  }
+  const names = children
+    .filter(name => typeof name === 'string')
+    .map(name => name.trim())
+    .filter(Boolean);
+  return names.length > 0 ? names : undefined;
+}
+
+// Helper function to list the user's children for attribution
+function describeChildren(emailContent: EmailContent): string {
+  if (!emailContent.children || emailContent.children.length === 0) {
+    return 'None listed';
+  }
+  return emailContent.children
+    .map(child => {
+      const details = [
+        child.gradeLevel,
+        child.schoolName,
+        child.teacherName ? `teacher ${child.teacherName}` : null
+      ].filter(Boolean);
+      return details.length > 0 ? `${child.name} (${details.join(', ')})` : child.name;
+    })
+    .join('; ');
+}
+
+// Helper function to tell the model whether it is reading the email body or an attachment
+function describeContentSource(emailContent: EmailContent): string {
+  return emailContent.sourceAttachment
+    ? `Attachment "${emailContent.sourceAttachment}" (text extracted from the file, may contain OCR/layout noise)`
+    : 'Email body';
+}
+
+// Versions of every prompt in use. An email or event whose version is not among
+// them was extracted with an older prompt.
+export function currentPromptVersions(): string[] {
+  return [MAIN_EXTRACTION_PROMPT_VERSION, ...Object.values(promptVersions)];
+}
+
+// Content part of an extraction cache key. The children are included, so output
+// attributing events to one family's kids is never reused for another's.
+export function hashEmailContent(emailContent: EmailContent): string {
+  return crypto.createHash('sha256').update(JSON.stringify([
+    emailContent.subject,
+    emailContent.body,
+    emailContent.senderEmail,
+    emailContent.sentDate,
+    emailContent.sourceAttachment || null,
+    emailContent.children || []
+  ])).digest('hex');
+}
+
+// Placeholder email a stage's prompt is rendered for to get its version
+const PROMPT_TEMPLATE_CONTENT: EmailContent = {
+  subject: '{subject}',
+  body: '{body}',
+  senderEmail: '{senderEmail}',
+  sentDate: '{sentDate}'
+};
+
+// Cache version: the declared prompt version plus a short hash of the rendered
+// request, so a prompt edited without a version bump still misses the cache
+function cacheVersion(promptVersion: string, request: CompletionRequest): string {
+  return `${promptVersion}+${crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex').substring(0, 12)}`;
+}
+
+// Events from cached model output, or null on a miss or output that no longer parses
+async function readCachedEvents(
+  cache: ExtractionCache | undefined,
+  key: ExtractionCacheKey,
+  parse: (content: string) => LLMResponse[]
+): Promise<LLMResponse[] | null> {
+  const cached = cache ? await cache.get(key) : null;
+  if (!cached) {
+    return null;
+  }
+
+  try {
+    const events = parse(cached.content);
+    console.log(`Reusing cached ${key.stage} output from ${key.provider} ${key.model}`);
+    return events;
+  } catch (error) {
+    console.warn(`Ignoring unreadable cached ${key.stage} output:`, error);
+    return null;
+  }
+}
+
+// Helper function to estimate token usage
+export function estimateTokenUsage(text: string): number {
+  // Rough estimation: 1 token ≈ 4 characters
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Intelligently splits email body into logical sections for processing
+ * Detects common school email patterns and splits on section boundaries
+ */
+function detectEmailSections(body: string, subject: string): Array<{ title: string; content: string }> {
+  if (!body) return [];
+
+  // Common section headers in school emails (case-insensitive)
+  const sectionPatterns = [
+    // Calendar/Events sections
+    /(?:^|\n)([A-Z\s]{2,}(?:CALENDAR|EVENTS?|UPCOMING|SAVE THE DATE|MARK YOUR CALENDAR|THIS WEEK|NEXT WEEK)[A-Z\s]*?)(?:\n|:)/gi,
+
+    // Cafeteria/Lunch sections
+    /(?:^|\n)([A-Z\s]{2,}(?:CAFETERIA|LUNCH|MENU|BREAKFAST|WHAT'S FOR)[A-Z\s]*?)(?:\n|:)/gi,
+
+    // Academic/Assignment sections
+    /(?:^|\n)([A-Z\s]{2,}(?:HOMEWORK|ASSIGNMENT|DUE|REMINDER|IMPORTANT|ANNOUNCEMENT)[A-Z\s]*?)(?:\n|:)/gi,
+
+    // Athletics/Activities sections
+    /(?:^|\n)([A-Z\s]{2,}(?:SPORTS?|ATHLETICS?|PRACTICE|GAME|ACTIVITIES?|CLUBS?)[A-Z\s]*?)(?:\n|:)/gi,
+
+    // Administrative sections
+    /(?:^|\n)([A-Z\s]{2,}(?:PARENT|CONFERENCE|MEETING|PTO|PTA|VOLUNTEER)[A-Z\s]*?)(?:\n|:)/gi,
+
+    // General dividers
+    /(?:^|\n)(---+|===+|\*\*\*+)(?:\n|$)/gi
+  ];
+
+  // Find all section headers with their positions
+  const headers: Array<{ title: string; position: number }> = [];
+
+  for (const pattern of sectionPatterns) {
+    let match;
+    // Reset pattern's lastIndex
+    pattern.lastIndex = 0;
+    while ((match = pattern.exec(body)) !== null) {
+      const title = match[1].trim();
+      if (title.length >= 3 && title.length <= 50) { // Reasonable header length
+        headers.push({ title, position: match.index });
+      }
+    }
+  }
+
+  // Sort headers by position
+  headers.sort((a, b) => a.position - b.position);
+
+  // Remove duplicate headers that are very close together (within 10 chars)
+  const uniqueHeaders = headers.filter((header, index) => {
+    if (index === 0) return true;
+    return header.position - headers[index - 1].position > 10;
+  });
+
+  // If we found section headers, split on them
+  if (uniqueHeaders.length > 0) {
+    const sections: Array<{ title: string; content: string }> = [];
+
+    for (let i = 0; i < uniqueHeaders.length; i++) {
+      const startPos = uniqueHeaders[i].position;
+      const endPos = i < uniqueHeaders.length - 1 ? uniqueHeaders[i + 1].position : body.length;
+
+      const content = body.substring(startPos, endPos).trim();
+
+      // Only include sections with meaningful content (more than just the header)
+      if (content.length > uniqueHeaders[i].title.length + 20) {
+        sections.push({
+          title: uniqueHeaders[i].title,
+          content: content
+        });
+      }
+    }
+
+    // If we have sections, return them
+    if (sections.length > 0) {
+      return sections;
+    }
+  }
+
+  // Fallback: No clear sections found, return whole email as one section
+  return [{ title: subject || 'Email Content', content: body }];
+}
+
+// Chunk size for compact-prompt providers: small local models often run with a 4k context
+const COMPACT_CHUNK_TOKENS = 2000;
+
+// Extraction prompt for small models, shared by the main and fallback stages
+function createCompactExtractionPrompt(emailContent: EmailContent): string {
+  return prompts.compactExtractionPrompt
+    .replace('{{subject}}', emailContent.subject)
+    .replace('{{senderEmail}}', emailContent.senderEmail)
+    .replace('{{sentDate}}', emailContent.sentDate)
+    .replace('{{source}}', describeContentSource(emailContent))
+    .replace('{{children}}', describeChildren(emailContent))
+    .replace('{{body}}', emailContent.body);
+}
+
+/**
+ * Chunks email content intelligently based on token limits
+ * Tries to keep logical sections together, splits only when necessary
+ */
+function chunkEmailContent(
+  emailContent: EmailContent,
+  maxTokensPerChunk: number = 6000 // Conservative limit for input (leaves room for output)
+): Array<{ section: string; content: EmailContent }> {
+  const { subject, body, senderEmail, sentDate, sourceAttachment, children } = emailContent;
+
+  // Estimate tokens for the whole email
+  const basePromptTokens = estimateTokenUsage(subject + senderEmail + sentDate);
+  const bodyTokens = estimateTokenUsage(body);
+  const totalTokens = basePromptTokens + bodyTokens;
+
+  // If email fits comfortably in token limit, no chunking needed
+  if (totalTokens < maxTokensPerChunk) {
+    console.log(`Email fits in token limit (${totalTokens} tokens), no chunking needed`);
+    return [{
+      section: 'Full Email',
+      content: emailContent
+    }];
+  }
+
+  console.log(`Email exceeds token limit (${totalTokens} tokens), attempting intelligent chunking...`);
+
+  // Detect logical sections in the email
+  const sections = detectEmailSections(body, subject);
+  console.log(`Detected ${sections.length} sections:`, sections.map(s => s.title));
+
+  // Group sections into chunks that fit within token limit
+  const chunks: Array<{ section: string; content: EmailContent }> = [];
+  let currentChunk: typeof sections = [];
+  let currentChunkTokens = basePromptTokens;
+
+  for (const section of sections) {
+    const sectionTokens = estimateTokenUsage(section.content);
+
+    // If this single section is too large, we need to split it further
+    if (sectionTokens + basePromptTokens > maxTokensPerChunk) {
+      console.log(`Section "${section.title}" is too large (${sectionTokens} tokens), splitting by paragraphs...`);
+
+      // First, save any accumulated chunk
+      if (currentChunk.length > 0) {
+        chunks.push({
+          section: currentChunk.map(s => s.title).join(', '),
+          content: {
+            subject,
+            body: currentChunk.map(s => s.content).join('\n\n'),
+            senderEmail,
+            sentDate,
+            sourceAttachment,
+            children
+          }
+        });
+        currentChunk = [];
+        currentChunkTokens = basePromptTokens;
+      }
+
+      // Split large section by paragraphs
+      const paragraphs = section.content.split(/\n\n+/);
+      let paragraphChunk: string[] = [];
+      let paragraphTokens = basePromptTokens;
+
+      for (const para of paragraphs) {
+        const paraTokens = estimateTokenUsage(para);
+
+        if (paragraphTokens + paraTokens > maxTokensPerChunk) {
+          // Save current paragraph chunk
+          if (paragraphChunk.length > 0) {
+            chunks.push({
+              section: `${section.title} (part ${chunks.length + 1})`,
+              content: {
+                subject,
+                body: paragraphChunk.join('\n\n'),
+                senderEmail,
+                sentDate,
+                sourceAttachment,
+                children
+              }
+            });
+          }
+          // Start new chunk with this paragraph
+          paragraphChunk = [para];
+          paragraphTokens = basePromptTokens + paraTokens;
+        } else {
+          paragraphChunk.push(para);
+          paragraphTokens += paraTokens;
+        }
+      }
+
+      // Save remaining paragraphs
+      if (paragraphChunk.length > 0) {
+        chunks.push({
+          section: `${section.title} (part ${chunks.length + 1})`,
+          content: {
+            subject,
+            body: paragraphChunk.join('\n\n'),
+            senderEmail,
+            sentDate,
+            sourceAttachment,
+            children
+          }
+        });
+      }
+
+      continue;
+    }
+
+    // Check if adding this section would exceed limit
+    if (currentChunkTokens + sectionTokens > maxTokensPerChunk) {
+      // Save current chunk
+      if (currentChunk.length > 0) {
+        chunks.push({
+          section: currentChunk.map(s => s.title).join(', '),
+          content: {
+            subject,
+            body: currentChunk.map(s => s.content).join('\n\n'),
+            senderEmail,
+            sentDate,
+            sourceAttachment,
+            children
+          }
+        });
+      }
+      // Start new chunk with this section
+      currentChunk = [section];
+      currentChunkTokens = basePromptTokens + sectionTokens;
+    } else {
+      // Add to current chunk
+      currentChunk.push(section);
+      currentChunkTokens += sectionTokens;
+    }
+  }
+
+  // Save final chunk
+  if (currentChunk.length > 0) {
+    chunks.push({
+      section: currentChunk.map(s => s.title).join(', '),
+      content: {
+        subject,
+        body: currentChunk.map(s => s.content).join('\n\n'),
+        senderEmail,
+        sentDate,
+        sourceAttachment,
+        children
+      }
+    });
+  }
+
+  console.log(`Created ${chunks.length} chunks from email`);
+  return chunks;
+}
+
+// Helper function for API calls with retry logic
+async function retryApiCall<T>(
+  apiCall: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 1000,
+  apiName: string = 'API'
+): Promise<T> {
+  let lastError: Error;
+  
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      if (attempt === 1) {
+        console.log(`${apiName} call starting...`);
+      } else {
+        console.log(`${apiName} retry attempt ${attempt}/${maxRetries}`);
+      }
+      return await apiCall();
+    } catch (error) {
+      lastError = error as Error;
+      
+      // Log error details only for non-transient issues or final attempt
+      const errorMessage = error instanceof Error ? error.message.toLowerCase() : '';
+      const isTransientError = errorMessage.includes('bad gateway') || 
+                              errorMessage.includes('timeout') || 
+                              errorMessage.includes('service unavailable') ||
+                              errorMessage.includes('too many requests');
+      
+      if (!isTransientError || attempt === maxRetries) {
+        console.error(`${apiName} attempt ${attempt} failed:`, error);
+      } else {
+        console.warn(`${apiName} attempt ${attempt} failed with transient error (${errorMessage}), will retry`);
+      }
+      
+      // Don't retry on certain errors (authentication, invalid request format)
+      if (error instanceof Error) {
+        if (errorMessage.includes('unauthorized') || 
+            errorMessage.includes('forbidden') || 
+            errorMessage.includes('invalid') ||
+            errorMessage.includes('not found')) {
+          console.log(`${apiName} non-retryable error, not retrying`);
+          throw error;
+        }
+      }
+      
+      // Don't delay after the last attempt
+      if (attempt < maxRetries) {
+        const delay = baseDelay * Math.pow(2, attempt - 1); // Exponential backoff
+        console.log(`${apiName} retrying in ${delay}ms due to transient error...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  
+  console.error(`${apiName} failed after ${maxRetries} attempts`);
+  throw lastError!;
+}
+
+// Pre-filtering and fallback extraction with the prompts from config/prompts
+class FallbackService {
+  private classificationProvider: LLMProvider;
+  private fallbackProvider: LLMProvider;
+  private cache?: ExtractionCache;
+  cacheHits = 0;
+
+  constructor(classificationProvider: LLMProvider, fallbackProvider: LLMProvider, cache?: ExtractionCache) {
+    this.classificationProvider = classificationProvider;
+    this.fallbackProvider = fallbackProvider;
+    this.cache = cache;
+  }
+
+  get promptVersion(): string {
+    return this.fallbackProvider.compactPrompts ? promptVersions.compactExtractionPrompt : promptVersions.extractionPrompt;
+  }
+
+  get classificationPromptVersion(): string {
+    return promptVersions.classificationPrompt;
+  }
+
+  // Pre-filter emails to determine if they likely contain date information
+  async classifyEmail(emailContent: EmailContent): Promise<EmailClassification> {
+    const prompt = this.createClassificationPrompt(emailContent);
+    let content = '';
+
+    try {
+      return await retryApiCall(async () => {
+        ({ content } = await this.classificationProvider.complete({
+          prompt,
+          temperature: 0.1,
+          maxTokens: 100,
+          json: true
+        }));
+
+        // Parse classification response with robust JSON cleaning
+        console.log(`Raw ${this.classificationProvider.name} classification response (first 500 chars):`, content.substring(0, 500));
+        
+        let classification;
+        try {
+          classification = this.parseLooseJSON(content);
+        } catch (parseError) {
+          console.error('All JSON parsing attempts failed:', parseError);
+          // If JSON parsing completely fails, try to extract boolean from text content
+          const hasDateKeywords = /true|yes|contains|found|date|time|event|deadline/i.test(content);
+          return {
+            hasDateContent: hasDateKeywords,
+            confidence: 0.3,
+            reasoning: 'JSON parsing failed completely, used text analysis fallback'
+          };
+        }
+        
+        return {
+          hasDateContent: classification.hasDateContent || false,
+          confidence: Math.max(0, Math.min(1, classification.confidence || 0)),
+          reasoning: classification.reasoning || ''
+        };
+      }, 3, 1000, `${this.classificationProvider.name} Classification`);
+
+    } catch (error) {
+      console.error(`${this.classificationProvider.name} classification error after retries:`, error);
+      
+      // Default to processing if classification fails completely
+      return {
+        hasDateContent: true,
+        confidence: 0.5,
+        reasoning: 'Classification failed completely, defaulting to processing'
+      };
+    }
+  }
+
+  // Fallback extraction for complex cases
+  async extractDates(emailContent: EmailContent): Promise<LLMResponse[]> {
+    // Check if email needs chunking
+    const chunks = chunkEmailContent(emailContent, this.fallbackProvider.compactPrompts ? COMPACT_CHUNK_TOKENS : undefined);
+
+    // If no chunking needed (single chunk), use regular processing
+    if (chunks.length === 1) {
+      return await this.extractDatesFromSingleEmail(emailContent);
+    }
+
+    // Process multiple chunks and merge results
+    console.log(`[${this.fallbackProvider.name} Fallback] Processing email in ${chunks.length} chunks...`);
+    const allEvents: LLMResponse[] = [];
+
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      console.log(`[${this.fallbackProvider.name} Fallback] Processing chunk ${i + 1}/${chunks.length}: ${chunk.section}`);
+
+      try {
+        const chunkEvents = await this.extractDatesFromSingleEmail(chunk.content);
+        console.log(`[${this.fallbackProvider.name} Fallback] Chunk ${i + 1} extracted ${chunkEvents.length} events`);
+        allEvents.push(...chunkEvents);
+
+        // Small delay between chunks to avoid rate limiting
+        if (i < chunks.length - 1) {
+          await new Promise(resolve => setTimeout(resolve, 500));
+        }
+      } catch (error) {
+        console.error(`[${this.fallbackProvider.name} Fallback] Error processing chunk ${i + 1}:`, error);
+        // Continue with other chunks even if one fails
+      }
+    }
+
+    // Deduplicate events across chunks
+    const uniqueEvents = this.deduplicateEvents(allEvents);
+    console.log(`[${this.fallbackProvider.name} Fallback] After deduplication: ${uniqueEvents.length} unique events from ${allEvents.length} total`);
+
+    return uniqueEvents;
+  }
+
+  // New method: Extract dates from a single email (no chunking)
+  private async extractDatesFromSingleEmail(emailContent: EmailContent): Promise<LLMResponse[]> {
+    const cacheKey: ExtractionCacheKey = {
+      stage: 'fallback',
+      contentHash: hashEmailContent(emailContent),
+      promptVersion: cacheVersion(this.promptVersion, this.createExtractionRequest(PROMPT_TEMPLATE_CONTENT)),
+      provider: this.fallbackProvider.name,
+      model: this.fallbackProvider.model
+    };
+
+    const cachedEvents = await readCachedEvents(this.cache, cacheKey, content => this.parseExtraction(content, emailContent));
+    if (cachedEvents) {
+      this.cacheHits++;
+      return cachedEvents;
+    }
+
+    try {
+      return await retryApiCall(async () => {
+        const result = await this.fallbackProvider.complete(this.createExtractionRequest(emailContent));
+        const events = this.parseExtraction(result.content, emailContent);
+        await this.cache?.set(cacheKey, result);
+        return events;
+      }, 3, 1000, `${this.fallbackProvider.name} Extraction`);
+
+    } catch (error) {
+      console.error(`${this.fallbackProvider.name} extraction error after retries:`, error);
+      return [];
+    }
+  }
+
+  // No JSON mode: the config prompt asks for a bare array, which JSON modes reject
+  private createExtractionRequest(emailContent: EmailContent): CompletionRequest {
+    return {
+      prompt: this.createExtractionPrompt(emailContent),
+      temperature: 0.1,
+      maxTokens: 1500
+    };
+  }
+
+  private parseExtraction(content: string, emailContent: EmailContent): LLMResponse[] {
+    // Parse extraction response using robust JSON parser
+    console.log(`Raw ${this.fallbackProvider.name} extraction response (first 500 chars):`, content.substring(0, 500));
+    const parsedResponse = this.parseLooseJSON(content);
+    
+    // Handle different response formats - could be array directly or object with events property
+    let events = parsedResponse;
+    if (parsedResponse && typeof parsedResponse === 'object' && !Array.isArray(parsedResponse)) {
+      if (parsedResponse.events && Array.isArray(parsedResponse.events)) {
+        events = parsedResponse.events;
+      } else if (Array.isArray(parsedResponse)) {
+        events = parsedResponse;
+      } else {
+        // If it's an object but not an array and no events property, treat as empty
+        events = [];
+      }
+    }
+    
+    console.log(`${this.fallbackProvider.name} parsed events with reasoning:`, events.map((e: any) => ({ title: e.title, reasoning: e.reasoning || 'MISSING' })));
+    return this.validateAndNormalizeResponse(events, emailContent.sentDate);
+  }
+
+  // Robust JSON parser for model responses that may be fenced or truncated
+  private parseLooseJSON(content: string): any {
+    console.log('Attempting to parse model JSON...');
+    
+    // Step 1: Remove markdown code blocks
+    let cleanedContent = content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim();
+    
+    // Step 2: Basic cleanup
+    cleanedContent = cleanedContent.replace(/[\r\n\t]/g, ' '); // Remove newlines/tabs
+    cleanedContent = cleanedContent.replace(/\s+/g, ' '); // Normalize whitespace
+    cleanedContent = cleanedContent.replace(/,\s*}/, '}'); // Remove trailing commas in objects
+    cleanedContent = cleanedContent.replace(/,\s*]/, ']'); // Remove trailing commas in arrays
+    
+    // Step 3: Try to extract JSON object boundaries, or array boundaries for the
+    // bare array the extraction prompt asks for
+    const objectMatch = cleanedContent.match(cleanedContent.startsWith('[') ? /\[.*\]/ : /\{.*\}/);
+    if (objectMatch) {
+      cleanedContent = objectMatch[0];
+    }
+    
+    console.log('Cleaned content:', cleanedContent.substring(0, 200) + '...');
+    
+    // Step 4: Multiple parsing attempts with different repair strategies
+    const repairStrategies = [
+      // Strategy 1: Try as-is
+      cleanedContent,
+      
+      // Strategy 2: Fix unterminated strings by closing them
+      cleanedContent.replace(/"[^"]*$/, '""'),
+      
+      // Strategy 3: Fix unterminated strings and ensure proper object closure
+      cleanedContent.replace(/"[^"]*$/, '""').replace(/[^}]*$/, '}'),
+      
+      // Strategy 4: Extract and reconstruct basic structure
+      cleanedContent.replace(/^[^{]*/, '').replace(/[^}]*$/, ''),
+      
+      // Strategy 5: If all else fails, try to build a minimal valid JSON
+      '{"hasDateContent": true, "confidence": 0.5, "reasoning": "Parsing fallback"}'
+    ];
+    
+    for (let i = 0; i < repairStrategies.length; i++) {
+      const attempt = repairStrategies[i];
+      try {
+        const parsed = JSON.parse(attempt);
+        if (i > 0) {
+          console.log(`Successfully parsed JSON with repair strategy ${i + 1}:`, attempt.substring(0, 100));
+        } else {
+          console.log('Successfully parsed JSON without repairs');
+        }
+        return parsed;
+      } catch (error) {
+        console.log(`Repair strategy ${i + 1} failed:`, error instanceof Error ? error.message : 'Unknown error');
+        continue;
+      }
+    }
+    
+    throw new Error('All JSON parsing strategies failed');
+  }
+
+  private createClassificationPrompt(emailContent: EmailContent): string {
+    const prompt = prompts.classificationPrompt
+      .replace('{{subject}}', emailContent.subject)
+      .replace('{{senderEmail}}', emailContent.senderEmail)
+      .replace('{{bodyPreview}}', emailContent.body.substring(0, 2000));
+    return this.classificationProvider.compactPrompts ? prompt + prompts.compactJsonReminder : prompt;
+  }
+
+  private createExtractionPrompt(emailContent: EmailContent): string {
+    if (this.fallbackProvider.compactPrompts) {
+      return createCompactExtractionPrompt(emailContent);
+    }
+
+    return prompts.extractionPrompt
+      .replace('{{subject}}', emailContent.subject)
+      .replace('{{senderEmail}}', emailContent.senderEmail)
+      .replace('{{sentDate}}', emailContent.sentDate)
+      .replace('{{source}}', describeContentSource(emailContent))
+      .replace('{{children}}', describeChildren(emailContent))
+      .replace('{{body}}', emailContent.body);
+  }
+
+  // Deduplicate events that may appear in multiple chunks
+  private deduplicateEvents(events: LLMResponse[]): LLMResponse[] {
+    const seen = new Map<string, LLMResponse>();
+
+    for (const event of events) {
+      // Create unique key from title + date + time
+      const normalizedTime = event.time || 'no-time';
+      const key = `${event.title.toLowerCase().trim()}:${event.date}:${normalizedTime}`;
+
+      if (!seen.has(key)) {
+        seen.set(key, event);
+      } else {
+        // If duplicate, keep the one with higher confidence
+        const existing = seen.get(key)!;
+        if (event.confidence > existing.confidence) {
+          seen.set(key, event);
+        }
+      }
+    }
+
+    return Array.from(seen.values()).sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  }
+
+  private validateAndNormalizeResponse(events: any[], sentDate: string): LLMResponse[] {
+    if (!Array.isArray(events)) {
+      return [];
+    }
+
+    const sentDateTime = new Date(sentDate);
+    const validEvents: LLMResponse[] = [];
+
+    for (const event of events) {
+      if (!event.title || !event.date || typeof event.confidence !== 'number') {
+        continue;
+      }
+
+      const eventDate = new Date(event.date);
+      if (isNaN(eventDate.getTime()) || eventDate <= sentDateTime) {
+        continue;
+      }
+
+      const confidence = Math.max(0, Math.min(1, event.confidence));
+
+      // Normalize time value
+      const normalizedTime = normalizeTimeValue(event.time);
+
+      validEvents.push({
+        title: String(event.title).trim(),
+        date: event.date,
+        time: normalizedTime || undefined,
+        ...normalizeEventEnd(event),
+        location: normalizeLocation(event.location),
+        children: normalizeChildren(event.children),
+        description: event.description ? String(event.description).trim() : '',
+        confidence: confidence,
+        reasoning: event.reasoning ? String(event.reasoning).trim() : '',
+        recurrenceRule: normalizeRecurrenceRule(event.recurrence) || undefined,
+        promptVersion: this.promptVersion
+      });
+    }
+
+    return validEvents;
+  }
+}
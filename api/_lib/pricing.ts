@@ -0,0 +1,95 @@
+import { CompletionResult, LLMProviderName, TokenUsage } from './providers.js';
+
+// USD per million tokens, keyed by model name. Providers report dated model ids
+// (gpt-4o-mini-2024-07-18, claude-3-5-haiku-20241022), so a model is priced by
+// the longest key it starts with. LLM_PRICING='{"model":{"input":1,"output":2}}'
+// adds or overrides entries without a deploy.
+interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+const MODEL_PRICING: Record<string, ModelPrice> = {
+  // OpenAI
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4o': { input: 2.50, output: 10.00 },
+  'gpt-4.1-nano': { input: 0.10, output: 0.40 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1': { input: 2.00, output: 8.00 },
+  'gpt-4-turbo': { input: 10.00, output: 30.00 },
+  'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
+
+  // Gemini (prompts up to 128k tokens)
+  'gemini-1.5-flash-8b': { input: 0.0375, output: 0.15 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.30 },
+  'gemini-1.5-pro': { input: 1.25, output: 5.00 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-pro': { input: 1.25, output: 10.00 },
+
+  // Anthropic
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.80, output: 4.00 },
+  'claude-3-5-sonnet': { input: 3.00, output: 15.00 },
+  'claude-3-7-sonnet': { input: 3.00, output: 15.00 },
+  'claude-sonnet-4': { input: 3.00, output: 15.00 },
+  'claude-3-opus': { input: 15.00, output: 75.00 },
+  'claude-opus-4': { input: 15.00, output: 75.00 }
+};
+
+// OpenAI and Gemini bill batch API requests at half the listed price
+const BATCH_DISCOUNT = 0.5;
+
+const warnedModels = new Set<string>();
+
+function loadPricing(): Record<string, ModelPrice> {
+  if (!process.env.LLM_PRICING) {
+    return MODEL_PRICING;
+  }
+  try {
+    return { ...MODEL_PRICING, ...JSON.parse(process.env.LLM_PRICING) };
+  } catch (error) {
+    console.error('Ignoring invalid LLM_PRICING:', error);
+    return MODEL_PRICING;
+  }
+}
+
+export function findModelPrice(model: string): ModelPrice | null {
+  const pricing = loadPricing();
+  if (pricing[model]) {
+    return pricing[model];
+  }
+
+  // Vendors may prefix ids, e.g. Gemini's "models/gemini-1.5-flash-002"
+  const name = model.replace(/^models\//, '');
+  const key = Object.keys(pricing)
+    .filter(candidate => name.startsWith(candidate))
+    .sort((a, b) => b.length - a.length)[0];
+  return key ? pricing[key] : null;
+}
+
+// Cost in USD of one usage block. Self-hosted models are free; a model missing
+// from the table is recorded at 0 with a warning, since guessing would misreport spend.
+export function calculateCost(provider: LLMProviderName, model: string, usage: TokenUsage, batch: boolean = false): number {
+  if (provider === 'local') {
+    return 0;
+  }
+
+  const price = findModelPrice(model);
+  if (!price) {
+    if (!warnedModels.has(model)) {
+      warnedModels.add(model);
+      console.warn(`No pricing for model "${model}", recording cost 0; add it to LLM_PRICING`);
+    }
+    return 0;
+  }
+
+  const cost = (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1000000;
+  return batch ? cost * BATCH_DISCOUNT : cost;
+}
+
+export function completionCost(result: CompletionResult): number {
+  return calculateCost(result.provider, result.model, result.usage, result.batch);
+}
@@ -0,0 +1,485 @@
+// Vendor-neutral LLM access shared by classification, extraction, fallback and
+// summaries. Each adapter turns a CompletionRequest into one chat call against
+// its vendor's HTTP API and returns the raw text; prompts and response parsing
+// stay with the stages that use them. 'local' is any self-hosted server with an
+// OpenAI-compatible API (Ollama, llama.cpp, vLLM), so mail never leaves it.
+
+export type LLMProviderName = 'openai' | 'gemini' | 'claude' | 'local';
+
+export type LLMStage = 'classification' | 'extraction' | 'fallback' | 'summary';
+
+export const LLM_PROVIDER_NAMES: LLMProviderName[] = ['openai', 'gemini', 'claude', 'local'];
+
+export interface CompletionRequest {
+  system?: string;
+  prompt: string;
+  temperature?: number;
+  maxTokens?: number;
+  json?: boolean; // Ask for a bare JSON response where the vendor supports it
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  estimated: boolean; // The server sent no usage block, counts are length / 4
+}
+
+export interface CompletionResult {
+  content: string;
+  provider: LLMProviderName;
+  model: string; // Model id the vendor reports having run, e.g. gpt-4o-mini-2024-07-18
+  usage: TokenUsage;
+  batch?: boolean; // Ran through the vendor's batch API, billed at the batch discount
+}
+
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  readonly model: string;
+  // Small models get the compact prompts and smaller chunks
+  readonly compactPrompts: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+}
+
+export type StageProviders = Record<LLMStage, LLMProvider>;
+
+// Variable that enables each provider: an API key, or the server URL for local
+const API_KEY_ENV: Record<LLMProviderName, string> = {
+  openai: 'OPENAI_API_KEY',
+  gemini: 'GEMINI_API_KEY',
+  claude: 'ANTHROPIC_API_KEY',
+  local: 'LOCAL_LLM_BASE_URL'
+};
+
+// Stage assignment when neither the user nor LLM_PROVIDER_<STAGE> picks one
+const DEFAULT_STAGE_PROVIDERS: Record<LLMStage, LLMProviderName> = {
+  classification: 'gemini',
+  extraction: 'openai',
+  fallback: 'gemini',
+  summary: 'openai'
+};
+
+const DEFAULT_MODELS: Record<LLMProviderName, Record<LLMStage, string>> = {
+  openai: {
+    classification: 'gpt-4o-mini',
+    extraction: 'gpt-4o-mini',
+    fallback: 'gpt-4o-mini',
+    summary: 'gpt-4o-mini'
+  },
+  gemini: {
+    classification: 'gemini-1.5-flash',
+    extraction: 'gemini-1.5-pro',
+    fallback: 'gemini-1.5-pro',
+    summary: 'gemini-1.5-flash'
+  },
+  claude: {
+    classification: 'claude-3-5-haiku-latest',
+    extraction: 'claude-3-5-sonnet-latest',
+    fallback: 'claude-3-5-sonnet-latest',
+    summary: 'claude-3-5-haiku-latest'
+  },
+  local: {
+    classification: 'llama3.1:8b',
+    extraction: 'llama3.1:8b',
+    fallback: 'llama3.1:8b',
+    summary: 'llama3.1:8b'
+  }
+};
+
+// Cheapest model of each vendor, used for every stage once a user's monthly
+// budget is reached in degrade mode
+const BUDGET_MODELS: Record<LLMProviderName, string | null> = {
+  openai: 'gpt-4o-mini',
+  gemini: 'gemini-1.5-flash',
+  claude: 'claude-3-haiku-20240307',
+  local: null // Already free
+};
+
+// Model variables that predate per-stage providers, honoured when the stage
+// still runs on the vendor they were written for
+const LEGACY_MODEL_ENV: Partial<Record<LLMStage, { provider: LLMProviderName; env: string }>> = {
+  classification: { provider: 'gemini', env: 'GEMINI_MODEL_PREFILTER' },
+  extraction: { provider: 'openai', env: 'OPENAI_MODEL_MAIN' },
+  fallback: { provider: 'gemini', env: 'GEMINI_MODEL_FALLBACK' }
+};
+
+export function isLLMProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && LLM_PROVIDER_NAMES.includes(value as LLMProviderName);
+}
+
+export function isProviderConfigured(name: LLMProviderName): boolean {
+  return !!process.env[API_KEY_ENV[name]];
+}
+
+// Fallback for servers that omit usage (some local servers). Batch results no
+// longer have their request at hand, so only the output can be estimated.
+function estimateUsage(request: CompletionRequest | null, content: string): TokenUsage {
+  return {
+    inputTokens: request ? Math.ceil(((request.system || '').length + request.prompt.length) / 4) : 0,
+    outputTokens: Math.ceil(content.length / 4),
+    estimated: true
+  };
+}
+
+export async function readError(response: Response, vendor: string): Promise<Error> {
+  const errorText = await response.text().catch(() => 'Unable to read error response');
+  return new Error(`${vendor} API error: ${response.status} ${response.statusText} - ${errorText}`);
+}
+
+// Chat Completions request body, also used for the lines of an OpenAI batch file
+export function chatCompletionBody(model: string, request: CompletionRequest) {
+  return {
+    model,
+    messages: [
+      ...(request.system ? [{ role: 'system', content: request.system }] : []),
+      { role: 'user', content: request.prompt }
+    ],
+    temperature: request.temperature ?? 0.1,
+    max_tokens: request.maxTokens ?? 1500,
+    ...(request.json ? { response_format: { type: 'json_object' } } : {})
+  };
+}
+
+export function parseChatCompletion(
+  data: any,
+  model: string,
+  request: CompletionRequest | null,
+  vendor: string
+): { content: string; model: string; usage: TokenUsage } {
+  const content = data.choices?.[0]?.message?.content;
+  if (!content) {
+    throw new Error(`No response content from ${vendor}`);
+  }
+
+  const usage: TokenUsage = data.usage
+    ? { inputTokens: data.usage.prompt_tokens || 0, outputTokens: data.usage.completion_tokens || 0, estimated: false }
+    : estimateUsage(request, content);
+
+  return { content, model: data.model || model, usage };
+}
+
+// Chat Completions call shared by OpenAI and OpenAI-compatible local servers
+async function chatCompletion(
+  baseUrl: string,
+  apiKey: string | null,
+  model: string,
+  request: CompletionRequest,
+  vendor: string
+): Promise<{ content: string; model: string; usage: TokenUsage }> {
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+    },
+    body: JSON.stringify(chatCompletionBody(model, request))
+  });
+
+  if (!response.ok) {
+    throw await readError(response, vendor);
+  }
+
+  return parseChatCompletion(await response.json(), model, request, vendor);
+}
+
+// generateContent request body, also used for the requests of a Gemini batch
+export function geminiRequestBody(request: CompletionRequest) {
+  return {
+    ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+    contents: [{
+      parts: [{
+        text: request.prompt
+      }]
+    }],
+    generationConfig: {
+      temperature: request.temperature ?? 0.1,
+      maxOutputTokens: request.maxTokens ?? 1500,
+      ...(request.json ? { responseMimeType: 'application/json' } : {})
+    }
+  };
+}
+
+export function parseGeminiResponse(
+  data: any,
+  model: string,
+  request: CompletionRequest | null
+): { content: string; model: string; usage: TokenUsage } {
+  const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+  if (!content) {
+    throw new Error('No response content from Gemini');
+  }
+
+  // Thinking tokens of 2.5 models are billed as output
+  const metadata = data.usageMetadata;
+  const usage: TokenUsage = metadata
+    ? {
+        inputTokens: metadata.promptTokenCount || 0,
+        outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0),
+        estimated: false
+      }
+    : estimateUsage(request, content);
+
+  return { content, model: data.modelVersion || model, usage };
+}
+
+class OpenAIProvider implements LLMProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly compactPrompts = false;
+  private apiKey: string;
+
+  constructor(apiKey: string, model: string) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const result = await chatCompletion('https://api.openai.com/v1', this.apiKey, this.model, request, 'OpenAI');
+    return { ...result, provider: this.name };
+  }
+}
+
+// Self-hosted model behind an OpenAI-compatible endpoint, e.g.
+// LOCAL_LLM_BASE_URL=http://localhost:11434/v1 for Ollama. Compact prompts are
+// on unless LOCAL_LLM_COMPACT_PROMPTS=false (for large local models).
+class LocalProvider implements LLMProvider {
+  readonly name = 'local' as const;
+  readonly model: string;
+  readonly compactPrompts: boolean;
+  private baseUrl: string;
+  private apiKey: string | null;
+
+  constructor(baseUrl: string, model: string) {
+    this.baseUrl = baseUrl;
+    this.model = model;
+    this.apiKey = process.env.LOCAL_LLM_API_KEY || null;
+    this.compactPrompts = process.env.LOCAL_LLM_COMPACT_PROMPTS !== 'false';
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const result = await chatCompletion(this.baseUrl, this.apiKey, this.model, request, 'Local LLM');
+    return { ...result, provider: this.name };
+  }
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly name = 'gemini' as const;
+  readonly model: string;
+  readonly compactPrompts = false;
+  private apiKey: string;
+
+  constructor(apiKey: string, model: string) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${this.model}:generateContent`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': this.apiKey
+      },
+      body: JSON.stringify(geminiRequestBody(request))
+    });
+
+    if (!response.ok) {
+      throw await readError(response, 'Gemini');
+    }
+
+    const result = parseGeminiResponse(await response.json(), this.model, request);
+    return { ...result, provider: this.name };
+  }
+}
+
+// Anthropic Messages API. There is no JSON mode, so JSON requests prefill the
+// assistant turn with "{" and the brace is put back on the returned text.
+class ClaudeProvider implements LLMProvider {
+  readonly name = 'claude' as const;
+  readonly model: string;
+  readonly compactPrompts = false;
+  private apiKey: string;
+
+  constructor(apiKey: string, model: string) {
+    this.apiKey = apiKey;
+    this.model = model;
+  }
+
+  async complete(request: CompletionRequest): Promise<CompletionResult> {
+    const messages = [
+      { role: 'user', content: request.prompt },
+      ...(request.json ? [{ role: 'assistant', content: '{' }] : [])
+    ];
+
+    const response = await fetch('https://api.anthropic.com/v1/messages', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': this.apiKey,
+        'anthropic-version': '2023-06-01'
+      },
+      body: JSON.stringify({
+        model: this.model,
+        ...(request.system ? { system: request.system } : {}),
+        messages,
+        temperature: request.temperature ?? 0.1,
+        max_tokens: request.maxTokens ?? 1500
+      })
+    });
+
+    if (!response.ok) {
+      throw await readError(response, 'Claude');
+    }
+
+    const data = await response.json();
+    const text = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+    if (!text) {
+      throw new Error('No response content from Claude');
+    }
+
+    const usage: TokenUsage = data.usage
+      ? {
+          inputTokens: data.usage.input_tokens || 0,
+          outputTokens: data.usage.output_tokens || 0,
+          estimated: false
+        }
+      : estimateUsage(request, text);
+
+    return { content: request.json ? `{${text}` : text, provider: this.name, model: data.model || this.model, usage };
+  }
+}
+
+export function createProvider(name: LLMProviderName, model: string): LLMProvider {
+  const apiKey = process.env[API_KEY_ENV[name]];
+  if (!apiKey) {
+    throw new Error(`Missing ${API_KEY_ENV[name]} for LLM provider "${name}"`);
+  }
+
+  switch (name) {
+    case 'openai':
+      return new OpenAIProvider(apiKey, model);
+    case 'gemini':
+      return new GeminiProvider(apiKey, model);
+    case 'claude':
+      return new ClaudeProvider(apiKey, model);
+    case 'local':
+      return new LocalProvider(apiKey, model);
+  }
+}
+
+// Provider a stage runs on for users without a preference
+function deploymentProvider(stage: LLMStage): LLMProviderName {
+  const pinned = process.env[`LLM_PROVIDER_${stage.toUpperCase()}`];
+  return isLLMProviderName(pinned) ? pinned : DEFAULT_STAGE_PROVIDERS[stage];
+}
+
+// LLM_MODEL_<STAGE> names a model of the stage's deployment provider, so it is
+// not sent to another vendor a user picked
+function resolveModel(stage: LLMStage, provider: LLMProviderName): string {
+  if (provider === 'local') {
+    return process.env.LOCAL_LLM_MODEL || DEFAULT_MODELS.local[stage];
+  }
+  const stageModel = process.env[`LLM_MODEL_${stage.toUpperCase()}`];
+  if (stageModel && provider === deploymentProvider(stage)) {
+    return stageModel;
+  }
+  const legacy = LEGACY_MODEL_ENV[stage];
+  if (legacy && legacy.provider === provider && process.env[legacy.env]) {
+    return process.env[legacy.env]!;
+  }
+  return DEFAULT_MODELS[provider][stage];
+}
+
+// Provider for one pipeline stage. LLM_PROVIDER_<STAGE> pins a stage for the
+// whole deployment; otherwise the user's preference applies, then the default.
+// A choice whose API key is not configured is skipped with a warning, and as a
+// last resort any vendor with a key is used.
+// Choosing 'local' is a privacy decision: it overrides the stage pins and is
+// never replaced by a cloud vendor, failing instead when no server is configured.
+export function resolveStageProvider(stage: LLMStage, preference?: LLMProviderName | null): LLMProvider {
+  if (preference === 'local') {
+    if (!isProviderConfigured('local')) {
+      throw new Error(`Local LLM provider selected but ${API_KEY_ENV.local} is not set; not falling back to a cloud provider`);
+    }
+    return createProvider('local', resolveModel(stage, 'local'));
+  }
+
+  const pinned = process.env[`LLM_PROVIDER_${stage.toUpperCase()}`];
+  const candidates = [pinned, preference, DEFAULT_STAGE_PROVIDERS[stage], ...LLM_PROVIDER_NAMES];
+  const tried = new Set<string>();
+
+  for (const candidate of candidates) {
+    if (!candidate || tried.has(candidate)) {
+      continue;
+    }
+    tried.add(candidate);
+    if (!isLLMProviderName(candidate)) {
+      console.warn(`Ignoring unknown LLM provider "${candidate}" for ${stage}`);
+      continue;
+    }
+    if (!isProviderConfigured(candidate)) {
+      console.warn(`LLM provider "${candidate}" is not configured (${API_KEY_ENV[candidate]} missing), not using it for ${stage}`);
+      continue;
+    }
+    return createProvider(candidate, resolveModel(stage, candidate));
+  }
+
+  throw new Error(`No configured LLM provider for ${stage}: set one of ${Object.values(API_KEY_ENV).join(', ')}`);
+}
+
+export function resolveStageProviders(preference?: LLMProviderName | null): StageProviders {
+  return {
+    classification: resolveStageProvider('classification', preference),
+    extraction: resolveStageProvider('extraction', preference),
+    fallback: resolveStageProvider('fallback', preference),
+    summary: resolveStageProvider('summary', preference)
+  };
+}
+
+// Same vendors on their cheapest models (see BUDGET_MODELS)
+export function toBudgetProviders(providers: StageProviders): StageProviders {
+  const downgrade = (provider: LLMProvider) => {
+    const model = BUDGET_MODELS[provider.name];
+    return model && model !== provider.model ? createProvider(provider.name, model) : provider;
+  };
+
+  return {
+    classification: downgrade(providers.classification),
+    extraction: downgrade(providers.extraction),
+    fallback: downgrade(providers.fallback),
+    summary: downgrade(providers.summary)
+  };
+}
+
+// The user's provider choice (users.llm_provider); null means the deployment default
+export async function loadProviderPreference(supabase: any, userId: string): Promise<LLMProviderName | null> {
+  const { data, error } = await supabase
+    .from('users')
+    .select('llm_provider')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Failed to load LLM provider preference, using defaults:', error);
+    return null;
+  }
+
+  return isLLMProviderName(data?.llm_provider) ? data.llm_provider : null;
+}
+
+// Same provider, with every completed call reported to onResult. Stages use it
+// to add up the real usage of all their calls (chunks, retries after bad JSON).
+export function withUsageTracking(provider: LLMProvider, onResult: (result: CompletionResult) => void): LLMProvider {
+  return {
+    name: provider.name,
+    model: provider.model,
+    compactPrompts: provider.compactPrompts,
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      const result = await provider.complete(request);
+      onResult(result);
+      return result;
+    }
+  };
+}
@@ -0,0 +1,231 @@
+import { EmailContent, LLMOrchestrator } from './llm.js';
+import { ChildTag, matchChildTags } from './extraction.js';
+import { findDeletedEvent, normalizeRecurrenceRule, normalizeTimeValue, validateTimeForDatabase } from './events.js';
+
+// Quick-add: free text the user heard outside email ("Picture day Oct 14 8am for
+// Maya") goes through the same extraction prompt as an email body. The events
+// come back for the user to confirm and are only stored once confirmed, with
+// source 'manual' and no email.
+
+export const QUICK_ADD_MAX_LENGTH = 2000;
+
+// Shown to the model where an email has its subject and sender
+const QUICK_ADD_SUBJECT = 'Quick add';
+const QUICK_ADD_SENDER = 'the user';
+
+export interface QuickAddEvent {
+  title: string;
+  date: string;
+  time: string | null;
+  endDate: string | null;
+  endTime: string | null;
+  location: string | null;
+  description: string | null;
+  recurrenceRule: string | null;
+  confidence: number;
+  reasoning: string | null;
+  tagIds: string[]; // Kid tags the event applies to
+  promptVersion: string | null;
+}
+
+// The text as the extraction prompt reads an email. `today` is the user's local
+// date, so "tomorrow" or "Friday" resolve from their day rather than UTC.
+export function quickAddContent(text: string, today: string): EmailContent {
+  return {
+    subject: QUICK_ADD_SUBJECT,
+    body: text,
+    senderEmail: QUICK_ADD_SENDER,
+    sentDate: `${today}T00:00:00.000Z`
+  };
+}
+
+// Extract the events of a quick-add without storing them. Model calls are
+// recorded in processing_history without an email, so they count toward the
+// user's LLM budget and cost tracking.
+export async function extractQuickAddEvents(
+  supabase: any,
+  llmOrchestrator: LLMOrchestrator,
+  job: { userId: string; content: EmailContent; childTags: ChildTag[] }
+): Promise<{ events: QuickAddEvent[]; cost: number }> {
+  const { userId, content, childTags } = job;
+  const llmResults = await llmOrchestrator.processEmails([content]);
+
+  for (const cost of llmResults.costTracking) {
+    const { error: historyError } = await supabase
+      .from('processing_history')
+      .insert({
+        user_id: userId,
+        session_id: null,
+        email_id: null,
+        llm_provider: cost.provider,
+        model_name: cost.model,
+        processing_step: cost.stage,
+        prompt_version: cost.promptVersion,
+        processing_time: cost.processingTimeMs,
+        input_tokens: cost.inputTokens,
+        output_tokens: cost.outputTokens,
+        token_usage: cost.inputTokens + cost.outputTokens,
+        cost: cost.cost,
+        success_status: true,
+        retry_count: 0
+      });
+
+    if (historyError) {
+      console.error('Failed to store quick-add processing history:', historyError);
+    }
+  }
+
+  const events = (llmResults.results['email-0'] || []).map((event): QuickAddEvent => ({
+    title: event.title,
+    date: event.date,
+    time: validateTimeForDatabase(normalizeTimeValue(event.time)),
+    endDate: event.endDate || null,
+    endTime: event.endTime || null,
+    location: event.location || null,
+    description: event.description || null,
+    recurrenceRule: event.recurrenceRule || null,
+    confidence: event.confidence,
+    reasoning: event.reasoning || null,
+    tagIds: matchChildTags(event.children, childTags),
+    promptVersion: event.promptVersion || null
+  }));
+
+  return {
+    events,
+    cost: llmResults.costTracking.reduce((sum, cost) => sum + cost.cost, 0)
+  };
+}
+
+// Error message for a confirmed event the API should reject, or null when valid
+export function validateQuickAddEvent(event: any): string | null {
+  if (!event || typeof event !== 'object') {
+    return 'Expected the events to add';
+  }
+  if (!String(event.title || '').trim()) {
+    return 'Every event needs a title';
+  }
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(String(event.date))) {
+    return 'Dates must be YYYY-MM-DD';
+  }
+  if (event.time && !/^\d{1,2}:\d{2}(:\d{2})?$/.test(String(event.time))) {
+    return 'Times must be HH:MM';
+  }
+  if (event.endDate && !/^\d{4}-\d{2}-\d{2}$/.test(String(event.endDate))) {
+    return 'Dates must be YYYY-MM-DD';
+  }
+  if (event.tagIds !== undefined && !Array.isArray(event.tagIds)) {
+    return 'Children must be a list of tag ids';
+  }
+  return null;
+}
+
+// Store the events the user confirmed. They are verified, since the user checked
+// them, and their children are recorded as assigned by the user. Events that
+// already exist with the same title, date and time are counted, not stored.
+export async function storeManualEvents(
+  supabase: any,
+  job: { userId: string; text: string; events: QuickAddEvent[] }
+): Promise<{ events: any[]; skippedDuplicateEvents: number; restoredEvents: number }> {
+  const { userId, text, events } = job;
+
+  const { data: kidTags } = await supabase
+    .from('tags')
+    .select('id')
+    .eq('user_id', userId)
+    .eq('type', 'kid');
+  const ownTagIds = new Set<string>((kidTags || []).map((tag: any) => tag.id));
+
+  const stored: any[] = [];
+  let skippedDuplicateEvents = 0;
+  let restoredEvents = 0;
+
+  for (const event of events) {
+    // Adding an event that is in Trash restores it rather than skipping it as a duplicate
+    const deletedEventId = await findDeletedEvent(supabase, userId, event.title, event.date, event.time);
+    if (deletedEventId) {
+      const { data: restoredEvent, error: restoreError } = await supabase
+        .from('extracted_dates')
+        .update({ deleted_at: null, is_verified: true })
+        .eq('id', deletedEventId)
+        .select()
+        .single();
+
+      if (restoreError) {
+        throw new Error(`Failed to restore event: ${restoreError.message}`);
+      }
+      stored.push(restoredEvent);
+      restoredEvents++;
+      await tagManualEvent(supabase, userId, restoredEvent.id, event, ownTagIds);
+      continue;
+    }
+
+    const { data: storedEvent, error: dateError } = await supabase
+      .from('extracted_dates')
+      .upsert({
+        email_id: null,
+        user_id: userId,
+        event_title: event.title.trim(),
+        event_date: event.date,
+        event_time: validateTimeForDatabase(normalizeTimeValue(event.time)),
+        event_end_date: event.endDate || null,
+        event_end_time: validateTimeForDatabase(normalizeTimeValue(event.endTime)),
+        location: event.location?.trim() || null,
+        description: event.description?.trim() || null,
+        confidence_score: typeof event.confidence === 'number' ? event.confidence : 1.0,
+        is_verified: true,
+        extracted_at: new Date().toISOString(),
+        reasoning: event.reasoning || null,
+        recurrence_rule: normalizeRecurrenceRule(event.recurrenceRule),
+        prompt_version: event.promptVersion || null,
+        source: 'manual',
+        source_text: text
+      }, {
+        onConflict: 'user_id,event_title,event_date,event_time',
+        ignoreDuplicates: true
+      })
+      .select()
+      .maybeSingle();
+
+    if (dateError) {
+      throw new Error(`Failed to store event: ${dateError.message}`);
+    }
+    if (!storedEvent) {
+      skippedDuplicateEvents++;
+      continue;
+    }
+    stored.push(storedEvent);
+    await tagManualEvent(supabase, userId, storedEvent.id, event, ownTagIds);
+  }
+
+  return { events: stored, skippedDuplicateEvents, restoredEvents };
+}
+
+// Children picked in the confirmation, limited to the user's own kid tags
+async function tagManualEvent(
+  supabase: any,
+  userId: string,
+  eventId: string,
+  event: QuickAddEvent,
+  ownTagIds: Set<string>
+) {
+  const tagIds = (event.tagIds || []).filter(tagId => ownTagIds.has(tagId));
+  if (tagIds.length === 0) {
+    return;
+  }
+
+  const { error: tagError } = await supabase
+    .from('extracted_date_tags')
+    .upsert(tagIds.map(tagId => ({
+      extracted_date_id: eventId,
+      tag_id: tagId,
+      user_id: userId,
+      assigned_by: 'user'
+    })), {
+      onConflict: 'extracted_date_id,tag_id',
+      ignoreDuplicates: true
+    });
+
+  if (tagError) {
+    console.error(`Failed to attribute "${event.title}" to children:`, tagError);
+  }
+}
@@ -0,0 +1,436 @@
+import { pushStoredEvent, removeStoredEvent } from './calendar.js';
+import { normalizeTimeValue, validateTimeForDatabase } from './events.js';
+import { suppressionKey, titleKey } from './suppressions.js';
+
+// Non-destructive reprocessing. When an email is extracted again, its new events
+// are matched against the LLM events already stored for it and the differences
+// are staged in reprocess_changes instead of being written. The user reviews
+// them and applies or discards them. Applying keeps the verification, Google
+// Calendar link and user-assigned children of matched events, and removed
+// events go to the Trash. Events already on Google Calendar are updated there,
+// or deleted there when removed. Edited and deleted events, calendar imports and
+// manual events are never part of the diff.
+
+export type ReprocessChangeType = 'added' | 'changed' | 'removed' | 'unchanged';
+
+export const COMPARED_FIELDS = ['title', 'date', 'time', 'endDate', 'endTime', 'location', 'description', 'recurrenceRule', 'tags'] as const;
+
+export type ComparedField = typeof COMPARED_FIELDS[number];
+
+export interface EventDetails {
+  title: string;
+  date: string;
+  time: string | null;
+  endDate: string | null;
+  endTime: string | null;
+  location: string | null;
+  description: string | null;
+  recurrenceRule: string | null;
+  tagIds: string[]; // Kid tags assigned by the model
+}
+
+export interface ProposedEvent extends EventDetails {
+  confidence: number;
+  reasoning: string | null;
+  sourceAttachment: string | null;
+  promptVersion: string | null;
+}
+
+export interface ReprocessChange {
+  id: string;
+  emailId: string;
+  emailSubject: string | null;
+  eventId: string | null;
+  changeType: ReprocessChangeType;
+  changedFields: ComparedField[];
+  current: (EventDetails & { verified: boolean }) | null; // Stored event; null for added events
+  proposed: ProposedEvent | null; // null for removed events
+  createdAt: string;
+}
+
+export type ReprocessCounts = Record<ReprocessChangeType, number>;
+
+// Stored and extracted events are paired by the first rule that matches, each
+// rule applied to all events before the next: same title, date and time; same
+// title and date; same title; then same date and time under a reworded title
+const MATCH_RULES: Array<(stored: EventDetails, proposed: EventDetails) => boolean> = [
+  (stored, proposed) => suppressionKey(stored.title, stored.date) === suppressionKey(proposed.title, proposed.date)
+    && timeKey(stored.time) === timeKey(proposed.time),
+  (stored, proposed) => suppressionKey(stored.title, stored.date) === suppressionKey(proposed.title, proposed.date),
+  (stored, proposed) => titleKey(stored.title) === titleKey(proposed.title),
+  (stored, proposed) => stored.date === proposed.date && !!stored.time && timeKey(stored.time) === timeKey(proposed.time)
+];
+
+// HH:MM, so 9:00, 09:00 and 09:00:00 compare equal
+function timeKey(time: string | null): string | null {
+  return time ? time.split(':').slice(0, 2).map(part => part.padStart(2, '0')).join(':') : null;
+}
+
+function storedDetails(row: any): EventDetails {
+  return {
+    title: row.event_title,
+    date: row.event_date,
+    time: row.event_time,
+    endDate: row.event_end_date,
+    endTime: row.event_end_time,
+    location: row.location,
+    description: row.description,
+    recurrenceRule: row.recurrence_rule,
+    tagIds: (row.extracted_date_tags || [])
+      .filter((tag: any) => tag.assigned_by === 'llm')
+      .map((tag: any) => tag.tag_id)
+  };
+}
+
+function changedFields(current: EventDetails, proposed: EventDetails): ComparedField[] {
+  const same = (a: string | null, b: string | null) => (a || null) === (b || null);
+  const changed: ComparedField[] = [];
+  if (current.title !== proposed.title) changed.push('title');
+  if (current.date !== proposed.date) changed.push('date');
+  if (timeKey(current.time) !== timeKey(proposed.time)) changed.push('time');
+  if (!same(current.endDate, proposed.endDate)) changed.push('endDate');
+  if (timeKey(current.endTime) !== timeKey(proposed.endTime)) changed.push('endTime');
+  if (!same(current.location, proposed.location)) changed.push('location');
+  if (!same(current.description, proposed.description)) changed.push('description');
+  if (!same(current.recurrenceRule, proposed.recurrenceRule)) changed.push('recurrenceRule');
+  if ([...current.tagIds].sort().join(',') !== [...proposed.tagIds].sort().join(',')) changed.push('tags');
+  return changed;
+}
+
+// extracted_dates columns for an event as extracted again
+function eventColumns(event: ProposedEvent) {
+  return {
+    event_title: event.title,
+    event_date: event.date,
+    event_time: validateTimeForDatabase(normalizeTimeValue(event.time)),
+    event_end_date: event.endDate || null,
+    event_end_time: validateTimeForDatabase(normalizeTimeValue(event.endTime)),
+    location: event.location || null,
+    description: event.description || null,
+    recurrence_rule: event.recurrenceRule || null,
+    confidence_score: event.confidence,
+    reasoning: event.reasoning || null,
+    source_attachment: event.sourceAttachment,
+    prompt_version: event.promptVersion,
+    extracted_at: new Date().toISOString()
+  };
+}
+
+// Compare the new extraction of one email with its stored events and replace
+// the email's pending changes with the result. Suppressed events must already
+// be left out of `events`.
+export async function stageReprocessChanges(
+  supabase: any,
+  job: { userId: string; emailId: string; events: ProposedEvent[] }
+): Promise<ReprocessCounts> {
+  const { userId, emailId, events } = job;
+
+  const { error: clearError } = await supabase
+    .from('reprocess_changes')
+    .delete()
+    .eq('email_id', emailId);
+
+  if (clearError) {
+    throw new Error(`Failed to clear earlier reprocess changes: ${clearError.message}`);
+  }
+
+  const { data: stored, error: storedError } = await supabase
+    .from('extracted_dates')
+    .select('*, extracted_date_tags(tag_id, assigned_by)')
+    .eq('email_id', emailId)
+    .eq('source', 'llm')
+    .is('edited_at', null)
+    .is('deleted_at', null);
+
+  if (storedError) {
+    throw new Error(`Failed to load stored events: ${storedError.message}`);
+  }
+
+  const storedEvents: Array<{ row: any; details: EventDetails }> = (stored || []).map((row: any) => ({ row, details: storedDetails(row) }));
+  const matches = new Map<number, { row: any; details: EventDetails }>();
+  const claimed = new Set<string>();
+
+  for (const rule of MATCH_RULES) {
+    events.forEach((event, index) => {
+      if (matches.has(index)) {
+        return;
+      }
+      const match = storedEvents.find(candidate => !claimed.has(candidate.row.id) && rule(candidate.details, event));
+      if (match) {
+        matches.set(index, match);
+        claimed.add(match.row.id);
+      }
+    });
+  }
+
+  const counts: ReprocessCounts = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+  const rows: any[] = [];
+
+  events.forEach((event, index) => {
+    const match = matches.get(index);
+    const changed = match ? changedFields(match.details, event) : [];
+    const changeType: ReprocessChangeType = !match ? 'added' : changed.length > 0 ? 'changed' : 'unchanged';
+    counts[changeType]++;
+    rows.push({
+      user_id: userId,
+      email_id: emailId,
+      extracted_date_id: match ? match.row.id : null,
+      change_type: changeType,
+      proposed: event,
+      changed_fields: changed
+    });
+  });
+
+  for (const { row } of storedEvents.filter(candidate => !claimed.has(candidate.row.id))) {
+    counts.removed++;
+    rows.push({
+      user_id: userId,
+      email_id: emailId,
+      extracted_date_id: row.id,
+      change_type: 'removed',
+      proposed: null,
+      changed_fields: []
+    });
+  }
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('reprocess_changes')
+      .insert(rows);
+
+    if (error) {
+      throw new Error(`Failed to store reprocess changes: ${error.message}`);
+    }
+  }
+
+  return counts;
+}
+
+// Pending changes of the user with the stored events they apply to, oldest
+// email first
+export async function loadReprocessChanges(supabase: any, userId: string): Promise<ReprocessChange[]> {
+  const { data, error } = await supabase
+    .from('reprocess_changes')
+    .select(`
+      *,
+      processed_emails(subject),
+      extracted_dates(*, extracted_date_tags(tag_id, assigned_by))
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load reprocess changes: ${error.message}`);
+  }
+
+  return (data || []).map((row: any): ReprocessChange => ({
+    id: row.id,
+    emailId: row.email_id,
+    emailSubject: row.processed_emails?.subject || null,
+    eventId: row.extracted_date_id,
+    changeType: row.change_type,
+    changedFields: row.changed_fields || [],
+    current: row.extracted_dates
+      ? { ...storedDetails(row.extracted_dates), verified: row.extracted_dates.is_verified }
+      : null,
+    proposed: row.proposed,
+    createdAt: row.created_at
+  }));
+}
+
+export function countReprocessChanges(changes: ReprocessChange[]): ReprocessCounts {
+  const counts: ReprocessCounts = { added: 0, changed: 0, removed: 0, unchanged: 0 };
+  for (const change of changes) {
+    counts[change.changeType]++;
+  }
+  return counts;
+}
+
+async function setLlmTags(supabase: any, userId: string, eventId: string, tagIds: string[]) {
+  let removeQuery = supabase
+    .from('extracted_date_tags')
+    .delete()
+    .eq('extracted_date_id', eventId)
+    .eq('assigned_by', 'llm');
+  if (tagIds.length > 0) {
+    removeQuery = removeQuery.not('tag_id', 'in', `(${tagIds.join(',')})`);
+  }
+  const { error: removeError } = await removeQuery;
+
+  if (removeError) {
+    console.error('Failed to remove children the model no longer assigns:', removeError);
+  }
+
+  if (tagIds.length > 0) {
+    // Children the user assigned themselves keep assigned_by 'user'
+    const { error } = await supabase
+      .from('extracted_date_tags')
+      .upsert(tagIds.map(tagId => ({
+        extracted_date_id: eventId,
+        tag_id: tagId,
+        user_id: userId,
+        assigned_by: 'llm'
+      })), {
+        onConflict: 'extracted_date_id,tag_id',
+        ignoreDuplicates: true
+      });
+
+    if (error) {
+      console.error('Failed to attribute reprocessed event to children:', error);
+    }
+  }
+}
+
+// Google Calendar events updated or deleted while applying, in the user's zone
+interface CalendarSync {
+  timeZone: string;
+  updated: number;
+  failed: number;
+}
+
+async function applyChange(supabase: any, userId: string, change: any, calendar: CalendarSync): Promise<boolean> {
+  const proposed: ProposedEvent | null = change.proposed;
+
+  if (change.change_type === 'added') {
+    const { data: storedEvent, error } = await supabase
+      .from('extracted_dates')
+      .upsert({
+        ...eventColumns(proposed!),
+        email_id: change.email_id,
+        user_id: userId,
+        is_verified: false
+      }, {
+        onConflict: 'user_id,event_title,event_date,event_time',
+        ignoreDuplicates: true
+      })
+      .select()
+      .maybeSingle();
+
+    if (error) {
+      throw new Error(`Failed to add event: ${error.message}`);
+    }
+    if (!storedEvent) {
+      return false;
+    }
+    await setLlmTags(supabase, userId, storedEvent.id, proposed!.tagIds);
+    return true;
+  }
+
+  // Changed and removed events are only touched while the user has not edited
+  // or deleted them since the reprocess
+  if (change.change_type === 'changed') {
+    const { data: updated, error } = await supabase
+      .from('extracted_dates')
+      .update(eventColumns(proposed!))
+      .eq('id', change.extracted_date_id)
+      .is('edited_at', null)
+      .is('deleted_at', null)
+      .select('id, google_calendar_event_id');
+
+    // Unique violation on (user_id, event_title, event_date, event_time)
+    if (error?.code === '23505') {
+      return false;
+    }
+    if (error) {
+      throw new Error(`Failed to update event: ${error.message}`);
+    }
+    if ((updated || []).length === 0) {
+      return false;
+    }
+    await setLlmTags(supabase, userId, change.extracted_date_id, proposed!.tagIds);
+    if (updated[0].google_calendar_event_id) {
+      const pushed = await pushStoredEvent(supabase, userId, change.extracted_date_id, calendar.timeZone);
+      calendar[pushed ? 'updated' : 'failed']++;
+    }
+    return true;
+  }
+
+  if (change.change_type === 'removed') {
+    const { data: removed, error } = await supabase
+      .from('extracted_dates')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', change.extracted_date_id)
+      .is('edited_at', null)
+      .is('deleted_at', null)
+      .select('id, google_calendar_event_id');
+
+    if (error) {
+      throw new Error(`Failed to remove event: ${error.message}`);
+    }
+    if ((removed || []).length === 0) {
+      return false;
+    }
+    if (removed[0].google_calendar_event_id) {
+      const deleted = await removeStoredEvent(supabase, userId, change.extracted_date_id, removed[0].google_calendar_event_id);
+      calendar[deleted ? 'updated' : 'failed']++;
+    }
+    return true;
+  }
+
+  return true;
+}
+
+// Apply the user's pending changes, or only `changeIds`. Added events are stored
+// unverified; changed events get the new details and the model's children while
+// keeping everything the user set; removed events are soft deleted. Changes that
+// no longer apply (the event was edited or deleted since, or another event has
+// the same title, date and time) are skipped. Applied and skipped changes are
+// cleared. Changed events on Google Calendar are pushed again in `timeZone`,
+// removed ones deleted there.
+export async function applyReprocessChanges(
+  supabase: any,
+  userId: string,
+  options: { changeIds?: string[]; timeZone?: string } = {}
+): Promise<{ added: number; changed: number; removed: number; skipped: number; calendarUpdated: number; calendarFailed: number }> {
+  const { changeIds } = options;
+  let query = supabase
+    .from('reprocess_changes')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+  if (changeIds) {
+    query = query.in('id', changeIds);
+  }
+
+  const { data: changes, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load reprocess changes: ${error.message}`);
+  }
+
+  const result = { added: 0, changed: 0, removed: 0, skipped: 0 };
+  const calendar: CalendarSync = { timeZone: options.timeZone || 'UTC', updated: 0, failed: 0 };
+  for (const change of changes || []) {
+    if (change.change_type === 'unchanged') {
+      continue;
+    }
+    if (await applyChange(supabase, userId, change, calendar)) {
+      result[change.change_type as 'added' | 'changed' | 'removed']++;
+    } else {
+      result.skipped++;
+    }
+  }
+
+  await discardReprocessChanges(supabase, userId, (changes || []).map((change: any) => change.id));
+  return { ...result, calendarUpdated: calendar.updated, calendarFailed: calendar.failed };
+}
+
+// Drop the user's pending changes, or only `changeIds`; returns how many
+export async function discardReprocessChanges(supabase: any, userId: string, changeIds?: string[]): Promise<number> {
+  if (changeIds && changeIds.length === 0) {
+    return 0;
+  }
+
+  let query = supabase
+    .from('reprocess_changes')
+    .delete({ count: 'exact' })
+    .eq('user_id', userId);
+  if (changeIds) {
+    query = query.in('id', changeIds);
+  }
+
+  const { count, error } = await query;
+  if (error) {
+    throw new Error(`Failed to discard reprocess changes: ${error.message}`);
+  }
+  return count || 0;
+}
@@ -0,0 +1,264 @@
+import { EmailJobPayload } from './jobs.js';
+import { suppressEvent } from './suppressions.js';
+
+// Review queue: unverified events whose confidence is below the user's review
+// threshold, shown with the passage of the email they were read from. Approving
+// or editing an event verifies it (edits go through revisions.ts); merging folds
+// it into another event and rejecting moves it to Trash, both recorded as
+// suppressions.
+
+export const DEFAULT_REVIEW_THRESHOLD = 0.8;
+
+// Most events listed at once, lowest confidence first
+const REVIEW_QUEUE_LIMIT = 100;
+
+// Characters of email text shown on each side of the matched passage
+const EXCERPT_RADIUS = 200;
+
+export interface ReviewEvent {
+  id: string;
+  emailId: string;
+  title: string;
+  date: string;
+  time: string | null;
+  endDate: string | null;
+  endTime: string | null;
+  location: string | null;
+  description: string | null;
+  confidence: number;
+  reasoning: string | null;
+  sourceAttachment: string | null;
+  email: {
+    subject: string;
+    senderEmail: string;
+    sentDate: string;
+    excerpt: string | null; // Passage the event was read from, or the start of the email
+  };
+  // Other events on the same day or from the same email, to merge into
+  mergeCandidates: Array<{ id: string; title: string; date: string; time: string | null; verified: boolean }>;
+}
+
+export async function loadReviewThreshold(supabase: any, userId: string): Promise<number> {
+  const { data } = await supabase
+    .from('users')
+    .select('review_confidence_threshold')
+    .eq('id', userId)
+    .maybeSingle();
+
+  const threshold = parseFloat(data?.review_confidence_threshold);
+  return isNaN(threshold) ? DEFAULT_REVIEW_THRESHOLD : threshold;
+}
+
+// Quoted text in the reasoning first, then its phrases, then the title's words
+function excerptNeedles(title: string, reasoning: string | null): string[] {
+  const text = reasoning || '';
+  const quoted = [...text.matchAll(/["“]([^"”]{6,})["”]/g)].map(match => match[1]);
+  const phrases = text.split(/[,;:()"“”]|\s[-–—]\s/).map(phrase => phrase.trim()).filter(phrase => phrase.length >= 12);
+  const words = title.split(/\s+/).filter(word => word.replace(/[^a-z0-9]/gi, '').length > 3);
+  return [...quoted, ...phrases, title, ...words.sort((a, b) => b.length - a.length)];
+}
+
+// Passage of the email around the text the model based the event on, or null
+// when none of it can be found
+export function findExcerpt(text: string, event: { title: string; reasoning: string | null }): string | null {
+  const body = text.replace(/\s+/g, ' ').trim();
+  const haystack = body.toLowerCase();
+
+  for (const needle of excerptNeedles(event.title, event.reasoning)) {
+    const index = haystack.indexOf(needle.toLowerCase().replace(/\s+/g, ' '));
+    if (index === -1) {
+      continue;
+    }
+
+    const start = Math.max(0, body.lastIndexOf(' ', Math.max(0, index - EXCERPT_RADIUS)));
+    const endSpace = body.indexOf(' ', Math.min(body.length, index + needle.length + EXCERPT_RADIUS));
+    const end = endSpace === -1 ? body.length : endSpace;
+    return `${start > 0 ? '…' : ''}${body.substring(start, end).trim()}${end < body.length ? '…' : ''}`;
+  }
+
+  return null;
+}
+
+// Text of the latest extraction job per email: the body, or the attachment the
+// event was read from
+async function loadJobPayloads(supabase: any, emailIds: string[]): Promise<Map<string, EmailJobPayload>> {
+  const payloads = new Map<string, EmailJobPayload>();
+  if (emailIds.length === 0) {
+    return payloads;
+  }
+
+  const { data, error } = await supabase
+    .from('email_jobs')
+    .select('email_id, payload, created_at')
+    .in('email_id', emailIds)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Failed to load email content for review excerpts:', error);
+    return payloads;
+  }
+
+  for (const job of data || []) {
+    if (job.payload && !payloads.has(job.email_id)) {
+      payloads.set(job.email_id, job.payload);
+    }
+  }
+  return payloads;
+}
+
+export async function loadReviewQueue(supabase: any, userId: string): Promise<{ threshold: number; events: ReviewEvent[] }> {
+  const threshold = await loadReviewThreshold(supabase, userId);
+
+  const { data, error } = await supabase
+    .from('extracted_dates')
+    .select(`
+      *,
+      processed_emails!inner(subject, sender_email, sent_date, email_body_preview)
+    `)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .eq('is_verified', false)
+    .lt('confidence_score', threshold)
+    .order('confidence_score', { ascending: true })
+    .limit(REVIEW_QUEUE_LIMIT);
+
+  if (error) {
+    throw new Error(`Failed to load review queue: ${error.message}`);
+  }
+
+  const rows = data || [];
+  const emailIds = [...new Set<string>(rows.map((row: any) => row.email_id))];
+  const dates = [...new Set<string>(rows.map((row: any) => row.event_date))];
+  const payloads = await loadJobPayloads(supabase, emailIds);
+
+  let neighbours: any[] = [];
+  if (rows.length > 0) {
+    const { data: related, error: relatedError } = await supabase
+      .from('extracted_dates')
+      .select('id, email_id, event_title, event_date, event_time, is_verified')
+      .eq('user_id', userId)
+      .is('deleted_at', null)
+      .or(`event_date.in.(${dates.join(',')}),email_id.in.(${emailIds.join(',')})`);
+
+    if (relatedError) {
+      console.error('Failed to load merge candidates:', relatedError);
+    }
+    neighbours = related || [];
+  }
+
+  const events = rows.map((row: any): ReviewEvent => {
+    const payload = payloads.get(row.email_id);
+    const sourceText = row.source_attachment
+      ? payload?.attachments?.find(attachment => attachment.filename === row.source_attachment)?.text
+      : payload?.content.body;
+    const excerpt = (sourceText && findExcerpt(sourceText, { title: row.event_title, reasoning: row.reasoning }))
+      || row.processed_emails.email_body_preview
+      || null;
+
+    return {
+      id: row.id,
+      emailId: row.email_id,
+      title: row.event_title,
+      date: row.event_date,
+      time: row.event_time,
+      endDate: row.event_end_date,
+      endTime: row.event_end_time,
+      location: row.location,
+      description: row.description,
+      confidence: row.confidence_score,
+      reasoning: row.reasoning,
+      sourceAttachment: row.source_attachment,
+      email: {
+        subject: row.processed_emails.subject,
+        senderEmail: row.processed_emails.sender_email,
+        sentDate: row.processed_emails.sent_date,
+        excerpt
+      },
+      mergeCandidates: neighbours
+        .filter(other => other.id !== row.id && (other.event_date === row.event_date || other.email_id === row.email_id))
+        .map(other => ({
+          id: other.id,
+          title: other.event_title,
+          date: other.event_date,
+          time: other.event_time,
+          verified: other.is_verified
+        }))
+    };
+  });
+
+  return { threshold, events };
+}
+
+async function updateEvent(supabase: any, eventId: string, changes: Record<string, any>) {
+  const { data, error } = await supabase
+    .from('extracted_dates')
+    .update(changes)
+    .eq('id', eventId)
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to update event: ${error.message}`);
+  }
+  return data;
+}
+
+// Rejected and merged events go to Trash like any other deleted event
+async function deleteEvent(supabase: any, eventId: string) {
+  const { error } = await supabase
+    .from('extracted_dates')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', eventId);
+
+  if (error) {
+    throw new Error(`Failed to delete event: ${error.message}`);
+  }
+}
+
+export async function approveEvent(supabase: any, event: any) {
+  return updateEvent(supabase, event.id, { is_verified: true });
+}
+
+// Fold `event` into `target`: details the target lacks are copied over, the
+// children of both are kept, and the target is verified
+export async function mergeEvents(supabase: any, event: any, target: any) {
+  const changes: Record<string, any> = { is_verified: true };
+  for (const column of ['event_time', 'event_end_date', 'event_end_time', 'location', 'description', 'recurrence_rule']) {
+    if (!target[column] && event[column]) {
+      changes[column] = event[column];
+    }
+  }
+
+  const { data: tags } = await supabase
+    .from('extracted_date_tags')
+    .select('tag_id, assigned_by')
+    .eq('extracted_date_id', event.id);
+
+  if ((tags || []).length > 0) {
+    const { error: tagError } = await supabase
+      .from('extracted_date_tags')
+      .upsert(tags.map((tag: any) => ({
+        extracted_date_id: target.id,
+        tag_id: tag.tag_id,
+        user_id: target.user_id,
+        assigned_by: tag.assigned_by
+      })), {
+        onConflict: 'extracted_date_id,tag_id',
+        ignoreDuplicates: true
+      });
+
+    if (tagError) {
+      console.error('Failed to move children to the merged event:', tagError);
+    }
+  }
+
+  await suppressEvent(supabase, event, 'merged');
+  const merged = await updateEvent(supabase, target.id, changes);
+  await deleteEvent(supabase, event.id);
+  return merged;
+}
+
+export async function rejectEvent(supabase: any, event: any) {
+  await suppressEvent(supabase, event, 'rejected');
+  await deleteEvent(supabase, event.id);
+}
@@ -0,0 +1,306 @@
+import { normalizeTimeValue, validateTimeForDatabase } from './events.js';
+import { suppressEvent, suppressionKey } from './suppressions.js';
+
+// Inline editing of events. Each edit updates the event, marks it with edited_at
+// and edited_fields, and stores an event_revisions row with the fields after the
+// change. Before the first edit the event as extracted is stored too, so the
+// history always starts with what the model (or calendar invite) produced.
+// Reprocessing keeps edited events and skips the emails' events they correct.
+
+export const EDITABLE_FIELDS = ['title', 'date', 'time', 'description', 'location', 'tags'] as const;
+
+export type EditableField = typeof EDITABLE_FIELDS[number];
+
+export interface EventFields {
+  title: string;
+  date: string;
+  time: string | null;
+  description: string | null;
+  location: string | null;
+  tagIds: string[];
+}
+
+export type EventEdit = Partial<EventFields>;
+
+export interface EventRevision extends EventFields {
+  id: string;
+  source: 'extraction' | 'user';
+  changedFields: EditableField[];
+  createdAt: string;
+}
+
+// One live (not deleted) event of the user with the Gmail message it came from
+// (none for manual events), or null
+export async function loadUserEvent(supabase: any, userId: string, eventId: string): Promise<any | null> {
+  const { data, error } = await supabase
+    .from('extracted_dates')
+    .select('*, processed_emails(gmail_message_id)')
+    .eq('id', eventId)
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load event: ${error.message}`);
+  }
+  return data;
+}
+
+// Error message for an edit the API should reject, or null when it is valid
+export function validateEventEdit(edit: any): string | null {
+  if (!edit || typeof edit !== 'object' || Array.isArray(edit)) {
+    return 'Expected the changed fields of the event';
+  }
+  if (edit.title !== undefined && !String(edit.title || '').trim()) {
+    return 'Title cannot be empty';
+  }
+  if (edit.date !== undefined && !/^\d{4}-\d{2}-\d{2}$/.test(String(edit.date))) {
+    return 'Date must be YYYY-MM-DD';
+  }
+  if (edit.time && !/^\d{1,2}:\d{2}(:\d{2})?$/.test(String(edit.time))) {
+    return 'Time must be HH:MM';
+  }
+  if (edit.tagIds !== undefined && (!Array.isArray(edit.tagIds) || edit.tagIds.some((id: any) => typeof id !== 'string'))) {
+    return 'Children must be a list of tag ids';
+  }
+  return null;
+}
+
+// TIME columns come back as HH:MM:SS, edits usually as HH:MM
+function timeKey(time: string | null): string | null {
+  return time ? time.substring(0, 5).padStart(5, '0') : null;
+}
+
+function normalizeEdit(edit: EventEdit): EventEdit {
+  const normalized: EventEdit = {};
+  if (edit.title !== undefined) normalized.title = edit.title.trim();
+  if (edit.date !== undefined) normalized.date = edit.date;
+  if (edit.time !== undefined) normalized.time = validateTimeForDatabase(normalizeTimeValue(edit.time));
+  if (edit.description !== undefined) normalized.description = edit.description?.trim() || null;
+  if (edit.location !== undefined) normalized.location = edit.location?.trim() || null;
+  if (edit.tagIds !== undefined) normalized.tagIds = [...new Set(edit.tagIds)];
+  return normalized;
+}
+
+async function loadEventFields(supabase: any, event: any): Promise<EventFields> {
+  const { data: tags, error } = await supabase
+    .from('extracted_date_tags')
+    .select('tag_id')
+    .eq('extracted_date_id', event.id);
+
+  if (error) {
+    throw new Error(`Failed to load event children: ${error.message}`);
+  }
+
+  return {
+    title: event.event_title,
+    date: event.event_date,
+    time: event.event_time,
+    description: event.description,
+    location: event.location,
+    tagIds: (tags || []).map((tag: any) => tag.tag_id)
+  };
+}
+
+function changedFields(current: EventFields, next: EventFields): EditableField[] {
+  const changed: EditableField[] = [];
+  if (current.title !== next.title) changed.push('title');
+  if (current.date !== next.date) changed.push('date');
+  if (timeKey(current.time) !== timeKey(next.time)) changed.push('time');
+  if ((current.description || null) !== next.description) changed.push('description');
+  if ((current.location || null) !== next.location) changed.push('location');
+  if ([...current.tagIds].sort().join(',') !== [...next.tagIds].sort().join(',')) changed.push('tags');
+  return changed;
+}
+
+async function insertRevision(supabase: any, event: any, source: EventRevision['source'], fields: EventFields, changed: EditableField[]) {
+  const { error } = await supabase
+    .from('event_revisions')
+    .insert({
+      extracted_date_id: event.id,
+      user_id: event.user_id,
+      source,
+      event_title: fields.title,
+      event_date: fields.date,
+      event_time: fields.time,
+      description: fields.description,
+      location: fields.location,
+      tag_ids: fields.tagIds,
+      changed_fields: changed
+    });
+
+  if (error) {
+    throw new Error(`Failed to store event revision: ${error.message}`);
+  }
+}
+
+// Kid tags of the user among `tagIds`; others are dropped
+async function ownTagIds(supabase: any, userId: string, tagIds: string[]): Promise<string[]> {
+  if (tagIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabase
+    .from('tags')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', tagIds);
+
+  if (error) {
+    throw new Error(`Failed to load children: ${error.message}`);
+  }
+  return (data || []).map((tag: any) => tag.id);
+}
+
+async function syncEventTags(supabase: any, event: any, current: string[], next: string[]) {
+  const removed = current.filter(tagId => !next.includes(tagId));
+  const added = next.filter(tagId => !current.includes(tagId));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('extracted_date_tags')
+      .delete()
+      .eq('extracted_date_id', event.id)
+      .in('tag_id', removed);
+
+    if (error) {
+      throw new Error(`Failed to remove children from event: ${error.message}`);
+    }
+  }
+
+  if (added.length > 0) {
+    const { error } = await supabase
+      .from('extracted_date_tags')
+      .upsert(added.map(tagId => ({
+        extracted_date_id: event.id,
+        tag_id: tagId,
+        user_id: event.user_id,
+        assigned_by: 'user'
+      })), {
+        onConflict: 'extracted_date_id,tag_id'
+      });
+
+    if (error) {
+      throw new Error(`Failed to add children to event: ${error.message}`);
+    }
+  }
+}
+
+// Apply the user's changes to `event` (a row from loadUserEvent) and record the
+// revision. `verify` also marks the event verified, as the review queue does.
+// Returns the updated row, or null when another event already has the new
+// title, date and time. A changed title or date suppresses the extracted one,
+// so extracting the same email again does not add it back.
+export async function applyEventEdit(supabase: any, event: any, edit: EventEdit, options: { verify?: boolean } = {}) {
+  const current = await loadEventFields(supabase, event);
+  const normalized = normalizeEdit(edit);
+  if (normalized.tagIds) {
+    normalized.tagIds = await ownTagIds(supabase, event.user_id, normalized.tagIds);
+  }
+
+  const next: EventFields = { ...current, ...normalized };
+  const changed = changedFields(current, next);
+
+  if (changed.length === 0 && (!options.verify || event.is_verified)) {
+    return event;
+  }
+
+  const updates: Record<string, any> = {};
+  if (options.verify) {
+    updates.is_verified = true;
+  }
+  if (changed.length > 0) {
+    updates.event_title = next.title;
+    updates.event_date = next.date;
+    updates.event_time = next.time;
+    updates.description = next.description;
+    updates.location = next.location;
+    updates.edited_at = new Date().toISOString();
+    updates.edited_fields = [...new Set([...(event.edited_fields || []), ...changed])];
+  }
+
+  const { data, error } = await supabase
+    .from('extracted_dates')
+    .update(updates)
+    .eq('id', event.id)
+    .select()
+    .single();
+
+  // Unique violation on (user_id, event_title, event_date, event_time)
+  if (error?.code === '23505') {
+    return null;
+  }
+  if (error) {
+    throw new Error(`Failed to update event: ${error.message}`);
+  }
+
+  if (changed.length === 0) {
+    return data;
+  }
+
+  if (!event.edited_at) {
+    await insertRevision(supabase, event, 'extraction', current, []);
+  }
+  if (changed.includes('tags')) {
+    await syncEventTags(supabase, event, current.tagIds, next.tagIds);
+  }
+  await insertRevision(supabase, event, 'user', next, changed);
+
+  if (suppressionKey(current.title, current.date) !== suppressionKey(next.title, next.date)) {
+    await suppressEvent(supabase, event, 'edited');
+  }
+  return data;
+}
+
+export async function loadEventRevisions(supabase: any, userId: string, eventId: string): Promise<EventRevision[]> {
+  const { data, error } = await supabase
+    .from('event_revisions')
+    .select('*')
+    .eq('extracted_date_id', eventId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load event revisions: ${error.message}`);
+  }
+
+  return (data || []).map((row: any): EventRevision => ({
+    id: row.id,
+    source: row.source,
+    title: row.event_title,
+    date: row.event_date,
+    time: row.event_time,
+    description: row.description,
+    location: row.location,
+    tagIds: row.tag_ids || [],
+    changedFields: row.changed_fields || [],
+    createdAt: row.created_at
+  }));
+}
+
+// suppressionKey values of the edited events of one stored email, both as they
+// are now and as they were extracted. Extracting the email again skips them so
+// it neither overwrites the corrections nor adds the uncorrected event back.
+export async function loadCorrectedEventKeys(supabase: any, emailId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('extracted_dates')
+    .select('event_title, event_date, event_revisions(source, event_title, event_date)')
+    .eq('email_id', emailId)
+    .not('edited_at', 'is', null);
+
+  if (error) {
+    console.error('Failed to load edited events, extraction may overwrite them:', error);
+    return new Set();
+  }
+
+  const keys = new Set<string>();
+  for (const event of data || []) {
+    keys.add(suppressionKey(event.event_title, event.event_date));
+    for (const revision of event.event_revisions || []) {
+      if (revision.source === 'extraction') {
+        keys.add(suppressionKey(revision.event_title, revision.event_date));
+      }
+    }
+  }
+  return keys;
+}
@@ -0,0 +1,85 @@
+// Events the user turned down in the review queue: rejected, merged into another
+// event, or replaced by a corrected title or date. They are recorded per Gmail
+// message, the id the pipeline dedupes emails by, and extraction of the same
+// email skips them. Deleted events (tombstones with
+// deleted_at) are skipped the same way while they sit in the trash.
+
+export type SuppressionReason = 'rejected' | 'merged' | 'edited';
+
+// Titles are compared without case, punctuation or extra spaces, so
+// "Picture Day!" and "picture day" are the same event
+export function titleKey(title: string): string {
+  return title.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+export function suppressionKey(title: string, date: string): string {
+  return `${titleKey(title)}:${date}`;
+}
+
+// Suppressed events of one stored email, as suppressionKey values
+export async function loadSuppressedEvents(supabase: any, userId: string, emailId: string): Promise<Set<string>> {
+  const { data: email } = await supabase
+    .from('processed_emails')
+    .select('gmail_message_id')
+    .eq('id', emailId)
+    .maybeSingle();
+
+  if (!email?.gmail_message_id) {
+    return new Set();
+  }
+
+  const { data, error } = await supabase
+    .from('event_suppressions')
+    .select('title_key, event_date')
+    .eq('user_id', userId)
+    .eq('gmail_message_id', email.gmail_message_id);
+
+  if (error) {
+    console.error('Failed to load suppressed events, none will be skipped:', error);
+    return new Set();
+  }
+
+  return new Set((data || []).map((row: any) => `${row.title_key}:${row.event_date}`));
+}
+
+// Deleted events of one stored email, as suppressionKey values. Restoring an
+// event lifts this.
+export async function loadDeletedEventKeys(supabase: any, emailId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('extracted_dates')
+    .select('event_title, event_date')
+    .eq('email_id', emailId)
+    .not('deleted_at', 'is', null);
+
+  if (error) {
+    console.error('Failed to load deleted events, extraction may add them back:', error);
+    return new Set();
+  }
+
+  return new Set((data || []).map((event: any) => suppressionKey(event.event_title, event.event_date)));
+}
+
+// `event` is an extracted_dates row with processed_emails(gmail_message_id).
+// Manual events have no email that could bring them back and are not recorded.
+export async function suppressEvent(supabase: any, event: any, reason: SuppressionReason) {
+  if (!event.processed_emails?.gmail_message_id) {
+    return;
+  }
+
+  const { error } = await supabase
+    .from('event_suppressions')
+    .upsert({
+      user_id: event.user_id,
+      gmail_message_id: event.processed_emails.gmail_message_id,
+      title_key: titleKey(event.event_title),
+      event_title: event.event_title,
+      event_date: event.event_date,
+      reason
+    }, {
+      onConflict: 'user_id,gmail_message_id,title_key,event_date'
+    });
+
+  if (error) {
+    throw new Error(`Failed to suppress event: ${error.message}`);
+  }
+}
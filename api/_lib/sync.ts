@@ -0,0 +1,684 @@
+import crypto from 'crypto';
+import { GmailService, GmailTokens, matchesEmailSource } from './gmail.js';
+import { cleanupDuplicateEvents } from './events.js';
+import { enqueueEmailJob, updateSessionTotals } from './jobs.js';
+import { createOcrEngine, extractAttachmentTexts } from './attachments.js';
+import { collectCalendarData, parseCalendarEvents } from './ics.js';
+import { storeCalendarEvents } from './extraction.js';
+import { discardReprocessChanges } from './reprocess.js';
+
+// Gmail position of a sync run, stored on sync_sessions.sync_cursor so a run
+// that stops at the time budget can be resumed by the next invocation
+interface SyncCursor {
+  mode: 'history' | 'full_scan';
+  query?: string; // Search query for full scans
+  startHistoryId?: string; // History replay starting point for incremental syncs
+  checkpointHistoryId: string; // Stored on the user once the run completes
+  pageToken: string | null; // Next page to fetch, null before the first page
+  pagesCompleted: number;
+}
+
+// Interrupted sessions older than this are abandoned and a fresh run starts
+const SYNC_RESUME_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// A reprocess scans this many days of history, regardless of the sync lookback
+export const REPROCESS_LOOKBACK_DAYS = 90;
+
+export type SyncSessionType = 'sync' | 'reprocess' | 'scheduled';
+
+export interface EmailSyncOptions {
+  userId: string;
+  accessToken: string;
+  refreshToken?: string;
+  forceReprocess?: boolean;
+  lookbackDays?: number;
+  sessionType?: SyncSessionType; // Defaults to 'reprocess' or 'sync' based on forceReprocess
+  timeBudgetMs?: number; // Defaults to SYNC_TIME_BUDGET_MS
+  onTokensRefreshed?: (tokens: GmailTokens) => Promise<void>; // Persist a refreshed access token
+}
+
+export interface EmailSyncResult {
+  statusCode: number;
+  body: Record<string, any>;
+}
+
+// Retrieve new emails for one user and queue them for extraction.
+// Shared by the /api/sync-emails endpoint and the scheduled sync runner.
+export async function runEmailSync(
+  supabase: any,
+  gmailService: GmailService,
+  options: EmailSyncOptions
+): Promise<EmailSyncResult> {
+  const { userId, accessToken: initialAccessToken, refreshToken, forceReprocess = false, lookbackDays } = options;
+
+  // Resume an interrupted run of the same type instead of starting over.
+  // A run that stops at the time budget leaves its Gmail cursor on the session row.
+  console.log('Looking for an interrupted sync session to resume...');
+  let sessionId: string | null = null;
+  let resumedCursor: SyncCursor | null = null;
+  const previousTotals = {
+    emails: 0,
+    duplicatesRemoved: 0,
+    skippedEmails: 0
+  };
+  const sessionType: SyncSessionType = options.sessionType || (forceReprocess ? 'reprocess' : 'sync');
+
+  try {
+    const resumeWindowStart = new Date(Date.now() - SYNC_RESUME_WINDOW_MS).toISOString();
+    const { data: interruptedSession } = await supabase
+      .from('sync_sessions')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('session_type', sessionType)
+      .is('completed_at', null)
+      .not('sync_cursor', 'is', null)
+      .gte('started_at', resumeWindowStart)
+      .order('started_at', { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    if (interruptedSession) {
+      sessionId = interruptedSession.id;
+      resumedCursor = interruptedSession.sync_cursor as SyncCursor;
+      previousTotals.emails = interruptedSession.total_emails_processed || 0;
+      previousTotals.duplicatesRemoved = interruptedSession.duplicates_removed || 0;
+      previousTotals.skippedEmails = interruptedSession.skipped_duplicate_emails || 0;
+      console.log(`Resuming sync session ${sessionId} (${resumedCursor.mode}, ${resumedCursor.pagesCompleted} pages done)`);
+    }
+  } catch (error) {
+    console.warn('Interrupted session lookup failed (sync_cursor column may not exist):', error);
+  }
+
+  // Create a new sync session to track this processing run (optional)
+  if (!resumedCursor) {
+    console.log('Attempting to create sync session...');
+    try {
+      const { data: syncSession, error: sessionError } = await supabase
+        .from('sync_sessions')
+        .insert({
+          user_id: userId,
+          session_type: sessionType,
+          lookback_days: lookbackDays || parseInt(process.env.EMAIL_LOOKBACK_DAYS || '7'),
+          processing_mode: process.env.ENABLE_BATCH_PROCESSING === 'true' ? 'batch' : 'single'
+        })
+        .select()
+        .single();
+
+      if (sessionError || !syncSession) {
+        console.warn(`Failed to create sync session: ${sessionError?.message || 'Unknown error'}`);
+        console.warn('Continuing sync without session tracking...');
+      } else {
+        sessionId = syncSession.id;
+        console.log(`Created sync session ${sessionId} (${sessionType})`);
+      }
+    } catch (error) {
+      console.warn('Sync session creation failed (table may not exist):', error);
+      console.warn('Continuing sync without session tracking...');
+    }
+  }
+
+  // Duplicate events removed by the routine cleanup of a normal sync
+  let cleanupCount = 0;
+
+  // A reprocess leaves events and processed emails in place: each email's new
+  // extraction is staged as a diff for the user to apply (see reprocess.ts).
+  // Changes left from an earlier reprocess are dropped when a new one starts;
+  // a resumed reprocess already did that on its first invocation.
+  if (forceReprocess && !resumedCursor) {
+    const discarded = await discardReprocessChanges(supabase, userId);
+    if (discarded > 0) {
+      console.log(`Discarded ${discarded} pending changes of an earlier reprocess`);
+    }
+  }
+
+  // Handle token refresh if needed
+  let accessToken = initialAccessToken;
+  let tokenRefreshed = false;
+
+  const refreshAccessToken = async (): Promise<string> => {
+    const refreshedTokens = await gmailService.refreshAccessToken(refreshToken!);
+    tokenRefreshed = true;
+    if (options.onTokensRefreshed) {
+      await options.onTokensRefreshed(refreshedTokens);
+    }
+    return refreshedTokens.accessToken;
+  };
+  
+  const validateAndRefreshToken = async (token: string): Promise<string> => {
+    try {
+      // Test Gmail API access specifically with a simple call
+      const testResponse = await fetch('https://gmail.googleapis.com/gmail/v1/users/me/profile', {
+        headers: {
+          'Authorization': `Bearer ${token}`,
+        },
+      });
+
+      if (testResponse.ok) {
+        return token; // Token is valid
+      }
+
+      // If token is invalid and we have a refresh token, try to refresh
+      if ((testResponse.status === 401 || testResponse.status === 403) && refreshToken && !tokenRefreshed) {
+        console.log('Access token invalid, attempting refresh...');
+        const refreshedAccessToken = await refreshAccessToken();
+        console.log('Token refreshed successfully');
+        return refreshedAccessToken;
+      }
+
+      throw new Error(`Gmail API access failed: ${testResponse.status} ${testResponse.statusText}`);
+    } catch (error) {
+      console.error('Token validation error:', error);
+      
+      // Try refresh token as last resort
+      if (refreshToken && !tokenRefreshed) {
+        try {
+          console.log('Attempting token refresh as last resort...');
+          const refreshedAccessToken = await refreshAccessToken();
+          console.log('Token refreshed successfully');
+          return refreshedAccessToken;
+        } catch (refreshError) {
+          console.error('Token refresh failed:', refreshError);
+          throw new Error('Authentication failed - unable to refresh Gmail access token');
+        }
+      }
+      
+      throw error;
+    }
+  };
+
+  try {
+    accessToken = await validateAndRefreshToken(accessToken);
+  } catch (authError) {
+    console.error('Authentication error:', authError);
+    return {
+      statusCode: 401,
+      body: {
+        error: 'Authentication failed',
+        message: authError instanceof Error ? authError.message : 'Gmail API access denied'
+      }
+    };
+  }
+
+  // Get email sources for the user
+  const { data: emailSources, error: sourcesError } = await supabase
+    .from('email_sources')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('is_active', true);
+
+  if (sourcesError) {
+    throw new Error(`Failed to fetch email sources: ${sourcesError.message}`);
+  }
+
+  if (!emailSources || emailSources.length === 0) {
+    return {
+      statusCode: 200,
+      body: {
+        message: 'No email sources configured',
+        processed: 0,
+        duplicatesRemoved: cleanupCount
+      }
+    };
+  }
+
+  // Build Gmail search query with configurable lookback window
+  const sourceEmails = emailSources.map(source => source.email);
+  
+  // Get configurable lookback days with reasonable limits
+  const configuredLookbackDays = lookbackDays || parseInt(process.env.EMAIL_LOOKBACK_DAYS || '7');
+  const maxLookbackDays = 30; // Maximum 30 days to prevent API abuse
+  const minLookbackDays = 1;  // Minimum 1 day
+  
+  // Clamp the configured value within reasonable bounds
+  const safeLookbackDays = Math.max(minLookbackDays, Math.min(maxLookbackDays, configuredLookbackDays));
+
+  const buildScanQuery = () => {
+    // For reprocess, look back further to find historical emails to reprocess
+    // For normal sync, use the configured lookback window
+    if (forceReprocess) {
+      console.log(`Reprocess mode: Using ${REPROCESS_LOOKBACK_DAYS}-day lookback to find historical emails`);
+      return `from:(${sourceEmails.join(' OR ')}) newer_than:${REPROCESS_LOOKBACK_DAYS}d`;
+    }
+    console.log(`Using sync mode: ${safeLookbackDays}-day lookback (user requested: ${lookbackDays || 'default'}, configured: ${configuredLookbackDays})`);
+    return `from:(${sourceEmails.join(' OR ')}) newer_than:${safeLookbackDays}d`;
+  };
+
+  let cursor: SyncCursor;
+
+  if (resumedCursor) {
+    cursor = resumedCursor;
+  } else {
+    // Capture the mailbox checkpoint before listing anything, so mail that arrives
+    // while this sync runs is picked up by the next incremental sync
+    const profile = await gmailService.getProfile(accessToken);
+    console.log(`Current Gmail historyId: ${profile.historyId}`);
+
+    // Load the checkpoint stored by the previous successful sync
+    let storedHistoryId: string | null = null;
+    try {
+      const { data: userRecord, error: userError } = await supabase
+        .from('users')
+        .select('gmail_history_id')
+        .eq('id', userId)
+        .single();
+
+      if (userError) {
+        console.warn(`Failed to load Gmail history checkpoint: ${userError.message}`);
+      } else {
+        storedHistoryId = userRecord?.gmail_history_id || null;
+      }
+    } catch (error) {
+      console.warn('Gmail history checkpoint lookup failed (column may not exist):', error);
+    }
+
+    // Incremental sync replays mailbox changes since the last checkpoint;
+    // first syncs and reprocessing scan the lookback window instead
+    cursor = storedHistoryId && !forceReprocess
+      ? { mode: 'history', startHistoryId: storedHistoryId, checkpointHistoryId: profile.historyId, pageToken: null, pagesCompleted: 0 }
+      : { mode: 'full_scan', query: buildScanQuery(), checkpointHistoryId: profile.historyId, pageToken: null, pagesCompleted: 0 };
+
+    // For normal sync (not reprocess), perform routine duplicate cleanup once per session
+    if (!forceReprocess) {
+      console.log('Performing routine duplicate cleanup...');
+      cleanupCount = await cleanupDuplicateEvents(supabase, userId);
+    }
+  }
+
+  console.log(`Searching for emails FROM ${sourceEmails.length} configured sources: ${sourceEmails.join(', ')}`);
+
+  // Persist where this run got to, so the next invocation can pick up from there
+  const saveSessionProgress = async (complete: boolean) => {
+    if (!sessionId) {
+      return;
+    }
+
+    try {
+      await supabase
+        .from('sync_sessions')
+        .update({
+          total_emails_processed: previousTotals.emails + processedEmails.length,
+          duplicates_removed: previousTotals.duplicatesRemoved + cleanupCount,
+          skipped_duplicate_emails: previousTotals.skippedEmails + skippedDuplicateEmails,
+          sync_cursor: complete ? null : cursor,
+          ...(complete && {
+            completed_at: new Date().toISOString(),
+            success_status: true
+          })
+        })
+        .eq('id', sessionId);
+
+      // Cost and event totals, including calendar invites imported during this run
+      await updateSessionTotals(supabase, sessionId);
+    } catch (updateError) {
+      console.warn('Failed to update sync session:', updateError);
+    }
+  };
+
+  const processedEmails: any[] = [];
+  let jobsEnqueued = 0;
+  let skippedDuplicateEmails = 0;
+  let calendarEventsStored = 0;
+  const ocrEngine = createOcrEngine();
+
+  // Fetch, store and enqueue extraction for one page of Gmail messages
+  const processMessagePage = async (messageRefs: Array<{ id: string }>) => {
+    console.log(`Starting to process ${messageRefs.length} messages...`);
+
+    // Store each new email and queue it for extraction
+    for (let i = 0; i < messageRefs.length; i++) {
+      const messageRef = messageRefs[i];
+      console.log(`Processing email ${i + 1}/${messageRefs.length}, ID: ${messageRef.id}`);
+    
+      try {
+        // Get full message details with retry logic for token refresh
+        console.log(`Fetching message details for ${messageRef.id}...`);
+        let message;
+        try {
+          message = await gmailService.getMessage(accessToken, messageRef.id);
+          console.log(`Successfully fetched message ${messageRef.id}`);
+        } catch (gmailError) {
+          // If Gmail API call fails with auth error, try to refresh token once
+          if (gmailError instanceof Error && 
+              (gmailError.message.includes('expired') || gmailError.message.includes('invalid') || gmailError.message.includes('forbidden')) &&
+              refreshToken && !tokenRefreshed) {
+            console.log('Gmail API call failed, attempting token refresh...');
+            try {
+              accessToken = await refreshAccessToken();
+              console.log('Token refreshed, retrying Gmail API call...');
+              message = await gmailService.getMessage(accessToken, messageRef.id);
+            } catch (refreshError) {
+              console.error('Token refresh failed during processing:', refreshError);
+              throw gmailError; // Re-throw original error
+            }
+          } else {
+            throw gmailError;
+          }
+        }
+      
+        // Extract content
+        const { subject, body, from, date } = gmailService.extractTextFromMessage(message);
+        console.log(`Extracted content - Subject: "${subject}", From: "${from}", Body length: ${body.length} chars`);
+      
+        // Create content hash for deduplication
+        const contentHash = crypto
+          .createHash('md5')
+          .update(subject + body + from + date)
+          .digest('hex');
+
+        console.log(`Checking for existing email with ID: ${messageRef.id}`);
+        // Check if email is already processed (unless force reprocess is enabled)
+        if (!forceReprocess) {
+          const { data: existingEmail } = await supabase
+            .from('processed_emails')
+            .select('id, processing_status')
+            .eq('gmail_message_id', messageRef.id)
+            .single();
+
+          // 'retrieved' means a previous run was cut off before extraction, so pick it up again
+          if (existingEmail && existingEmail.processing_status !== 'retrieved') {
+            console.log(`Email ${messageRef.id} already processed, skipping...`);
+            skippedDuplicateEmails++;
+            continue; // Skip already processed emails
+          }
+
+          // Also check by content hash for more robust deduplication
+          const { data: existingByHash } = await supabase
+            .from('processed_emails')
+            .select('id, processing_status')
+            .eq('content_hash', contentHash)
+            .eq('user_id', userId)
+            .neq('gmail_message_id', messageRef.id)
+            .limit(1)
+            .maybeSingle();
+
+          if (existingByHash && existingByHash.processing_status !== 'retrieved') {
+            console.log(`Email with same content already processed, skipping...`);
+            skippedDuplicateEmails++;
+            continue;
+          }
+        }
+
+        // Read PDF and image attachments now, while we hold a Gmail token
+        const attachments = await extractAttachmentTexts(gmailService, accessToken, message, ocrEngine);
+
+        console.log(`Email ${messageRef.id} is new, storing in database...`);
+        // Store processed email (or update if force reprocessing) with initial processing info
+        const { data: processedEmail, error: emailError } = await supabase
+          .from('processed_emails')
+          .upsert({
+            user_id: userId,
+            gmail_message_id: messageRef.id,
+            sender_email: from,
+            subject: subject,
+            sent_date: new Date(date).toISOString(),
+            content_hash: contentHash,
+            has_attachments: message.payload.parts?.some((part: any) => part.filename) || false,
+            processed_at: new Date().toISOString(),
+            // Add processing tracking fields
+            processing_status: 'retrieved',
+            processing_started_at: new Date().toISOString(),
+            email_body_preview: body.substring(0, 500), // Store preview for dashboard
+            session_id: sessionId
+          }, {
+            onConflict: 'gmail_message_id'
+          })
+          .select()
+          .single();
+
+        if (emailError) {
+          console.error('Error storing email:', emailError);
+          continue;
+        }
+
+        console.log(`Successfully stored email ${messageRef.id} in database`);
+        processedEmails.push(processedEmail);
+
+        // Calendar invites and .ics files are imported as-is, without the LLM
+        const calendars = await collectCalendarData(gmailService, accessToken, message);
+        if (calendars.length > 0) {
+          const calendarEvents = calendars.flatMap(calendar =>
+            parseCalendarEvents(calendar.text, { notBefore: new Date(date) })
+          );
+          const imported = await storeCalendarEvents(supabase, {
+            userId,
+            sessionId,
+            emailId: processedEmail.id,
+            events: calendarEvents,
+            keepExisting: forceReprocess
+          });
+          calendarEventsStored += imported.eventsStored;
+          console.log(`Imported ${imported.eventsStored} calendar events (${imported.eventsCancelled} cancelled) from ${calendars.length} calendar parts`);
+
+          // A meeting invite is fully described by its VEVENT, so only emails with
+          // other content (a newsletter with an .ics attached) still go to extraction
+          const isInvitation = calendars.some(calendar => calendar.filename === null);
+          if (isInvitation && attachments.length === 0) {
+            await supabase
+              .from('processed_emails')
+              .update({
+                processing_status: 'completed',
+                processing_completed_at: new Date().toISOString(),
+                events_extracted_count: calendarEvents.filter(event => !event.cancelled).length,
+                average_confidence_score: 1.0,
+                processing_cost: 0,
+                had_date_content: calendarEvents.length > 0,
+                extraction_successful: true,
+                llm_providers_used: 'ics'
+              })
+              .eq('id', processedEmail.id);
+            continue;
+          }
+        }
+
+        // Hand extraction off to the job queue so a slow LLM call never blocks the sync
+        const enqueued = await enqueueEmailJob(supabase, {
+          userId,
+          sessionId,
+          emailId: processedEmail.id,
+          payload: {
+            content: {
+              subject,
+              body,
+              senderEmail: from,
+              sentDate: date
+            },
+            attachments,
+            forceReprocess
+          }
+        });
+
+        if (enqueued) {
+          jobsEnqueued++;
+          await supabase
+            .from('processed_emails')
+            .update({ processing_status: 'queued' })
+            .eq('id', processedEmail.id);
+        }
+
+        console.log(`Completed processing email ${i + 1}/${messageRefs.length}`);
+        // Small delay to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, 100));
+
+      } catch (error) {
+        console.error(`Error processing email ${messageRef.id}:`, error);
+      
+        // Store failed processing history
+        if (processedEmails.length > 0) {
+          try {
+            await supabase
+              .from('processing_history')
+              .insert({
+                user_id: userId,
+                session_id: sessionId,
+                email_id: processedEmails[processedEmails.length - 1].id,
+                llm_provider: 'gmail',
+                model_name: null,
+                processing_step: 'email_retrieval',
+                processing_time: 0,
+                input_tokens: 0,
+                output_tokens: 0,
+                token_usage: 0,
+                cost: 0,
+                success_status: false,
+                retry_count: 0,
+                error_message: error instanceof Error ? error.message : 'Unknown error'
+              });
+          } catch (historyError) {
+            console.warn('Failed to store Gmail error processing history:', historyError);
+          }
+        }
+      }
+    }
+  };
+
+  // Walk every page of results until Gmail runs out or the time budget is spent.
+  // Pages are the unit of progress: a page is always finished before stopping.
+  const syncStartTime = Date.now();
+  const timeBudgetMs = options.timeBudgetMs ?? parseInt(process.env.SYNC_TIME_BUDGET_MS || '240000');
+  const pageSize = parseInt(process.env.GMAIL_PAGE_SIZE || '10');
+  let syncComplete = false;
+
+  while (!syncComplete) {
+    let pageRefs: Array<{ id: string }> = [];
+    let nextPageToken: string | undefined;
+
+    if (cursor.mode === 'history') {
+      const historyPage = await gmailService.listHistory(accessToken, {
+        startHistoryId: cursor.startHistoryId!,
+        pageToken: cursor.pageToken || undefined,
+        maxResults: pageSize
+      });
+
+      if (!historyPage) {
+        console.log('Gmail history expired, falling back to a full scan of the lookback window');
+        cursor = { ...cursor, mode: 'full_scan', query: buildScanQuery(), startHistoryId: undefined, pageToken: null };
+        continue;
+      }
+
+      // History covers the whole mailbox - only keep messages from configured senders
+      for (const messageId of historyPage.messageIds) {
+        try {
+          const metadata = await gmailService.getMessage(accessToken, messageId, 'metadata');
+          const fromHeader = metadata.payload?.headers?.find((h: any) => h.name.toLowerCase() === 'from')?.value || '';
+          if (matchesEmailSource(fromHeader, sourceEmails)) {
+            pageRefs.push({ id: messageId });
+          }
+        } catch (error) {
+          // Messages can be deleted between the history entry and this lookup
+          console.warn(`Skipping history message ${messageId}:`, error);
+        }
+      }
+      nextPageToken = historyPage.nextPageToken;
+    } else {
+      console.log(`Gmail search query: ${cursor.query} (page ${cursor.pagesCompleted + 1})`);
+      const messagesResponse = await gmailService.listMessages(accessToken, {
+        maxResults: pageSize,
+        pageToken: cursor.pageToken || undefined,
+        q: cursor.query
+      });
+      pageRefs = messagesResponse.messages;
+      nextPageToken = messagesResponse.nextPageToken;
+    }
+
+    console.log(`Gmail API returned ${pageRefs.length} messages (${cursor.mode}, page ${cursor.pagesCompleted + 1})`);
+
+    if (pageRefs.length > 0) {
+      await processMessagePage(pageRefs);
+    }
+
+    cursor = { ...cursor, pageToken: nextPageToken || null, pagesCompleted: cursor.pagesCompleted + 1 };
+    syncComplete = !nextPageToken;
+
+    if (!syncComplete && Date.now() - syncStartTime > timeBudgetMs) {
+      console.log(`Time budget of ${timeBudgetMs}ms spent after ${cursor.pagesCompleted} pages, pausing sync`);
+      break;
+    }
+
+    await saveSessionProgress(syncComplete);
+  }
+
+  console.log(`Finished retrieving ${syncComplete ? 'all' : 'this run\'s'} emails. Total stored: ${processedEmails.length}, Jobs enqueued: ${jobsEnqueued}, Skipped duplicate emails: ${skippedDuplicateEmails}`);
+
+  if (!syncComplete) {
+    await saveSessionProgress(false);
+
+    return {
+      statusCode: 200,
+      body: {
+        message: 'Email sync paused before the time limit, call again to resume',
+        partial: true,
+        sessionId,
+        sessionType,
+        syncMode: cursor.mode,
+        pagesCompleted: cursor.pagesCompleted,
+        processed: processedEmails.length,
+        jobsEnqueued,
+        calendarEventsStored,
+        duplicatesRemoved: cleanupCount,
+        skippedDuplicateEmails,
+        forceReprocess,
+        emails: processedEmails
+      }
+    };
+  }
+
+  // Advance the checkpoint now that every message up to it has been handled
+  try {
+    const { error: checkpointError } = await supabase
+      .from('users')
+      .update({ gmail_history_id: cursor.checkpointHistoryId })
+      .eq('id', userId);
+
+    if (checkpointError) {
+      console.warn(`Failed to store Gmail history checkpoint: ${checkpointError.message}`);
+    }
+  } catch (error) {
+    console.warn('Failed to store Gmail history checkpoint:', error);
+  }
+
+  // Update user's last sync timestamp
+  await supabase
+    .from('users')
+    .update({ last_sync_at: new Date().toISOString() })
+    .eq('id', userId);
+
+  console.log(`Updated user last sync timestamp${sessionId ? ' and sync session' : ' (no session tracking)'}`);
+
+  // Events are extracted by the job worker; the client polls email_jobs for progress
+  const responseMessage = forceReprocess 
+    ? 'Emails retrieved for reprocessing, extraction jobs queued'
+    : 'Email sync completed, extraction jobs queued';
+
+  // Calculate final statistics
+  const finalStats = {
+    message: responseMessage,
+    processed: processedEmails.length,
+    jobsEnqueued,
+    calendarEventsStored,
+    duplicatesRemoved: cleanupCount,
+    skippedDuplicateEmails,
+    forceReprocess,
+    sessionId,
+    sessionType,
+    syncMode: cursor.mode,
+    resumed: !!resumedCursor,
+    pagesCompleted: cursor.pagesCompleted,
+    historyId: cursor.checkpointHistoryId,
+    processingMode: process.env.ENABLE_BATCH_PROCESSING === 'true' ? 'batch' : 'single',
+    lookbackConfiguration: {
+      requestedDays: parseInt(process.env.EMAIL_LOOKBACK_DAYS || '7'),
+      actualDays: forceReprocess ? REPROCESS_LOOKBACK_DAYS : safeLookbackDays,
+      usedInQuery: `${forceReprocess ? REPROCESS_LOOKBACK_DAYS : safeLookbackDays}d`,
+      maxAllowed: 30,
+      reprocessMode: forceReprocess
+    },
+    costOptimization: {
+      prefilterEnabled: true,
+      confidenceThreshold: parseFloat(process.env.CONFIDENCE_THRESHOLD || '0.7'),
+      tieredProcessing: true
+    },
+    emails: processedEmails
+  };
+
+  return { statusCode: 200, body: finalStats };
+}
@@ -0,0 +1,224 @@
+import crypto from 'crypto';
+
+// Server-side vault for each user's Google OAuth tokens (Gmail + Calendar).
+// Envelope encryption: every user_tokens row has its own random data key that
+// encrypts the tokens with AES-256-GCM; the data key itself is wrapped with a
+// master key from TOKEN_ENCRYPTION_KEYS. Rotating the master key only rewraps
+// the data keys. The table has no RLS policies, so only the service role reads it.
+
+export interface StoredTokens {
+  accessToken: string | null;
+  refreshToken: string | null;
+  expiresAt: string | null;
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const IV_BYTES = 12;
+
+// TOKEN_ENCRYPTION_KEYS="k2:<base64 32 bytes>,k1:<base64 32 bytes>"; the first key
+// encrypts, every listed key can still decrypt until rows are rewrapped.
+function getMasterKeys(): MasterKey[] {
+  const raw = process.env.TOKEN_ENCRYPTION_KEYS;
+  if (!raw) {
+    throw new Error('Missing TOKEN_ENCRYPTION_KEYS: the token vault is not configured');
+  }
+
+  return raw.split(',').map(entry => {
+    const [id, encoded] = entry.trim().split(':');
+    const key = Buffer.from(encoded || '', 'base64');
+    if (!id || key.length !== 32) {
+      throw new Error(`Invalid TOKEN_ENCRYPTION_KEYS entry "${id || entry}": expected <id>:<base64 32-byte key>`);
+    }
+    return { id, key };
+  });
+}
+
+function findMasterKey(keyId: string): MasterKey {
+  const masterKey = getMasterKeys().find(candidate => candidate.id === keyId);
+  if (!masterKey) {
+    throw new Error(`Token vault key "${keyId}" is no longer configured`);
+  }
+  return masterKey;
+}
+
+// Serialized as base64 iv.ciphertext.tag
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return [iv, ciphertext, cipher.getAuthTag()].map(part => part.toString('base64')).join('.');
+}
+
+function decrypt(key: Buffer, sealed: string): Buffer {
+  const [iv, ciphertext, tag] = sealed.split('.').map(part => Buffer.from(part, 'base64'));
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+function sealTokens(tokens: StoredTokens) {
+  const [masterKey] = getMasterKeys();
+  const dataKey = crypto.randomBytes(32);
+
+  return {
+    access_token_ciphertext: tokens.accessToken ? encrypt(dataKey, Buffer.from(tokens.accessToken, 'utf8')) : null,
+    refresh_token_ciphertext: tokens.refreshToken ? encrypt(dataKey, Buffer.from(tokens.refreshToken, 'utf8')) : null,
+    wrapped_data_key: encrypt(masterKey.key, dataKey),
+    key_id: masterKey.id,
+    access_token_expires_at: tokens.expiresAt
+  };
+}
+
+function openTokens(row: any): StoredTokens {
+  const dataKey = decrypt(findMasterKey(row.key_id).key, row.wrapped_data_key);
+
+  return {
+    accessToken: row.access_token_ciphertext ? decrypt(dataKey, row.access_token_ciphertext).toString('utf8') : null,
+    refreshToken: row.refresh_token_ciphertext ? decrypt(dataKey, row.refresh_token_ciphertext).toString('utf8') : null,
+    expiresAt: row.access_token_expires_at || null
+  };
+}
+
+// Store tokens for a user. A missing refresh token keeps the one already stored,
+// since Google only returns it on the first consent.
+export async function saveUserTokens(
+  supabase: any,
+  userId: string,
+  tokens: { accessToken: string; refreshToken?: string | null; expiresAt?: string | null }
+): Promise<void> {
+  const existing = tokens.refreshToken ? null : await loadUserTokens(supabase, userId);
+
+  await writeTokens(supabase, userId, {
+    accessToken: tokens.accessToken,
+    refreshToken: tokens.refreshToken || existing?.refreshToken || null,
+    expiresAt: tokens.expiresAt || null
+  });
+}
+
+// Seal and store tokens as given, without looking up the stored refresh token
+async function writeTokens(supabase: any, userId: string, tokens: StoredTokens): Promise<void> {
+  const { error } = await supabase
+    .from('user_tokens')
+    .upsert({
+      user_id: userId,
+      ...sealTokens(tokens),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+  if (error) {
+    throw new Error(`Failed to store tokens: ${error.message}`);
+  }
+}
+
+// Decrypt a user's tokens. Rows still wrapped with an older master key are
+// rewrapped on the way out; plaintext tokens left in users from before the vault
+// are moved into it and cleared.
+export async function loadUserTokens(supabase: any, userId: string): Promise<StoredTokens | null> {
+  const { data: row, error } = await supabase
+    .from('user_tokens')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load tokens: ${error.message}`);
+  }
+
+  if (row) {
+    const tokens = openTokens(row);
+    if (row.key_id !== getMasterKeys()[0].id) {
+      await rewrapRow(supabase, row);
+    }
+    return tokens;
+  }
+
+  const { data: legacy, error: legacyError } = await supabase
+    .from('users')
+    .select('gmail_token, gmail_refresh_token')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (legacyError || !legacy?.gmail_token) {
+    return null;
+  }
+
+  const legacyTokens: StoredTokens = {
+    accessToken: legacy.gmail_token,
+    refreshToken: legacy.gmail_refresh_token || null,
+    expiresAt: null
+  };
+
+  // Written directly: saveUserTokens would come back here to look up a refresh
+  // token when the legacy row has none
+  await writeTokens(supabase, userId, legacyTokens);
+  await supabase
+    .from('users')
+    .update({ gmail_token: null, gmail_refresh_token: null })
+    .eq('id', userId);
+  console.log(`Moved plaintext tokens of user ${userId} into the token vault`);
+
+  return legacyTokens;
+}
+
+export async function deleteUserTokens(supabase: any, userId: string): Promise<void> {
+  const { error } = await supabase
+    .from('user_tokens')
+    .delete()
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to delete tokens: ${error.message}`);
+  }
+
+  await supabase
+    .from('users')
+    .update({ gmail_token: null, gmail_refresh_token: null })
+    .eq('id', userId);
+}
+
+// Re-encrypt a row's data key with the current master key; the token ciphertexts stay as they are
+async function rewrapRow(supabase: any, row: any): Promise<void> {
+  const [masterKey] = getMasterKeys();
+  const dataKey = decrypt(findMasterKey(row.key_id).key, row.wrapped_data_key);
+
+  const { error } = await supabase
+    .from('user_tokens')
+    .update({
+      wrapped_data_key: encrypt(masterKey.key, dataKey),
+      key_id: masterKey.id,
+      updated_at: new Date().toISOString()
+    })
+    .eq('user_id', row.user_id)
+    .eq('key_id', row.key_id);
+
+  if (error) {
+    throw new Error(`Failed to rewrap tokens of user ${row.user_id}: ${error.message}`);
+  }
+}
+
+// Rewrap up to `limit` rows that are not on the current master key. Returns how
+// many were rewrapped; once it returns 0 the old key can be removed.
+export async function rotateTokenKeys(supabase: any, limit: number = 100): Promise<number> {
+  const [masterKey] = getMasterKeys();
+
+  const { data: rows, error } = await supabase
+    .from('user_tokens')
+    .select('user_id, key_id, wrapped_data_key')
+    .neq('key_id', masterKey.id)
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load tokens for rotation: ${error.message}`);
+  }
+
+  for (const row of rows || []) {
+    await rewrapRow(supabase, row);
+  }
+
+  return (rows || []).length;
+}
@@ -1,7 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
@@ -16,10 +17,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       process.env.SUPABASE_SERVICE_KEY
     );
 
-    const { userId } = req.query;
-    if (!userId) {
-      return res.status(400).json({ error: 'Missing userId parameter' });
-    }
+    const userId = auth.userId!;
 
     console.log('Checking processing_history table...');
 
@@ -74,4 +72,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler);
@@ -1,6 +1,9 @@
 import { VercelRequest, VercelResponse } from '@vercel/node';
 import { createClient } from '@supabase/supabase-js';
-import { prompts } from '../config/prompts.js';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { prompts, promptVersions } from '../config/prompts.js';
+import { completionCost } from './_lib/pricing.js';
+import { CompletionResult, LLMProvider, loadProviderPreference, resolveStageProvider } from './_lib/providers.js';
 
 const supabaseUrl = process.env.SUPABASE_URL!;
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_KEY!;
@@ -28,7 +31,9 @@ interface SummaryResponse {
 }
 
 interface SummaryProvider {
-  summarizeEmail(emailContent: EmailContent): Promise<SummaryResponse>;
+  readonly llm: LLMProvider;
+  // The completion carries the model that ran and its token usage
+  summarizeEmail(emailContent: EmailContent): Promise<{ summary: SummaryResponse; completion: CompletionResult }>;
 }
 
 interface CachedSummary {
@@ -106,69 +111,42 @@ function htmlToText(html: string): string {
     .trim();
 }
 
-// OpenAI Service (same as original)
-class OpenAIService implements SummaryProvider {
-  private apiKey: string;
-  private model: string;
+// Summary generation on whichever provider the summary stage resolves to
+class SummaryService implements SummaryProvider {
+  readonly llm: LLMProvider;
 
-  constructor(apiKey: string, model: string = 'gpt-4o-mini') {
-    this.apiKey = apiKey;
-    this.model = model;
+  constructor(llm: LLMProvider) {
+    this.llm = llm;
   }
 
-  async summarizeEmail(emailContent: EmailContent): Promise<SummaryResponse> {
+  async summarizeEmail(emailContent: EmailContent): Promise<{ summary: SummaryResponse; completion: CompletionResult }> {
     const prompt = this.createSummaryPrompt(emailContent);
 
     try {
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${this.apiKey}`
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: [
-            {
-              role: 'system',
-              content: 'You are an AI assistant that creates comprehensive, clean summaries of school emails. Focus on extracting key information, important dates, and actionable items in a well-structured format.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.2,
-          max_tokens: 1500
-        })
+      const completion = await this.llm.complete({
+        system: 'You are an AI assistant that creates comprehensive, clean summaries of school emails. Focus on extracting key information, important dates, and actionable items in a well-structured format.',
+        prompt,
+        temperature: 0.2,
+        maxTokens: 1500,
+        json: true
       });
 
-      if (!response.ok) {
-        throw new Error(`OpenAI API error: ${response.statusText}`);
-      }
-
-      const data = await response.json();
-      const content = data.choices[0]?.message?.content;
-
-      if (!content) {
-        throw new Error('No response content from OpenAI');
-      }
-
-      const summary = JSON.parse(content);
-      return this.validateSummaryResponse(summary);
+      const summary = JSON.parse(completion.content.replace(/```json\n?/g, '').replace(/```\n?/g, '').trim());
+      return { summary: this.validateSummaryResponse(summary), completion };
 
     } catch (error) {
-      console.error('OpenAI summary error:', error);
+      console.error(`${this.llm.name} summary error:`, error);
       throw new Error(`Failed to summarize email: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   private createSummaryPrompt(emailContent: EmailContent): string {
-    return prompts.summaryPrompt
+    const prompt = prompts.summaryPrompt
       .replace('{{sentDate}}', emailContent.sentDate)
       .replace('{{senderEmail}}', emailContent.senderEmail)
       .replace('{{subject}}', emailContent.subject)
       .replace('{{body}}', emailContent.body);
+    return this.llm.compactPrompts ? prompt + prompts.compactJsonReminder : prompt;
   }
 
   private validateSummaryResponse(summary: any): SummaryResponse {
@@ -182,49 +160,21 @@ class OpenAIService implements SummaryProvider {
   }
 }
 
-// Factory function to create summary provider
-function createSummaryProvider(provider: 'openai' = 'openai'): SummaryProvider {
-  const openaiKey = process.env.OPENAI_API_KEY;
-  if (!openaiKey) {
-    throw new Error('OpenAI API key not found in environment variables');
-  }
-  return new OpenAIService(openaiKey, 'gpt-4o-mini');
+// Factory function to create summary provider for the user's LLM preference
+async function createSummaryProvider(userId: string): Promise<SummaryProvider> {
+  const preference = await loadProviderPreference(supabase, userId);
+  return new SummaryService(resolveStageProvider('summary', preference));
 }
 
-// Calculate token usage estimate for cost tracking
-function estimateTokenUsage(emailContent: EmailContent): number {
-  const promptLength = 800; // Approximate prompt length
-  const contentLength = emailContent.subject.length + emailContent.body.length + emailContent.senderEmail.length;
-  const responseLength = 500; // Estimated response length
-  
-  // Rough token estimation (1 token ≈ 4 characters)
-  return Math.ceil((promptLength + contentLength + responseLength) / 4);
-}
-
-// Calculate cost based on token usage
-function calculateCost(tokens: number, model: string = 'gpt-4o-mini'): number {
-  // GPT-4o-mini pricing: $0.00015 per 1K input tokens, $0.0006 per 1K output tokens
-  // Simplified: assume 70% input, 30% output
-  const inputTokens = Math.ceil(tokens * 0.7);
-  const outputTokens = Math.ceil(tokens * 0.3);
-  
-  const inputCost = (inputTokens / 1000) * 0.00015;
-  const outputCost = (outputTokens / 1000) * 0.0006;
-  
-  return inputCost + outputCost;
-}
-
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    const { userId, limit = 20, offset = 0, forceRefresh = false } = req.query;
-
-    if (!userId) {
-      return res.status(400).json({ error: 'User ID is required' });
-    }
+    // The user comes from the verified session; userId in the query must match it
+    const userId = auth.userId!;
+    const { limit = 20, offset = 0, forceRefresh = false } = req.query;
 
     console.log(`Fetching summaries for user ${userId}, limit: ${limit}, offset: ${offset}`);
 
@@ -320,7 +270,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           existingSummaries.push({
             id: cachedSummary.id,
             emailId: email.id,
-            userId: userId as string,
+            userId,
             subject: email.subject,
             senderEmail: email.sender_email,
             sentDate: new Date(email.sent_date),
@@ -365,6 +315,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
     // Step 3: Generate summaries for emails that need them
     const newSummaries: CachedSummary[] = [];
+    let totalCost = 0;
 
     if (emailsNeedingSummary.length > 0) {
       console.log(`⚡ Processing ${emailsNeedingSummary.length} emails that need new summaries...`);
@@ -376,7 +327,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         emailsNeedingSummary.splice(maxConcurrentGeneration); // Keep only the first N
       }
 
-      const summaryProvider = createSummaryProvider('openai');
+      const summaryProvider = await createSummaryProvider(userId);
 
       for (const emailData of emailsNeedingSummary) {
         try {
@@ -406,9 +357,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             sentDate: emailData.sent_date
           };
 
-          const summary = await summaryProvider.summarizeEmail(emailContent);
-          const estimatedTokens = estimateTokenUsage(emailContent);
-          const estimatedCost = calculateCost(estimatedTokens);
+          const generationStart = Date.now();
+          const { summary, completion } = await summaryProvider.summarizeEmail(emailContent);
+          const generationTimeMs = Date.now() - generationStart;
+          const { inputTokens, outputTokens } = completion.usage;
+          const summaryCost = completionCost(completion);
 
           // Store the summary in database
           const { data: storedSummary, error: storeError } = await supabase
@@ -418,10 +371,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
               user_id: userId,
               summary_data: summary,
               confidence_score: summary.confidence,
-              llm_provider: 'openai',
-              model_name: 'gpt-4o-mini',
-              processing_tokens: estimatedTokens,
-              processing_cost: estimatedCost,
+              llm_provider: completion.provider,
+              model_name: completion.model,
+              processing_tokens: inputTokens + outputTokens,
+              processing_cost: summaryCost,
               content_hash: emailData.content_hash
             }, {
               onConflict: 'email_id'
@@ -436,21 +389,21 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
 
           // Log summary generation to processing_history for dashboard tracking
           try {
-            const processingStartTime = Date.now();
             const { error: historyError } = await supabase
               .from('processing_history')
               .insert({
                 user_id: userId,
                 session_id: null, // Summary generation is independent of sync sessions
                 email_id: emailData.email_id,
-                llm_provider: 'openai',
-                model_name: 'gpt-4o-mini',
+                llm_provider: completion.provider,
+                model_name: completion.model,
                 processing_step: 'email_summary',
-                processing_time: 2000, // Estimated time for summary generation (2 seconds)
-                input_tokens: Math.ceil(estimatedTokens * 0.7), // Estimated 70% input
-                output_tokens: Math.ceil(estimatedTokens * 0.3), // Estimated 30% output
-                token_usage: estimatedTokens, // Use token_usage instead of total_tokens (generated column)
-                cost: estimatedCost,
+                prompt_version: promptVersions.summaryPrompt,
+                processing_time: generationTimeMs,
+                input_tokens: inputTokens,
+                output_tokens: outputTokens,
+                token_usage: inputTokens + outputTokens, // Use token_usage instead of total_tokens (generated column)
+                cost: summaryCost,
                 success_status: true,
                 confidence_score: summary.confidence,
                 retry_count: 0,
@@ -469,11 +422,12 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           }
 
           console.log(`✅ Successfully generated and stored summary for email ${emailData.email_id}`);
+          totalCost += summaryCost;
 
           newSummaries.push({
             id: storedSummary.id,
             emailId: emailData.email_id,
-            userId: userId as string,
+            userId,
             subject: emailData.subject,
             senderEmail: emailData.sender_email,
             sentDate: new Date(emailData.sent_date),
@@ -497,13 +451,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     console.log(`Returning ${allSummaries.length} total summaries (${existingSummaries.length} cached + ${newSummaries.length} new)`);
 
     // Step 5: Add usage statistics to response
-    const totalCost = newSummaries.reduce((sum, s) => sum + (calculateCost(estimateTokenUsage({
-      subject: s.subject,
-      body: s.emailBodyPreview || '',
-      senderEmail: s.senderEmail,
-      sentDate: s.sentDate.toISOString()
-    }))), 0);
-
     res.status(200).json({ 
       summaries: allSummaries,
       metadata: {
@@ -524,3 +471,4 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 }
 
+export default withAuth(handler);
@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { applyEventEdit, loadEventRevisions, loadUserEvent, validateEventEdit } from './_lib/revisions.js';
+
+// GET ?eventId= lists the revisions of an event, oldest first. POST
+// { eventId, changes } edits the event's title, date, time, description,
+// location or children (tagIds) and stores the revision.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+
+    const userId = auth.userId!;
+    const eventId = req.method === 'GET' ? req.query.eventId : req.body?.eventId;
+    if (!eventId || typeof eventId !== 'string') {
+      return res.status(400).json({ error: 'Expected an eventId' });
+    }
+
+    if (req.method === 'GET') {
+      return res.status(200).json({ revisions: await loadEventRevisions(supabase, userId, eventId) });
+    }
+
+    const { changes } = req.body;
+    const invalid = validateEventEdit(changes);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+
+    const event = await loadUserEvent(supabase, userId, eventId);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    const updated = await applyEventEdit(supabase, event, changes);
+    if (!updated) {
+      return res.status(409).json({ error: 'Another event already has this title, date and time' });
+    }
+    return res.status(200).json({ message: 'Event updated', event: updated });
+  } catch (error) {
+    console.error('Event revisions error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler);
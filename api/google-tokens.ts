@@ -0,0 +1,75 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { deleteUserTokens, loadUserTokens, rotateTokenKeys, saveUserTokens } from './_lib/vault.js';
+
+// Token vault API. The browser hands over the Google tokens once, right after
+// the OAuth callback, and afterwards only asks whether they are stored; every
+// other route reads them server-side.
+//   GET    connection status (never the tokens themselves)
+//   POST   { accessToken, refreshToken?, expiresAt? } store tokens
+//   DELETE forget the stored tokens
+// The daily cron (CRON_SECRET) rewraps rows still on an older master key.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  try {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+
+    if (auth.cron) {
+      if (req.method !== 'GET') {
+        return res.status(405).json({ error: 'Method not allowed' });
+      }
+      const rewrapped = await rotateTokenKeys(supabase, parseInt(process.env.TOKEN_ROTATION_BATCH_SIZE || '100'));
+      console.log(`Token key rotation rewrapped ${rewrapped} rows`);
+      return res.status(200).json({ rewrapped });
+    }
+
+    const userId = auth.userId!;
+
+    switch (req.method) {
+      case 'GET': {
+        const tokens = await loadUserTokens(supabase, userId);
+        return res.status(200).json({
+          connected: !!tokens?.accessToken,
+          hasRefreshToken: !!tokens?.refreshToken,
+          expiresAt: tokens?.expiresAt || null
+        });
+      }
+
+      case 'POST': {
+        const { accessToken, refreshToken, expiresAt } = req.body || {};
+        if (!accessToken || typeof accessToken !== 'string') {
+          return res.status(400).json({ error: 'Missing required parameters' });
+        }
+
+        await saveUserTokens(supabase, userId, {
+          accessToken,
+          refreshToken: typeof refreshToken === 'string' ? refreshToken : null,
+          expiresAt: typeof expiresAt === 'string' ? expiresAt : null
+        });
+        return res.status(200).json({ connected: true });
+      }
+
+      case 'DELETE':
+        await deleteUserTokens(supabase, userId);
+        return res.status(200).json({ connected: false });
+
+      default:
+        return res.status(405).json({ error: 'Method not allowed' });
+    }
+  } catch (error) {
+    console.error('Token vault error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler, { allowCron: true });
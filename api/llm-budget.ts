@@ -0,0 +1,34 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { loadBudgetStatus } from './_lib/budget.js';
+
+// Monthly LLM budget status for the Dashboard banner. The limit and mode are
+// user settings written straight to users; spend is summed server-side.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+
+    const budget = await loadBudgetStatus(supabase, auth.userId!);
+    res.status(200).json(budget);
+  } catch (error) {
+    console.error('LLM budget error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,350 @@
+import { createClient } from '@supabase/supabase-js';
+import crypto from 'crypto';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  claimEmailJobs,
+  completeEmailJob,
+  countPendingEmailJobs,
+  deferEmailJob,
+  EmailJob,
+  failEmailJob,
+  markEmailJobBatched,
+  updateSessionTotals
+} from './_lib/jobs.js';
+import { createLLMOrchestrator, extractAndStoreEvents, loadExtractionContents } from './_lib/extraction.js';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { EmailContent, LLMOrchestrator } from './_lib/llm.js';
+import { LLMProvider, loadProviderPreference } from './_lib/providers.js';
+import { addSpend, BudgetDecision, BudgetStatus, decideBudget, estimateExtractionCost, loadBudgetStatus } from './_lib/budget.js';
+import { BatchRequest, isBatchProcessingEnabled, pollExtractionBatches, submitExtractionBatch, supportsBatch } from './_lib/batch.js';
+import { createExtractionCache } from './_lib/cache.js';
+
+// How long a job waits before its budget is checked again
+const BUDGET_RECHECK_MS = 60 * 60 * 1000;
+
+// Batch mode: most jobs per batch, and how long claimed jobs are collected
+// before submitting (well inside the job lease)
+const BATCH_MAX_JOBS = 50;
+const BATCH_COLLECT_MS = 60 * 1000;
+
+// Mark the email as failed once its job is dead-lettered
+async function markEmailFailed(supabase: any, job: EmailJob, errorMessage: string) {
+  await supabase
+    .from('processed_emails')
+    .update({
+      processing_status: 'failed',
+      processing_completed_at: new Date().toISOString(),
+      events_extracted_count: 0,
+      extraction_successful: false,
+      processing_error_message: errorMessage
+    })
+    .eq('id', job.email_id);
+
+  const { error: historyError } = await supabase
+    .from('processing_history')
+    .insert({
+      user_id: job.user_id,
+      session_id: job.session_id,
+      email_id: job.email_id,
+      llm_provider: 'orchestrator',
+      model_name: null,
+      processing_step: 'orchestration',
+      processing_time: 0,
+      input_tokens: 0,
+      output_tokens: 0,
+      token_usage: 0,
+      cost: 0,
+      success_status: false,
+      retry_count: job.attempts,
+      error_message: errorMessage
+    });
+
+  if (historyError) {
+    console.warn('Failed to store dead-letter processing history:', historyError);
+  }
+}
+
+// Serverless function handler for Vercel
+// The cron (CRON_SECRET) drains every user's jobs; a signed-in user is how the
+// Dashboard kicks the worker for its own jobs right after a sync.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const userId = auth.cron ? null : auth.userId;
+
+  try {
+    // Check required environment variables
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+    // One orchestrator per user, since each user may pick their own LLM provider,
+    // plus a degraded one for users past their budget in degrade mode. They share
+    // one extraction cache, so identical emails across users are extracted once.
+    const extractionCache = createExtractionCache(supabase);
+    const orchestrators = new Map<string, LLMOrchestrator>();
+    const getOrchestrator = async (jobUserId: string, degraded: boolean = false) => {
+      const key = `${jobUserId}:${degraded ? 'degraded' : 'full'}`;
+      let orchestrator = orchestrators.get(key);
+      if (!orchestrator) {
+        orchestrator = createLLMOrchestrator(await loadProviderPreference(supabase, jobUserId), { degraded, cache: extractionCache });
+        orchestrators.set(key, orchestrator);
+      }
+      return orchestrator;
+    };
+
+    // Loaded once per user, then kept current with the cost of each job
+    const budgets = new Map<string, BudgetStatus>();
+    const getBudget = async (jobUserId: string) => {
+      let budget = budgets.get(jobUserId);
+      if (!budget) {
+        budget = await loadBudgetStatus(supabase, jobUserId);
+        budgets.set(jobUserId, budget);
+      }
+      return budget;
+    };
+
+    const workerId = `worker-${crypto.randomUUID()}`;
+    const startTime = Date.now();
+    const timeBudgetMs = parseInt(process.env.EMAIL_JOB_TIME_BUDGET_MS || '240000');
+    const stats = {
+      claimed: 0,
+      completed: 0,
+      retried: 0,
+      deadLettered: 0,
+      deferred: 0,
+      batched: 0,
+      batchesSubmitted: 0,
+      batchesCompleted: 0,
+      batchesFailed: 0,
+      cacheHits: 0,
+      eventsStored: 0
+    };
+    const touchedSessions = new Set<string>();
+    const batchMode = isBatchProcessingEnabled();
+
+    console.log(`Email job worker ${workerId} started${userId ? ` for user ${userId}` : ''}${batchMode ? ' (batch mode)' : ''}`);
+
+    // Finished batches put their jobs back in the queue, so check them before claiming
+    if (batchMode) {
+      const polled = await pollExtractionBatches(supabase);
+      stats.batchesCompleted = polled.completed;
+      stats.batchesFailed = polled.failed;
+    }
+
+    const failJob = async (job: EmailJob, error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Unknown processing error';
+      console.error(`Job ${job.id} failed:`, error);
+
+      const status = await failEmailJob(supabase, job, workerId, message);
+      if (status === 'dead') {
+        console.error(`Job ${job.id} dead-lettered after ${job.attempts} attempts`);
+        await markEmailFailed(supabase, job, message);
+        stats.deadLettered++;
+      } else {
+        await supabase
+          .from('processed_emails')
+          .update({ processing_status: 'queued', processing_error_message: message })
+          .eq('id', job.email_id);
+        stats.retried++;
+      }
+    };
+
+    const runExtraction = async (job: EmailJob, llmOrchestrator: LLMOrchestrator, decision: BudgetDecision) => {
+      try {
+        const result = await extractAndStoreEvents(supabase, llmOrchestrator, {
+          userId: job.user_id,
+          sessionId: job.session_id,
+          emailId: job.email_id,
+          content: job.payload.content,
+          attachments: job.payload.attachments,
+          forceReprocess: job.payload.forceReprocess,
+          batchOutputs: job.batch_output || undefined
+        });
+
+        await completeEmailJob(supabase, job, workerId, {
+          ...result,
+          budgetDecision: decision,
+          ...(job.batch_output && { batchId: job.batch_id })
+        });
+        budgets.set(job.user_id, addSpend(await getBudget(job.user_id), result.cost));
+        stats.completed++;
+        stats.eventsStored += result.eventsStored;
+        stats.cacheHits += result.cacheHits;
+      } catch (error) {
+        await failJob(job, error);
+      }
+    };
+
+    // Batch mode: jobs collected for a batch, per provider and model since a
+    // batch runs a single model. They stay leased until submitted.
+    const pendingBatches = new Map<string, {
+      provider: LLMProvider;
+      requests: BatchRequest[];
+      jobs: Array<{ job: EmailJob; llmOrchestrator: LLMOrchestrator; decision: BudgetDecision }>;
+    }>();
+    let oldestPendingAt = 0;
+
+    const flushBatches = async () => {
+      for (const [key, group] of pendingBatches) {
+        pendingBatches.delete(key);
+        try {
+          const batchId = await submitExtractionBatch(supabase, group.provider, group.requests);
+          for (const { job } of group.jobs) {
+            await markEmailJobBatched(supabase, job, workerId, batchId);
+          }
+          stats.batched += group.jobs.length;
+          stats.batchesSubmitted++;
+        } catch (error) {
+          console.error(`Failed to submit ${group.provider.name} batch, extracting ${group.jobs.length} jobs live:`, error);
+          for (const { job, llmOrchestrator, decision } of group.jobs) {
+            await runExtraction(job, llmOrchestrator, decision);
+          }
+        }
+      }
+    };
+
+    const queueForBatch = async (
+      job: EmailJob,
+      contents: EmailContent[],
+      llmOrchestrator: LLMOrchestrator,
+      decision: BudgetDecision
+    ) => {
+      const provider = llmOrchestrator.providers.extraction;
+      const key = `${provider.name}:${provider.model}`;
+      const group = pendingBatches.get(key) || { provider, requests: [], jobs: [] };
+
+      if (pendingBatches.size === 0) {
+        oldestPendingAt = Date.now();
+      }
+      group.requests.push(...llmOrchestrator.createBatchRequests(contents).map(({ id, request }) => ({
+        id: `${job.id}:${id}`,
+        request
+      })));
+      group.jobs.push({ job, llmOrchestrator, decision });
+      pendingBatches.set(key, group);
+
+      if (group.jobs.length >= BATCH_MAX_JOBS) {
+        await flushBatches();
+      }
+    };
+
+    // Claim one job at a time so the lease only covers work that is actually running
+    while (Date.now() - startTime < timeBudgetMs) {
+      // Submit collected jobs well before their leases run out
+      if (pendingBatches.size > 0 && Date.now() - oldestPendingAt > BATCH_COLLECT_MS) {
+        await flushBatches();
+      }
+
+      const [job] = await claimEmailJobs(supabase, workerId, { limit: 1, userId });
+      if (!job) {
+        break;
+      }
+
+      stats.claimed++;
+      if (job.session_id) {
+        touchedSessions.add(job.session_id);
+      }
+
+      // A worker died holding the lease on the final attempt
+      if (job.attempts > job.max_attempts) {
+        const message = job.last_error || 'Job lease expired on final attempt';
+        await failEmailJob(supabase, job, workerId, message);
+        await markEmailFailed(supabase, job, message);
+        stats.deadLettered++;
+        continue;
+      }
+
+      console.log(`Running job ${job.id} (attempt ${job.attempts}/${job.max_attempts}): "${job.payload.content.subject}"`);
+
+      let llmOrchestrator: LLMOrchestrator;
+      let decision: BudgetDecision;
+      let contents: EmailContent[] = [];
+      let cached = false;
+      try {
+        const budget = await getBudget(job.user_id);
+        llmOrchestrator = await getOrchestrator(job.user_id);
+
+        if (job.batch_output) {
+          // The batch is already paid for; past the budget only the fallback is skipped
+          decision = decideBudget(budget, 0) === 'allow' ? 'allow' : 'degrade';
+        } else {
+          // Pre-flight: would this email's extraction take the user past their budget?
+          // Content extracted before comes from the cache for free.
+          ({ contents } = await loadExtractionContents(supabase, {
+            userId: job.user_id,
+            content: job.payload.content,
+            attachments: job.payload.attachments
+          }));
+          cached = await llmOrchestrator.isExtractionCached(contents);
+          const estimatedCost = cached ? 0 : estimateExtractionCost(contents, llmOrchestrator.providers.extraction);
+          decision = decideBudget(budget, estimatedCost);
+
+          if (decision === 'stop') {
+            const message = `Monthly LLM budget of $${budget.limitUsd!.toFixed(2)} reached ($${budget.spentUsd.toFixed(2)} spent), waiting for more budget`;
+            console.log(`Deferring job ${job.id}: ${message}`);
+            await deferEmailJob(supabase, job, workerId, new Date(Date.now() + BUDGET_RECHECK_MS), message);
+            await supabase
+              .from('processed_emails')
+              .update({ processing_status: 'queued', processing_error_message: message })
+              .eq('id', job.email_id);
+            stats.deferred++;
+            continue;
+          }
+
+          // Batched spend is only recorded once the results are ingested, so reserve
+          // the estimate to keep this run from batching past the budget
+          if (batchMode) {
+            budgets.set(job.user_id, addSpend(budget, estimatedCost));
+          }
+        }
+
+        if (decision === 'degrade') {
+          console.log(`User ${job.user_id} is over budget, extracting job ${job.id} on the cheapest models`);
+          llmOrchestrator = await getOrchestrator(job.user_id, true);
+        }
+
+        // A job that already went through a batch (it failed, or its results could
+        // not be used) runs live, as do cached jobs and providers without a batch API
+        if (batchMode && !job.batch_id && !cached && supportsBatch(llmOrchestrator.providers.extraction)) {
+          await queueForBatch(job, contents, llmOrchestrator, decision);
+          continue;
+        }
+      } catch (error) {
+        await failJob(job, error);
+        continue;
+      }
+
+      await runExtraction(job, llmOrchestrator, decision);
+    }
+
+    await flushBatches();
+
+    for (const sessionId of touchedSessions) {
+      await updateSessionTotals(supabase, sessionId);
+    }
+
+    const remaining = await countPendingEmailJobs(supabase, userId);
+    console.log(`Email job worker ${workerId} finished:`, { ...stats, remaining });
+
+    res.status(200).json({
+      message: remaining > 0 ? 'Email jobs remain, call again to continue' : 'Email job queue drained',
+      ...stats,
+      remaining
+    });
+  } catch (error) {
+    console.error('Email job worker error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler, { allowCron: true });
@@ -1,10 +1,13 @@
 import { createClient } from '@supabase/supabase-js';
 import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { findOutdatedEmails } from './_lib/extraction.js';
+import { currentPromptVersions } from './_lib/llm.js';
 
 // Interface for sync session with processing details
 interface SyncSessionDetail {
   id: string;
-  session_type: 'sync' | 'reprocess';
+  session_type: 'sync' | 'reprocess' | 'scheduled';
   lookback_days: number;
   processing_mode: 'single' | 'batch';
   total_emails_processed: number;
@@ -58,9 +61,23 @@ interface DashboardSummary {
       successRate: number;
     };
   };
+  // Quality and cost per main extraction prompt version ('unversioned' before versioning)
+  promptVersionBreakdown: {
+    [version: string]: {
+      emails: number;
+      events: number;
+      cost: number;
+      averageCostPerEmail: number;
+      averageConfidence: number | null;
+      verifiedEvents: number;
+      current: boolean;
+    };
+  };
+  currentPromptVersions: string[];
+  outdatedEmails: number; // Emails extracted with an older prompt, see /api/reprocess-outdated
 }
 
-export default async function handler(req: VercelRequest, res: VercelResponse) {
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
   // Only allow GET requests
   if (req.method !== 'GET') {
     return res.status(405).json({ error: 'Method not allowed' });
@@ -78,12 +95,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       process.env.SUPABASE_SERVICE_KEY
     );
 
-    // Get user ID from query parameters
-    const { userId, limit = '10', offset = '0' } = req.query;
-
-    if (!userId || typeof userId !== 'string') {
-      return res.status(400).json({ error: 'Missing or invalid userId parameter' });
-    }
+    // The user comes from the verified session; userId in the query must match it
+    const userId = auth.userId!;
+    const { limit = '10', offset = '0' } = req.query;
 
     const limitNum = parseInt(limit as string) || 10;
     const offsetNum = parseInt(offset as string) || 0;
@@ -137,7 +151,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             events: 0,
             cost: 0
           },
-          providerBreakdown: {}
+          providerBreakdown: {},
+          promptVersionBreakdown: {},
+          currentPromptVersions: currentPromptVersions(),
+          outdatedEmails: 0
         },
         pagination: {
           limit: limitNum,
@@ -284,6 +301,57 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
         successCount / providerBreakdown[provider].count : 0;
     });
 
+    // Break down cost by the email's extraction prompt and quality by the events
+    // each prompt produced (fallback events carry the fallback prompt's version)
+    const currentVersions = currentPromptVersions();
+    const promptVersionBreakdown: DashboardSummary['promptVersionBreakdown'] = {};
+    const versionStats = (version: string | null) => {
+      const key = version || 'unversioned';
+      if (!promptVersionBreakdown[key]) {
+        promptVersionBreakdown[key] = {
+          emails: 0,
+          events: 0,
+          cost: 0,
+          averageCostPerEmail: 0,
+          averageConfidence: null,
+          verifiedEvents: 0,
+          current: currentVersions.includes(key)
+        };
+      }
+      return promptVersionBreakdown[key];
+    };
+
+    allProcessedEmails?.forEach(email => {
+      if (email.processing_status !== 'completed' || email.llm_providers_used === 'ics') {
+        return;
+      }
+      const stats = versionStats(email.prompt_version);
+      stats.emails++;
+      stats.cost += parseFloat(email.processing_cost || '0');
+    });
+
+    const { data: versionedEvents } = await supabase
+      .from('extracted_dates')
+      .select('prompt_version, confidence_score, is_verified')
+      .eq('user_id', userId)
+      .eq('source', 'llm');
+
+    const confidenceSums: { [version: string]: number } = {};
+    versionedEvents?.forEach(event => {
+      const stats = versionStats(event.prompt_version);
+      const key = event.prompt_version || 'unversioned';
+      stats.events++;
+      stats.verifiedEvents += event.is_verified ? 1 : 0;
+      confidenceSums[key] = (confidenceSums[key] || 0) + (Number(event.confidence_score) || 0);
+    });
+
+    Object.entries(promptVersionBreakdown).forEach(([version, stats]) => {
+      stats.averageCostPerEmail = stats.emails > 0 ? stats.cost / stats.emails : 0;
+      stats.averageConfidence = stats.events > 0 ? confidenceSums[version] / stats.events : null;
+    });
+
+    const outdatedEmails = (await findOutdatedEmails(supabase, userId)).length;
+
     const dashboardSummary: DashboardSummary = {
       totalSessions: totalEmails, // Using emails as "sessions"
       totalEmailsProcessed: totalEmails,
@@ -301,7 +369,10 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
           return sum + parseFloat(String(extractionCost)) + parseFloat(String(summaryCost));
         }, 0)
       },
-      providerBreakdown
+      providerBreakdown,
+      promptVersionBreakdown,
+      currentPromptVersions: currentVersions,
+      outdatedEmails
     };
 
     // Return the enhanced dashboard data
@@ -324,4 +395,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       message: error instanceof Error ? error.message : 'Unknown error'
     });
   }
-} 
\ No newline at end of file
+}
+
+export default withAuth(handler);
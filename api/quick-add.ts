@@ -0,0 +1,108 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { createLLMOrchestrator, loadExtractionContents } from './_lib/extraction.js';
+import { loadProviderPreference } from './_lib/providers.js';
+import { decideBudget, estimateExtractionCost, loadBudgetStatus } from './_lib/budget.js';
+import { createExtractionCache } from './_lib/cache.js';
+import {
+  extractQuickAddEvents,
+  QUICK_ADD_MAX_LENGTH,
+  quickAddContent,
+  storeManualEvents,
+  validateQuickAddEvent
+} from './_lib/quickadd.js';
+
+// POST { action: 'extract', text, today } runs the text through the extraction
+// prompt and returns the events for the user to confirm; nothing is stored.
+// POST { action: 'save', text, events } stores the confirmed events as manual.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+
+    const userId = auth.userId!;
+    const { action, events } = req.body || {};
+    const text = String(req.body?.text || '').trim();
+
+    if (!text || text.length > QUICK_ADD_MAX_LENGTH) {
+      return res.status(400).json({ error: `Describe the event in 1 to ${QUICK_ADD_MAX_LENGTH} characters` });
+    }
+
+    if (action === 'save') {
+      if (!Array.isArray(events) || events.length === 0) {
+        return res.status(400).json({ error: 'Expected the events to add' });
+      }
+      for (const event of events) {
+        const invalid = validateQuickAddEvent(event);
+        if (invalid) {
+          return res.status(400).json({ error: invalid });
+        }
+      }
+
+      const result = await storeManualEvents(supabase, { userId, text, events });
+      return res.status(200).json({
+        message: `Added ${result.events.length} event${result.events.length === 1 ? '' : 's'}`,
+        ...result
+      });
+    }
+
+    if (action !== 'extract') {
+      return res.status(400).json({ error: 'Expected an action of extract or save' });
+    }
+
+    const today = /^\d{4}-\d{2}-\d{2}$/.test(String(req.body.today))
+      ? req.body.today
+      : new Date().toISOString().split('T')[0];
+    const { contents, childTags } = await loadExtractionContents(supabase, {
+      userId,
+      content: quickAddContent(text, today)
+    });
+
+    // Same budget rules as the email worker: stop blocks, degrade uses the cheapest models
+    let llmOrchestrator = createLLMOrchestrator(await loadProviderPreference(supabase, userId), {
+      cache: createExtractionCache(supabase)
+    });
+    const budget = await loadBudgetStatus(supabase, userId);
+    const decision = decideBudget(budget, estimateExtractionCost(contents, llmOrchestrator.providers.extraction));
+
+    if (decision === 'stop') {
+      return res.status(402).json({
+        error: 'LLM budget exceeded',
+        message: `Your monthly AI budget of $${budget.limitUsd!.toFixed(2)} is used up. Raise it or add the event to your calendar directly.`,
+        budget
+      });
+    }
+    if (decision === 'degrade') {
+      llmOrchestrator = createLLMOrchestrator(await loadProviderPreference(supabase, userId), {
+        degraded: true,
+        cache: createExtractionCache(supabase)
+      });
+    }
+
+    const result = await extractQuickAddEvents(supabase, llmOrchestrator, {
+      userId,
+      content: contents[0],
+      childTags
+    });
+    return res.status(200).json(result);
+  } catch (error) {
+    console.error('Quick add error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,59 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { applyReprocessChanges, countReprocessChanges, discardReprocessChanges, loadReprocessChanges } from './_lib/reprocess.js';
+
+// GET lists the changes a reprocess found, with the stored event each applies
+// to. POST { action: 'apply' | 'discard', changeIds?, timeZone? } applies or
+// drops them, all pending changes when changeIds is left out; timeZone is the
+// zone synced events are sent to Google Calendar in.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+
+    const userId = auth.userId!;
+
+    if (req.method === 'GET') {
+      const changes = await loadReprocessChanges(supabase, userId);
+      return res.status(200).json({ changes, counts: countReprocessChanges(changes) });
+    }
+
+    const { action, changeIds, timeZone } = req.body || {};
+    if (action !== 'apply' && action !== 'discard') {
+      return res.status(400).json({ error: 'Action must be apply or discard' });
+    }
+    if (changeIds !== undefined && (!Array.isArray(changeIds) || changeIds.some((id: any) => typeof id !== 'string'))) {
+      return res.status(400).json({ error: 'changeIds must be a list of change ids' });
+    }
+
+    if (action === 'discard') {
+      const discarded = await discardReprocessChanges(supabase, userId, changeIds);
+      return res.status(200).json({ message: 'Changes discarded', discarded });
+    }
+
+    const result = await applyReprocessChanges(supabase, userId, {
+      changeIds,
+      timeZone: typeof timeZone === 'string' ? timeZone : undefined
+    });
+    return res.status(200).json({ message: 'Changes applied', ...result });
+  } catch (error) {
+    console.error('Reprocess changes error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler);
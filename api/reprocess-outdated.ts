@@ -0,0 +1,55 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { loadBudgetStatus } from './_lib/budget.js';
+import { requeueOutdatedEmails } from './_lib/extraction.js';
+
+// Re-run extraction for the user's emails that were extracted with an older
+// prompt version. Jobs go to the normal queue; the caller kicks the worker, and
+// the resulting changes wait in /api/reprocess-changes until applied.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+
+    const userId = auth.userId!;
+    const { limit } = req.body || {};
+
+    // Do not queue jobs that could only wait for the budget to reset
+    const budget = await loadBudgetStatus(supabase, userId);
+    if (budget.mode === 'stop' && budget.state === 'exceeded') {
+      return res.status(402).json({
+        error: 'LLM budget exceeded',
+        message: `Your monthly AI budget of $${budget.limitUsd!.toFixed(2)} is used up. Raise it or wait until ${new Date(budget.periodEnd).toLocaleDateString('en-US', { month: 'long', day: 'numeric', timeZone: 'UTC' })}.`,
+        budget
+      });
+    }
+
+    const result = await requeueOutdatedEmails(supabase, userId, { limit: parseInt(limit) || undefined });
+
+    res.status(200).json({
+      message: result.jobsEnqueued > 0
+        ? 'Emails with outdated prompts queued for extraction'
+        : 'No emails with outdated prompts to reprocess',
+      ...result
+    });
+  } catch (error) {
+    console.error('Reprocess outdated error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler);
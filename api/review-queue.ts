@@ -0,0 +1,79 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { AuthContext, withAuth } from './_lib/auth.js';
+import { approveEvent, loadReviewQueue, mergeEvents, rejectEvent } from './_lib/review.js';
+import { applyEventEdit, loadUserEvent, validateEventEdit } from './_lib/revisions.js';
+
+// GET lists the user's events waiting for review. POST applies one review
+// action: { action: 'approve' | 'edit' | 'merge' | 'reject', eventId, changes?, targetId? }.
+// The review threshold is a user setting written straight to users.
+async function handler(req: VercelRequest, res: VercelResponse, auth: AuthContext) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  try {
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+
+    const userId = auth.userId!;
+
+    if (req.method === 'GET') {
+      return res.status(200).json(await loadReviewQueue(supabase, userId));
+    }
+
+    const { action, eventId, changes, targetId } = req.body || {};
+    if (!eventId || !['approve', 'edit', 'merge', 'reject'].includes(action)) {
+      return res.status(400).json({ error: 'Expected an eventId and an action of approve, edit, merge or reject' });
+    }
+
+    const event = await loadUserEvent(supabase, userId, eventId);
+    if (!event) {
+      return res.status(404).json({ error: 'Event not found' });
+    }
+
+    switch (action) {
+      case 'approve':
+        return res.status(200).json({ message: 'Event approved', event: await approveEvent(supabase, event) });
+
+      case 'edit': {
+        const invalid = validateEventEdit(changes || {});
+        if (invalid) {
+          return res.status(400).json({ error: invalid });
+        }
+
+        const updated = await applyEventEdit(supabase, event, changes || {}, { verify: true });
+        if (!updated) {
+          return res.status(409).json({ error: 'Another event already has this title, date and time. Merge into it instead.' });
+        }
+        return res.status(200).json({ message: 'Event updated', event: updated });
+      }
+
+      case 'merge': {
+        const target = targetId && targetId !== eventId ? await loadUserEvent(supabase, userId, targetId) : null;
+        if (!target) {
+          return res.status(400).json({ error: 'Choose another of your events to merge into' });
+        }
+        return res.status(200).json({ message: 'Events merged', event: await mergeEvents(supabase, event, target) });
+      }
+
+      default:
+        await rejectEvent(supabase, event);
+        return res.status(200).json({ message: 'Event rejected' });
+    }
+  } catch (error) {
+    console.error('Review queue error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
+
+export default withAuth(handler);
@@ -0,0 +1,149 @@
+import { createClient } from '@supabase/supabase-js';
+import { VercelRequest, VercelResponse } from '@vercel/node';
+import { isCronRequest } from './_lib/auth.js';
+import { GmailService } from './_lib/gmail.js';
+import { runEmailSync } from './_lib/sync.js';
+import { loadUserTokens, saveUserTokens } from './_lib/vault.js';
+
+// Longest a failing user is pushed back, however many failures in a row
+const MAX_BACKOFF_MINUTES = 24 * 60;
+
+// Next run after a failure: the user's interval doubled per consecutive failure
+function backoffMinutes(intervalMinutes: number, failures: number): number {
+  return Math.min(MAX_BACKOFF_MINUTES, intervalMinutes * Math.pow(2, failures));
+}
+
+// Serverless function handler for Vercel Cron
+// Syncs every user whose automatic sync is due. Extraction jobs created here are
+// drained by the /api/process-email-jobs cron.
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (req.method !== 'GET') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  // Cron only: there is no signed-in user to act for
+  if (!isCronRequest(req)) {
+    return res.status(401).json({ error: 'Unauthorized' });
+  }
+
+  try {
+    // Check required environment variables
+    if (!process.env.SUPABASE_URL || !process.env.SUPABASE_SERVICE_KEY) {
+      throw new Error('Missing Supabase environment variables');
+    }
+    if (!process.env.GMAIL_CLIENT_ID || !process.env.GMAIL_CLIENT_SECRET) {
+      throw new Error('Missing Gmail environment variables');
+    }
+
+    const supabase = createClient(
+      process.env.SUPABASE_URL,
+      process.env.SUPABASE_SERVICE_KEY
+    );
+    const gmailService = new GmailService(
+      process.env.GMAIL_CLIENT_ID,
+      process.env.GMAIL_CLIENT_SECRET
+    );
+
+    const startTime = Date.now();
+    const timeBudgetMs = parseInt(process.env.SCHEDULED_SYNC_TIME_BUDGET_MS || '240000');
+    const now = new Date().toISOString();
+
+    const { data: dueUsers, error: usersError } = await supabase
+      .from('users')
+      .select('id, sync_interval_minutes, scheduled_sync_failures')
+      .gt('sync_interval_minutes', 0)
+      .or(`next_scheduled_sync_at.is.null,next_scheduled_sync_at.lte.${now}`)
+      .order('next_scheduled_sync_at', { ascending: true, nullsFirst: true })
+      .limit(parseInt(process.env.SCHEDULED_SYNC_BATCH_SIZE || '10'));
+
+    if (usersError) {
+      throw new Error(`Failed to load users due for sync: ${usersError.message}`);
+    }
+
+    console.log(`Scheduled sync: ${dueUsers?.length || 0} users due`);
+
+    const results: Array<{ userId: string; status: 'synced' | 'partial' | 'failed'; error?: string }> = [];
+
+    for (const user of dueUsers || []) {
+      const remainingBudget = timeBudgetMs - (Date.now() - startTime);
+      if (remainingBudget <= 0) {
+        console.log('Scheduled sync time budget spent, remaining users wait for the next run');
+        break;
+      }
+
+      try {
+        const storedTokens = await loadUserTokens(supabase, user.id);
+        if (!storedTokens?.refreshToken) {
+          throw new Error('No Gmail refresh token stored - the user has to sign in with Gmail again');
+        }
+
+        const tokens = await gmailService.refreshAccessToken(storedTokens.refreshToken);
+
+        // Keep the stored access token fresh for the Dashboard's calendar sync as well
+        await saveUserTokens(supabase, user.id, {
+          accessToken: tokens.accessToken,
+          expiresAt: new Date(tokens.expiresAt).toISOString()
+        });
+
+        const result = await runEmailSync(supabase, gmailService, {
+          userId: user.id,
+          accessToken: tokens.accessToken,
+          refreshToken: tokens.refreshToken,
+          sessionType: 'scheduled',
+          timeBudgetMs: remainingBudget
+        });
+
+        if (result.statusCode >= 400) {
+          throw new Error(result.body.message || result.body.error || `Sync failed with status ${result.statusCode}`);
+        }
+
+        // A paused run is resumed on the next cron tick rather than after a full interval
+        const nextRun = result.body.partial
+          ? new Date()
+          : new Date(Date.now() + user.sync_interval_minutes * 60 * 1000);
+
+        await supabase
+          .from('users')
+          .update({
+            next_scheduled_sync_at: nextRun.toISOString(),
+            scheduled_sync_failures: 0,
+            scheduled_sync_last_error: null
+          })
+          .eq('id', user.id);
+
+        results.push({ userId: user.id, status: result.body.partial ? 'partial' : 'synced' });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Unknown scheduled sync error';
+        const failures = (user.scheduled_sync_failures || 0) + 1;
+        const delayMinutes = backoffMinutes(user.sync_interval_minutes, failures);
+        console.error(`Scheduled sync failed for user ${user.id} (${failures} in a row, retrying in ${delayMinutes}m):`, error);
+
+        await supabase
+          .from('users')
+          .update({
+            next_scheduled_sync_at: new Date(Date.now() + delayMinutes * 60 * 1000).toISOString(),
+            scheduled_sync_failures: failures,
+            scheduled_sync_last_error: message
+          })
+          .eq('id', user.id);
+
+        results.push({ userId: user.id, status: 'failed', error: message });
+      }
+    }
+
+    res.status(200).json({
+      message: 'Scheduled sync completed',
+      due: dueUsers?.length || 0,
+      synced: results.filter(r => r.status === 'synced').length,
+      partial: results.filter(r => r.status === 'partial').length,
+      failed: results.filter(r => r.status === 'failed').length,
+      results
+    });
+  } catch (error) {
+    console.error('Scheduled sync error:', error);
+    res.status(500).json({
+      error: 'Internal server error',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    });
+  }
+}
@@ -50,6 +50,8 @@ Return true if ANY of these date patterns are found, even if they appear later i
 Subject: {{subject}}
 From: {{senderEmail}}
 Sent: {{sentDate}}
+Source: {{source}}
+Children: {{children}}
 Full Body: {{body}}
 
 Instructions:
@@ -57,6 +59,11 @@ Instructions:
 - Convert relative references ("next Thursday") into absolute YYYY-MM-DD using the sent date.
 - Only include events after the sent date.
 - Use rich, specific titles and descriptions.
+- When children are listed, set "children" to the names of the ones each event applies to (match name, grade, school or teacher; several names are fine). Leave it out for events meant for every family or when unsure.
+- Put where the event happens (room, gym, campus, field, address) in "location", copied as written. Omit it when no place is given.
+- Multi-day events (spring break, camps, tournaments) are ONE event: "date" is the first day and "endDate" the last day. Set "endTime" whenever an end time is given ("3:00-4:30 PM", "until 5pm").
+- Repeating events ("practice every Tuesday and Thursday through November") are ONE event on the first upcoming occurrence with "recurrence" set to an iCalendar RRULE value (FREQ=DAILY|WEEKLY|MONTHLY|YEARLY plus INTERVAL, BYDAY, BYMONTHDAY, UNTIL=YYYYMMDD or COUNT). Never list the occurrences one by one. Leave "recurrence" out for one-time events.
+- When the source is an attachment (calendar, flyer, menu, permission slip), the text was pulled from the file and may have broken layout; read table rows and columns carefully and mention the attachment in the reasoning.
 - IMPORTANT: Always extract lunch/cafeteria menus. When you see a section like "CAFETERIA" or "WHAT'S FOR LUNCH" with day-of-week entries (Monday: Chicken, Tuesday: Pizza, etc.), calculate the date for each weekday by finding the NEXT occurrence of that weekday starting from the sent date. Example: Email sent Sunday, Sept 28, 2025 with "Monday: Chicken" means Monday, Sept 29, 2025 (the very next day, NOT Oct 6). Key rule: Find the soonest occurrence of each weekday that is on or after the sent date. Create one event per day with title "Lunch: [menu item]".
 
 Respond with JSON array:
@@ -65,9 +72,14 @@ Respond with JSON array:
     "title": "specific event title",
     "date": "YYYY-MM-DD",
     "time": "HH:MM" (24h, optional),
+    "endDate": "YYYY-MM-DD" (optional, last day of a multi-day event),
+    "endTime": "HH:MM" (24h, optional),
+    "location": "room, venue or address" (optional),
     "description": "context + requirements",
     "confidence": 0.93,
-    "reasoning": "explain which text triggered this event"
+    "reasoning": "explain which text triggered this event",
+    "recurrence": "FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20251126" (optional),
+    "children": ["child name"] (optional)
   }
 ]
 
@@ -97,5 +109,56 @@ Output JSON:
   "confidence": 0.9
 }
 
-Keep tone clear and warm. Use plain language and preserve any must-know instructions.`
-} as const;
\ No newline at end of file
+Keep tone clear and warm. Use plain language and preserve any must-know instructions.`,
+
+  /**
+   * Extraction prompt for small self-hosted models (local provider). Shorter,
+   * one rule per line and a single example, since 7-8B models lose track of
+   * long instructions and tend to add prose around the JSON.
+   */
+  compactExtractionPrompt: `Find the dated events in this school email.
+
+Subject: {{subject}}
+From: {{senderEmail}}
+Sent: {{sentDate}}
+Source: {{source}}
+Children: {{children}}
+Body: {{body}}
+
+Rules:
+- Only events after the sent date. Dates as YYYY-MM-DD, times as 24h HH:MM.
+- Turn "next Friday" or "Monday:" into the real date, counting from the sent date.
+- Lunch menus: one event per day, title "Lunch: [menu item]".
+- Multi-day events are one event with "endDate". Repeating events are one event with "recurrence" (an RRULE such as FREQ=WEEKLY;BYDAY=TU).
+- "location" only when a place is written. "children" only with names from the Children line.
+
+Answer with only this JSON object, no other text:
+{"events": [{"title": "Science fair", "date": "2025-10-14", "time": "18:00", "endTime": "20:00", "location": "Gym", "description": "Projects on display", "confidence": 0.9, "reasoning": "Science fair Tuesday Oct 14, 6-8pm in the gym"}]}
+
+If there are no events, answer {"events": []}.`,
+
+  /**
+   * Appended to the classification and summary prompts for small models so the
+   * answer is bare JSON.
+   */
+  compactJsonReminder: `
+
+Answer with the JSON object only. No markdown fences, no explanation before or after it.`
+} as const;
+
+/**
+ * Version of each prompt above. It is stored with every extraction
+ * (processing_history, processed_emails, extracted_dates), so events can be
+ * traced back to the wording that produced them.
+ *
+ * Bump the matching entry whenever you change a prompt. Emails extracted with
+ * an older version show up in the Processing Dashboard, which can reprocess
+ * just those emails. compactJsonReminder is part of the classification and
+ * summary prompts for small models, so bump those two when it changes.
+ */
+export const promptVersions = {
+  classificationPrompt: 'classification-v1',
+  extractionPrompt: 'extraction-v1',
+  summaryPrompt: 'summary-v1',
+  compactExtractionPrompt: 'compact-extraction-v1'
+} as const;
@@ -0,0 +1,82 @@
+import { extractEmailText } from '../api/_lib/gmail.js';
+import { EmailContent } from '../api/_lib/llm.js';
+
+// Minimal RFC 822 / MIME reader for evaluation fixtures: headers, multipart
+// bodies, base64 and quoted-printable parts. The body goes through the same
+// extractEmailText cleanup as mail fetched from Gmail.
+
+interface MimePart {
+  headers: Record<string, string>;
+  body: string;
+}
+
+function parsePart(raw: string): MimePart {
+  const normalized = raw.replace(/\r\n/g, '\n');
+  const separator = normalized.indexOf('\n\n');
+  const headerBlock = separator === -1 ? normalized : normalized.substring(0, separator);
+  const body = separator === -1 ? '' : normalized.substring(separator + 2);
+
+  // Folded header lines continue with leading whitespace
+  const headers: Record<string, string> = {};
+  for (const line of headerBlock.replace(/\n[ \t]+/g, ' ').split('\n')) {
+    const colon = line.indexOf(':');
+    if (colon > 0) {
+      headers[line.substring(0, colon).trim().toLowerCase()] = line.substring(colon + 1).trim();
+    }
+  }
+
+  return { headers, body };
+}
+
+// =?UTF-8?B?...?= and =?UTF-8?Q?...?= words in headers such as Subject
+function decodeHeader(value: string): string {
+  return value.replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_match, _charset, encoding, text) => {
+    if (encoding.toUpperCase() === 'B') {
+      return Buffer.from(text, 'base64').toString('utf-8');
+    }
+    return text
+      .replace(/_/g, ' ')
+      .replace(/=([0-9A-F]{2})/gi, (_hex: string, code: string) => String.fromCharCode(parseInt(code, 16)));
+  });
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (part.headers['content-transfer-encoding'] || '').toLowerCase();
+  if (encoding === 'base64') {
+    return Buffer.from(part.body.replace(/\s+/g, ''), 'base64').toString('utf-8');
+  }
+  // Quoted-printable is detected and decoded by extractEmailText
+  return part.body;
+}
+
+// Leaf text parts of a message, depth first
+function collectTextParts(part: MimePart): MimePart[] {
+  const contentType = part.headers['content-type'] || 'text/plain';
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+
+  if (/^multipart\//i.test(contentType) && boundary) {
+    return part.body
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(section => !section.startsWith('--'))
+      .flatMap(section => collectTextParts(parsePart(section.replace(/^\n/, ''))));
+  }
+
+  return /^text\/(plain|html)/i.test(contentType) ? [part] : [];
+}
+
+export function parseEml(raw: string): EmailContent {
+  const message = parsePart(raw);
+  const textParts = collectTextParts(message);
+
+  // Prefer plain text over HTML, as the Gmail sync does
+  const chosen = textParts.find(part => /^text\/plain/i.test(part.headers['content-type'] || 'text/plain'))
+    || textParts[0];
+
+  return {
+    subject: decodeHeader(message.headers['subject'] || ''),
+    body: chosen ? extractEmailText(decodeBody(chosen)) : '',
+    senderEmail: decodeHeader(message.headers['from'] || ''),
+    sentDate: message.headers['date'] || ''
+  };
+}
@@ -0,0 +1,106 @@
+import { normalizeTimeValue } from '../api/_lib/events.js';
+import { LLMResponse } from '../api/_lib/llm.js';
+
+// Scoring of extracted events against a fixture's expected events. Events are
+// paired by title; a pair counts as correct when the date matches, and the time
+// too when the fixture gives one.
+
+export interface ExpectedEvent {
+  title: string;
+  date: string; // YYYY-MM-DD
+  time?: string; // HH:MM, only checked when given
+}
+
+export interface Score {
+  expected: number;
+  extracted: number;
+  titleMatches: number; // Pairs found by title, whatever their date
+  correct: number; // Pairs with the right date (and time)
+}
+
+// Titles count as the same event when most of their words are shared
+const TITLE_SIMILARITY_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'at', 'for', 'in', 'of', 'on', 'the', 'to', 'with']);
+
+function titleWords(title: string): Set<string> {
+  return new Set(
+    title
+      .toLowerCase()
+      .replace(/[^a-z0-9\s]/g, ' ')
+      .split(/\s+/)
+      .filter(word => word && !STOP_WORDS.has(word))
+  );
+}
+
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  // Overlap relative to the shorter title, so "Science fair" matches
+  // "5th grade science fair projects due"
+  return shared / Math.min(wordsA.size, wordsB.size);
+}
+
+function isCorrect(expected: ExpectedEvent, extracted: LLMResponse): boolean {
+  if (expected.date !== extracted.date) {
+    return false;
+  }
+  return !expected.time || normalizeTimeValue(expected.time) === normalizeTimeValue(extracted.time);
+}
+
+export function scoreEvents(expected: ExpectedEvent[], extracted: LLMResponse[]): Score {
+  const unmatched = new Set(extracted.map((_event, index) => index));
+  let titleMatches = 0;
+  let correct = 0;
+
+  for (const expectedEvent of expected) {
+    // Best remaining title match, preferring one on the right date
+    let best: { index: number; similarity: number; correct: boolean } | null = null;
+    for (const index of unmatched) {
+      const similarity = titleSimilarity(expectedEvent.title, extracted[index].title);
+      if (similarity < TITLE_SIMILARITY_THRESHOLD) {
+        continue;
+      }
+      const candidate = { index, similarity, correct: isCorrect(expectedEvent, extracted[index]) };
+      if (!best
+        || (candidate.correct && !best.correct)
+        || (candidate.correct === best.correct && candidate.similarity > best.similarity)) {
+        best = candidate;
+      }
+    }
+
+    if (best) {
+      unmatched.delete(best.index);
+      titleMatches++;
+      correct += best.correct ? 1 : 0;
+    }
+  }
+
+  return { expected: expected.length, extracted: extracted.length, titleMatches, correct };
+}
+
+export function addScores(a: Score, b: Score): Score {
+  return {
+    expected: a.expected + b.expected,
+    extracted: a.extracted + b.extracted,
+    titleMatches: a.titleMatches + b.titleMatches,
+    correct: a.correct + b.correct
+  };
+}
+
+export const EMPTY_SCORE: Score = { expected: 0, extracted: 0, titleMatches: 0, correct: 0 };
+
+// Precision and recall count only correct pairs; date accuracy is the share of
+// title matches that also got the date right. null when there is nothing to divide.
+export function summarizeScore(score: Score) {
+  const ratio = (part: number, whole: number) => whole > 0 ? part / whole : null;
+  return {
+    precision: ratio(score.correct, score.extracted),
+    recall: ratio(score.correct, score.expected),
+    dateAccuracy: ratio(score.correct, score.titleMatches)
+  };
+}
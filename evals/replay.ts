@@ -0,0 +1,129 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { CompletionRequest, CompletionResult, createProvider, LLMProvider, LLMProviderName } from '../api/_lib/providers.js';
+
+// Provider stand-ins for the evaluation run. Recordings are real responses kept
+// in evals/recordings/<provider>/<model>.json, keyed by a hash of the request,
+// so a prompt change needs new recordings. Stubs answer from hand-written
+// responses next to each fixture and never reach a vendor.
+
+export type EvalMode = 'replay' | 'record' | 'stub';
+
+interface Recording {
+  fixture: string;
+  recordedAt: string;
+  result: CompletionResult;
+}
+
+export function requestHash(request: CompletionRequest): string {
+  return crypto.createHash('sha256').update(JSON.stringify(request)).digest('hex');
+}
+
+// One recordings file per provider and model, loaded lazily and written back
+// after a run that recorded something
+export class RecordingStore {
+  private files = new Map<string, { path: string; recordings: Record<string, Recording>; dirty: boolean }>();
+
+  constructor(private directory: string) {}
+
+  private file(provider: LLMProviderName, model: string) {
+    const key = `${provider}/${model}`;
+    let file = this.files.get(key);
+    if (!file) {
+      const filePath = path.join(this.directory, provider, `${model.replace(/[^a-zA-Z0-9._-]/g, '_')}.json`);
+      const recordings = fs.existsSync(filePath) ? JSON.parse(fs.readFileSync(filePath, 'utf-8')) : {};
+      file = { path: filePath, recordings, dirty: false };
+      this.files.set(key, file);
+    }
+    return file;
+  }
+
+  get(provider: LLMProviderName, model: string, hash: string): Recording | undefined {
+    return this.file(provider, model).recordings[hash];
+  }
+
+  set(provider: LLMProviderName, model: string, hash: string, recording: Recording) {
+    const file = this.file(provider, model);
+    file.recordings[hash] = recording;
+    file.dirty = true;
+  }
+
+  save() {
+    for (const file of this.files.values()) {
+      if (file.dirty) {
+        fs.mkdirSync(path.dirname(file.path), { recursive: true });
+        fs.writeFileSync(file.path, JSON.stringify(file.recordings, null, 2) + '\n');
+        file.dirty = false;
+      }
+    }
+  }
+}
+
+// Counters for the report, shared by every provider of one combination
+export interface ReplayStats {
+  calls: number;
+  missing: number; // Requests without a recording (replay) or stub
+  recorded: number;
+}
+
+export function createReplayProvider(options: {
+  name: LLMProviderName;
+  model: string;
+  stage: 'extraction' | 'fallback';
+  mode: EvalMode;
+  store: RecordingStore;
+  stats: ReplayStats;
+  fixture: () => { name: string; stubs: Record<string, unknown> };
+}): LLMProvider {
+  const { name, model, stage, mode, store, stats, fixture } = options;
+  // Only needed when recording, so replay and stub runs work without API keys
+  let live: LLMProvider | null = null;
+
+  return {
+    name,
+    model,
+    compactPrompts: name === 'local' && process.env.LOCAL_LLM_COMPACT_PROMPTS !== 'false',
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+      stats.calls++;
+      const current = fixture();
+
+      if (mode === 'stub') {
+        const stub = current.stubs[stage];
+        if (stub === undefined) {
+          stats.missing++;
+          // "not found" keeps the pipeline from retrying
+          throw new Error(`Stub not found for ${stage} of ${current.name}`);
+        }
+        const content = typeof stub === 'string' ? stub : JSON.stringify(stub);
+        return {
+          content,
+          provider: name,
+          model,
+          usage: {
+            inputTokens: Math.ceil(((request.system || '') + request.prompt).length / 4),
+            outputTokens: Math.ceil(content.length / 4),
+            estimated: true
+          }
+        };
+      }
+
+      const hash = requestHash(request);
+      const recording = store.get(name, model, hash);
+      if (recording) {
+        return recording.result;
+      }
+
+      if (mode !== 'record') {
+        stats.missing++;
+        throw new Error(`Recording not found for ${stage} of ${current.name} on ${name} ${model}`);
+      }
+
+      live = live || createProvider(name, model);
+      const result = await live.complete(request);
+      store.set(name, model, hash, { fixture: current.name, recordedAt: new Date().toISOString(), result });
+      stats.recorded++;
+      return result;
+    }
+  };
+}
@@ -0,0 +1,227 @@
+import fs from 'fs';
+import path from 'path';
+import { ChildProfile, EmailContent, LLMOrchestrator } from '../api/_lib/llm.js';
+import { isLLMProviderName, LLMProviderName } from '../api/_lib/providers.js';
+import { parseEml } from './eml.js';
+import { addScores, EMPTY_SCORE, ExpectedEvent, scoreEvents, summarizeScore } from './metrics.js';
+import { createReplayProvider, EvalMode, RecordingStore, ReplayStats } from './replay.js';
+
+// Offline evaluation of the extraction pipeline. Every fixture in evals/fixtures
+// (<name>.eml with <name>.expected.json) runs through LLMOrchestrator once per
+// combination in evals/combinations.json, and the run reports precision, recall,
+// date accuracy and cost per prompt version and model combination.
+//
+//   npm run eval                  answer from <name>.stub.json, to try the harness
+//   npm run eval -- --replay      replay recorded responses, no API keys needed
+//   npm run eval -- --record      call the vendor for requests not recorded yet
+//
+// Other options: --fixture <name>, --combination <index>, --out <report.json>,
+// --verbose (pipeline logs).
+
+const EVALS_DIR = path.resolve('evals');
+const FIXTURES_DIR = path.join(EVALS_DIR, 'fixtures');
+
+interface Fixture {
+  name: string;
+  content: EmailContent;
+  expected: ExpectedEvent[];
+  stubs: Record<string, unknown>; // Raw model output per stage for --stub
+}
+
+// Stage providers as "<provider>:<model>", e.g. "local:llama3.1:8b"
+interface Combination {
+  extraction: string;
+  fallback: string;
+}
+
+interface Options {
+  mode: EvalMode;
+  fixture?: string;
+  combination?: number;
+  out?: string;
+  verbose: boolean;
+}
+
+function parseArgs(argv: string[]): Options {
+  const options: Options = { mode: 'stub', verbose: false };
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--replay':
+        options.mode = 'replay';
+        break;
+      case '--record':
+        options.mode = 'record';
+        break;
+      case '--stub':
+        options.mode = 'stub';
+        break;
+      case '--fixture':
+        options.fixture = argv[++i];
+        break;
+      case '--combination':
+        options.combination = parseInt(argv[++i]);
+        break;
+      case '--out':
+        options.out = argv[++i];
+        break;
+      case '--verbose':
+        options.verbose = true;
+        break;
+      default:
+        throw new Error(`Unknown option ${argv[i]}`);
+    }
+  }
+  return options;
+}
+
+function parseProviderSpec(spec: string): { name: LLMProviderName; model: string } {
+  const separator = spec.indexOf(':');
+  const name = spec.substring(0, separator);
+  if (separator === -1 || !isLLMProviderName(name)) {
+    throw new Error(`Invalid provider "${spec}", expected <openai|gemini|claude|local>:<model>`);
+  }
+  return { name, model: spec.substring(separator + 1) };
+}
+
+function readJson(filePath: string): any {
+  return JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+}
+
+function loadFixtures(only?: string): Fixture[] {
+  const names = fs.readdirSync(FIXTURES_DIR)
+    .filter(file => file.endsWith('.eml'))
+    .map(file => file.replace(/\.eml$/, ''))
+    .filter(name => !only || name === only)
+    .sort();
+
+  if (names.length === 0) {
+    throw new Error(only ? `No fixture named ${only}` : `No .eml fixtures in ${FIXTURES_DIR}`);
+  }
+
+  return names.map(name => {
+    const expected = readJson(path.join(FIXTURES_DIR, `${name}.expected.json`));
+    const stubPath = path.join(FIXTURES_DIR, `${name}.stub.json`);
+    const content = parseEml(fs.readFileSync(path.join(FIXTURES_DIR, `${name}.eml`), 'utf-8'));
+
+    return {
+      name,
+      content: { ...content, children: expected.children as ChildProfile[] | undefined },
+      expected: expected.events as ExpectedEvent[],
+      stubs: fs.existsSync(stubPath) ? readJson(stubPath) : {}
+    };
+  });
+}
+
+// The pipeline logs every call; keep the report readable unless asked
+async function quietly<T>(verbose: boolean, run: () => Promise<T>): Promise<T> {
+  if (verbose) {
+    return run();
+  }
+  const { log, warn, error } = console;
+  console.log = console.warn = console.error = () => {};
+  try {
+    return await run();
+  } finally {
+    Object.assign(console, { log, warn, error });
+  }
+}
+
+async function evaluateCombination(combination: Combination, fixtures: Fixture[], options: Options, store: RecordingStore) {
+  const stats: ReplayStats = { calls: 0, missing: 0, recorded: 0 };
+  let current = fixtures[0];
+  const provider = (stage: 'extraction' | 'fallback') => createReplayProvider({
+    ...parseProviderSpec(combination[stage]),
+    stage,
+    mode: options.mode,
+    store,
+    stats,
+    fixture: () => current
+  });
+
+  // Classification is skipped for configured senders, as in production
+  const extraction = provider('extraction');
+  const orchestrator = new LLMOrchestrator(
+    { classification: extraction, extraction, fallback: provider('fallback'), summary: extraction },
+    { confidenceThreshold: parseFloat(process.env.CONFIDENCE_THRESHOLD || '0.7') }
+  );
+
+  let total = EMPTY_SCORE;
+  let cost = 0;
+  const perFixture = [];
+
+  for (const fixture of fixtures) {
+    current = fixture;
+    const { results, processingStats } = await quietly(options.verbose, () => orchestrator.processEmails([fixture.content]));
+    const score = scoreEvents(fixture.expected, results['email-0'] || []);
+
+    total = addScores(total, score);
+    cost += processingStats.totalCost;
+    perFixture.push({ fixture: fixture.name, ...score, ...summarizeScore(score), cost: processingStats.totalCost });
+  }
+
+  return {
+    extraction: combination.extraction,
+    fallback: combination.fallback,
+    promptVersion: `${orchestrator.extractionPromptVersion} / ${orchestrator.fallbackPromptVersion}`,
+    fixtures: fixtures.length,
+    ...total,
+    ...summarizeScore(total),
+    cost,
+    costPerFixture: cost / fixtures.length,
+    calls: stats.calls,
+    missingResponses: stats.missing,
+    recorded: stats.recorded,
+    perFixture
+  };
+}
+
+function formatRatio(value: number | null): string {
+  return value === null ? '-' : value.toFixed(3);
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const fixtures = loadFixtures(options.fixture);
+  const combinations: Combination[] = readJson(path.join(EVALS_DIR, 'combinations.json'));
+  const selected = options.combination === undefined ? combinations : [combinations[options.combination]];
+  if (selected.some(combination => !combination)) {
+    throw new Error(`No combination ${options.combination} in combinations.json`);
+  }
+
+  const store = new RecordingStore(path.join(EVALS_DIR, 'recordings'));
+  console.log(`Evaluating ${fixtures.length} fixtures on ${selected.length} combinations (${options.mode})`);
+
+  const reports = [];
+  for (const combination of selected) {
+    reports.push(await evaluateCombination(combination, fixtures, options, store));
+  }
+  store.save();
+
+  console.table(reports.map(report => ({
+    prompt: report.promptVersion,
+    extraction: report.extraction,
+    fallback: report.fallback,
+    precision: formatRatio(report.precision),
+    recall: formatRatio(report.recall),
+    'date accuracy': formatRatio(report.dateAccuracy),
+    events: `${report.correct}/${report.expected} (${report.extracted} extracted)`,
+    cost: `$${report.cost.toFixed(4)}`,
+    missing: report.missingResponses
+  })));
+
+  if (options.out) {
+    fs.writeFileSync(options.out, JSON.stringify({ createdAt: new Date().toISOString(), mode: options.mode, reports }, null, 2) + '\n');
+    console.log(`Report written to ${options.out}`);
+  }
+
+  const missing = reports.reduce((sum, report) => sum + report.missingResponses, 0);
+  if (missing > 0) {
+    console.log(`${missing} model calls had no ${options.mode === 'stub' ? 'stub' : 'recording'}; their fixtures score as if nothing was extracted.${options.mode === 'replay' ? ' Run with --record to fill them in.' : ''}`);
+    process.exitCode = 1;
+  }
+}
+
+main().catch(error => {
+  console.error('Evaluation failed:', error instanceof Error ? error.message : error);
+  process.exitCode = 1;
+});
@@ -1,6 +1,7 @@
 import { useEffect, useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '../lib/supabase';
+import { apiFetch } from '../lib/api';
 
 export default function AuthCallback() {
   const [status, setStatus] = useState<'processing' | 'success' | 'error'>('processing');
@@ -112,19 +113,31 @@ export default function AuthCallback() {
           throw new Error('Failed to get user record');
         }
 
-        // Update user record with Gmail tokens
+        // Hand the Gmail tokens to the server-side vault; the browser does not keep them
+        const vaultResponse = await apiFetch('/api/google-tokens', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({
+            userId: userData.id,
+            accessToken: providerToken,
+            refreshToken: providerRefreshToken || null
+          })
+        });
+
+        if (!vaultResponse.ok) {
+          console.error('Error storing tokens:', await vaultResponse.text());
+          throw new Error('Failed to save Gmail credentials');
+        }
+
         const { error: updateError } = await supabase
           .from('users')
-          .update({
-            gmail_token: providerToken,
-            gmail_refresh_token: providerRefreshToken,
-            last_sync_at: new Date().toISOString()
-          })
+          .update({ last_sync_at: new Date().toISOString() })
           .eq('id', userData.id);
 
         if (updateError) {
-          console.error('Error updating tokens:', updateError);
-          throw new Error('Failed to save Gmail credentials');
+          console.error('Error updating user record:', updateError);
         }
 
         setStatus('success');
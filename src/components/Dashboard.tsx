@@ -4,23 +4,43 @@ import { Card, CardContent, CardHeader, CardTitle } from './ui/card'
 import { Button } from './ui/button'
 import Calendar from './ui/calendar'
 import * as DropdownMenu from '@radix-ui/react-dropdown-menu'
-import { Calendar as CalendarIcon, Settings, Mail, Clock, CheckCircle, RefreshCw, X, BarChart3, Trash2, FileText, User, Globe, List, MoreVertical, Download, RotateCcw, Activity, Calendar as CalendarIcon2, CheckCircle2, AlertCircle, CalendarCheck, Loader2, LogOut } from 'lucide-react'
+import { Calendar as CalendarIcon, Settings, Mail, Clock, CheckCircle, RefreshCw, X, BarChart3, Trash2, FileText, User, Globe, List, MoreVertical, Download, RotateCcw, Activity, Calendar as CalendarIcon2, CheckCircle2, AlertCircle, CalendarCheck, Loader2, LogOut, Repeat, MapPin, Pencil, ClipboardCheck } from 'lucide-react'
 import { FcGoogle } from 'react-icons/fc'
 import { motion, AnimatePresence } from 'framer-motion'
-import { ExtractedDate } from '../types'
+import { ConfigSettings, EmailJobProgress, EventRevision, ExtractedDate, LlmBudgetStatus, Tag } from '../types'
 import { formatDate } from '../lib/utils'
+import { describeRecurrence, getOccurrenceDates } from '../lib/recurrence'
 import { supabase } from '../lib/supabase'
+import { apiFetch } from '../lib/api'
 import EmailSourceManager from './EmailSourceManager'
 import ProcessingDashboard from './ProcessingDashboard'
 import EmailSummaries from './EmailSummaries'
+import ReviewQueue from './ReviewQueue'
+import QuickAdd from './QuickAdd'
+import EventTrash from './EventTrash'
+import ReprocessChanges from './ReprocessChanges'
 import { useGlassToast } from './ui/glass-toast'
 import { useAuth } from '../contexts/AuthContext'
 
+interface EventDraft {
+  title: string
+  date: string
+  time: string
+  location: string
+  description: string
+}
+
+const draftInputClassName = 'px-3 py-1.5 rounded-md border border-white/20 bg-white/10 text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-primary'
+
+// Local calendar day as YYYY-MM-DD; toISOString() would shift it by the UTC offset
+const toDateInputValue = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`
+
 export default function Dashboard() {
   const navigate = useNavigate()
   const { user: authUser, loading: authLoading, signOut } = useAuth()
   const [events, setEvents] = useState<ExtractedDate[]>([])
-  const [view, setView] = useState<'calendar' | 'list' | 'processing' | 'summaries'>('calendar')
+  const [view, setView] = useState<'calendar' | 'list' | 'review' | 'trash' | 'changes' | 'processing' | 'summaries'>('calendar')
   const [dbUser, setDbUser] = useState<any>(null)
   const [isLoading, setIsLoading] = useState(true)
   const [isSyncing, setIsSyncing] = useState(false)
@@ -35,11 +55,36 @@ export default function Dashboard() {
   const [selectedEvent, setSelectedEvent] = useState<ExtractedDate | null>(null)
   const [eventToDelete, setEventToDelete] = useState<ExtractedDate | null>(null)
   const [lookbackDays, setLookbackDays] = useState(7)
+  const [syncInterval, setSyncInterval] = useState<ConfigSettings['processingInterval']>(0)
+  // null follows the deployment's default provider for each stage
+  const [llmProvider, setLlmProvider] = useState<ConfigSettings['llmProvider'] | null>(null)
+  const [budgetDraft, setBudgetDraft] = useState('')
+  const [budgetMode, setBudgetMode] = useState<LlmBudgetStatus['mode']>('stop')
+  const [budgetStatus, setBudgetStatus] = useState<LlmBudgetStatus | null>(null)
   const [calendarSyncingEventId, setCalendarSyncingEventId] = useState<string | null>(null)
+  const [kidTags, setKidTags] = useState<Tag[]>([])
+  // Kid tag id the calendar and list are filtered to; null shows every event
+  const [childFilter, setChildFilter] = useState<string | null>(null)
+  // Fields being edited in the event modal; null when not editing
+  const [eventDraft, setEventDraft] = useState<EventDraft | null>(null)
+  const [isSavingEvent, setIsSavingEvent] = useState(false)
+  // Edit history of the event in the modal; null until loaded or when never edited
+  const [eventRevisions, setEventRevisions] = useState<EventRevision[] | null>(null)
+  const [jobProgress, setJobProgress] = useState<EmailJobProgress[]>([])
+  // Added, changed and removed events a reprocess found that wait to be applied
+  const [pendingChangeCount, setPendingChangeCount] = useState(0)
+  // Unverified events below this confidence are waiting in the review queue
+  const [reviewThreshold, setReviewThreshold] = useState(0.8)
   const { addToast } = useGlassToast()
 
   const notify = useCallback(
-    (options: { title?: string; description?: string; variant?: 'info' | 'success' | 'error'; durationMs?: number }) => {
+    (options: {
+      title?: string
+      description?: string
+      variant?: 'info' | 'success' | 'error'
+      durationMs?: number
+      action?: { label: string; onClick: () => void }
+    }) => {
       addToast({
         variant: 'info',
         durationMs: 5200,
@@ -71,14 +116,22 @@ export default function Dashboard() {
     try {
       const { data, error } = await supabase
         .from('users')
-        .select('*')
+        // Google tokens stay server-side in the token vault
+        .select('id, email, auth_user_id, last_sync_at, sync_interval_minutes, next_scheduled_sync_at, scheduled_sync_failures, scheduled_sync_last_error, llm_provider, monthly_llm_budget_usd, llm_budget_mode, review_confidence_threshold')
         .eq('auth_user_id', authUserId)
         .single()
 
       if (error) throw error
 
       setDbUser(data)
+      setSyncInterval(data.sync_interval_minutes || 0)
+      setLlmProvider(data.llm_provider || null)
+      setBudgetDraft(data.monthly_llm_budget_usd !== null && data.monthly_llm_budget_usd !== undefined ? String(data.monthly_llm_budget_usd) : '')
+      setBudgetMode(data.llm_budget_mode || 'stop')
+      setReviewThreshold(data.review_confidence_threshold ?? 0.8)
       fetchEvents(data.id)
+      fetchLlmBudget()
+      fetchReprocessChanges()
     } catch (error) {
       console.error('Error fetching user:', error)
       notify({
@@ -98,14 +151,24 @@ export default function Dashboard() {
         .from('extracted_dates')
         .select(`
           *,
-          processed_emails!inner(
+          processed_emails(
             sender_email,
             subject,
             sent_date,
             email_body_preview
+          ),
+          extracted_date_tags(
+            tags(
+              id,
+              name,
+              type,
+              color,
+              emoji
+            )
           )
         `)
         .eq('user_id', userId)
+        .is('deleted_at', null)
         .order('event_date', { ascending: true })
 
       if (error) {
@@ -138,9 +201,33 @@ export default function Dashboard() {
       
       console.log('Fetched email sources with explicit join:', emailSources);
 
+      const { data: kidTagData, error: kidTagsError } = await supabase
+        .from('tags')
+        .select('id, name, type, color, emoji')
+        .eq('user_id', userId)
+        .eq('type', 'kid')
+        .order('name', { ascending: true })
+
+      if (kidTagsError) {
+        console.error('Error fetching kid tags:', kidTagsError);
+      }
+
+      const toTag = (tag: any): Tag => ({
+        id: tag.id,
+        userId: userId,
+        name: tag.name,
+        type: tag.type,
+        color: tag.color,
+        emoji: tag.emoji,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      })
+      setKidTags((kidTagData || []).map(toTag))
+
       const formattedEvents = data.map(event => {
-        // Find matching email source based on sender email
-        const senderEmail = event.processed_emails.sender_email;
+        // Find matching email source based on sender email (manual events have no email)
+        const email = event.processed_emails
+        const senderEmail = email?.sender_email || '';
         console.log('Processing event with sender:', senderEmail);
         console.log('Available email sources:', emailSources?.map(s => ({ email: s.email, hasTag: !!s.tags })));
         
@@ -188,28 +275,35 @@ export default function Dashboard() {
         return {
           ...event,
           eventDate: new Date(event.event_date + 'T00:00:00'), // Add time to avoid timezone issues
+          eventEndDate: event.event_end_date ? new Date(event.event_end_date + 'T00:00:00') : undefined,
+          eventEndTime: event.event_end_time || undefined,
+          location: event.location || undefined,
           eventTitle: event.event_title, // Map snake_case to camelCase
+          eventTime: event.event_time ? event.event_time.substring(0, 5) : undefined,
           extractedAt: new Date(event.extracted_at),
           confidenceScore: event.confidence_score, // Map snake_case to camelCase
-          senderEmail: event.processed_emails.sender_email,
-          senderName: event.processed_emails.sender_email.split('@')[0], // Extract name from email
-          emailSubject: event.processed_emails.subject,
-          emailSentDate: new Date(event.processed_emails.sent_date),
-          emailBodyPreview: event.processed_emails.email_body_preview,
-          tag: tagData ? {
-            id: tagData.id,
-            userId: userId,
-            name: tagData.name,
-            type: tagData.type,
-            color: tagData.color,
-            emoji: tagData.emoji,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          } : undefined,
+          isVerified: event.is_verified,
+          senderEmail: email?.sender_email,
+          senderName: email?.sender_email.split('@')[0], // Extract name from email
+          emailSubject: email?.subject,
+          emailSentDate: email ? new Date(email.sent_date) : undefined,
+          emailBodyPreview: email?.email_body_preview,
+          sourceText: event.source_text || undefined,
+          source: event.source || 'llm',
+          recurrenceRule: event.recurrence_rule || undefined,
+          recurrenceExceptions: event.recurrence_exceptions || undefined,
+          sourceAttachment: event.source_attachment || undefined,
+          children: (event.extracted_date_tags || [])
+            .map((assignment: any) => Array.isArray(assignment.tags) ? assignment.tags[0] : assignment.tags)
+            .filter(Boolean)
+            .map(toTag),
+          tag: tagData ? toTag(tagData) : undefined,
           googleCalendarEventId: event.google_calendar_event_id || undefined,
           googleCalendarSyncedAt: syncedAt,
           googleCalendarSyncStatus: event.google_calendar_sync_status || undefined,
-          googleCalendarSyncError: event.google_calendar_sync_error || undefined
+          googleCalendarSyncError: event.google_calendar_sync_error || undefined,
+          editedAt: event.edited_at ? new Date(event.edited_at) : undefined,
+          editedFields: event.edited_fields || []
         }
       })
 
@@ -224,19 +318,146 @@ export default function Dashboard() {
     }
   }
 
+  const loadEventRevisions = async (eventId: string) => {
+    try {
+      const response = await apiFetch(`/api/event-revisions?eventId=${encodeURIComponent(eventId)}`)
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to load edit history')
+      }
+      setEventRevisions(result.revisions || [])
+    } catch (error) {
+      console.error('Error loading edit history:', error)
+    }
+  }
+
   const handleEventClick = (event: ExtractedDate) => {
+    setEventDraft(null)
+    setEventRevisions(null)
     setSelectedEvent(event)
+    if (event.editedAt) {
+      loadEventRevisions(event.id)
+    }
   }
 
   const closeEventModal = () => {
+    setEventDraft(null)
+    setEventRevisions(null)
     setSelectedEvent(null)
   }
 
+  const startEditingEvent = (event: ExtractedDate) => {
+    setEventDraft({
+      title: event.eventTitle,
+      date: toDateInputValue(event.eventDate),
+      time: event.eventTime || '',
+      location: event.location || '',
+      description: event.description || ''
+    })
+  }
+
+  // Edits go through the API, which stores a revision of every change so that
+  // reprocessing keeps them. Returns false when the edit was not saved.
+  const saveEventChanges = async (event: ExtractedDate, changes: Record<string, unknown>) => {
+    try {
+      const response = await apiFetch('/api/event-revisions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId: event.id, changes })
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || result.message || 'Failed to update event')
+      }
+
+      const row = result.event
+      updateEventState(event.id, current => ({
+        ...current,
+        eventTitle: row.event_title,
+        eventDate: new Date(row.event_date + 'T00:00:00'),
+        eventTime: row.event_time ? row.event_time.substring(0, 5) : undefined,
+        location: row.location || undefined,
+        description: row.description || undefined,
+        editedAt: row.edited_at ? new Date(row.edited_at) : undefined,
+        editedFields: row.edited_fields || []
+      }))
+      if (row.edited_at) {
+        loadEventRevisions(event.id)
+      }
+      return true
+    } catch (error) {
+      console.error('Error updating event:', error)
+      notify({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to update event',
+        variant: 'error'
+      })
+      return false
+    }
+  }
+
+  const handleSaveEvent = async (event: ExtractedDate) => {
+    if (!eventDraft) return
+
+    setIsSavingEvent(true)
+    const saved = await saveEventChanges(event, {
+      title: eventDraft.title,
+      date: eventDraft.date,
+      time: eventDraft.time || null,
+      location: eventDraft.location,
+      description: eventDraft.description
+    })
+    setIsSavingEvent(false)
+
+    if (!saved) return
+    setEventDraft(null)
+
+    notify({
+      title: 'Event updated',
+      description: event.googleCalendarSyncStatus === 'synced'
+        ? 'Update the calendar event to send it to Google Calendar.'
+        : eventDraft.title,
+      variant: 'success'
+    })
+  }
+
+  const handleToggleChild = async (event: ExtractedDate, child: Tag) => {
+    const isAssigned = (event.children || []).some(tag => tag.id === child.id)
+    const children = isAssigned
+      ? (event.children || []).filter(tag => tag.id !== child.id)
+      : [...(event.children || []), child]
+
+    if (await saveEventChanges(event, { tagIds: children.map(tag => tag.id) })) {
+      updateEventState(event.id, current => ({ ...current, children }))
+    }
+  }
+
+  const handleRestoreEvent = async (event: ExtractedDate) => {
+    const { error } = await supabase
+      .from('extracted_dates')
+      .update({ deleted_at: null })
+      .eq('id', event.id)
+
+    if (error) {
+      console.error('Error restoring event:', error)
+      notify({
+        title: 'Restore failed',
+        description: error.message,
+        variant: 'error'
+      })
+      return
+    }
+
+    setEvents(prevEvents => [...prevEvents, event].sort((a, b) => a.eventDate.getTime() - b.eventDate.getTime()))
+  }
+
+  // Deleting sets deleted_at: the event moves to Trash, and the tombstone keeps
+  // reprocessing from extracting it again
   const handleDeleteEvent = async (event: ExtractedDate) => {
     try {
       const { error } = await supabase
         .from('extracted_dates')
-        .delete()
+        .update({ deleted_at: new Date().toISOString() })
         .eq('id', event.id)
 
       if (error) {
@@ -244,16 +465,18 @@ export default function Dashboard() {
       }
 
       // Remove the event from local state
-      setEvents(events.filter(e => e.id !== event.id))
+      setEvents(prevEvents => prevEvents.filter(e => e.id !== event.id))
       
       // Close modals
       setEventToDelete(null)
       setSelectedEvent(null)
 
       notify({
-        title: 'Event removed',
+        title: 'Moved to Trash',
         description: event.eventTitle,
-        variant: 'info'
+        variant: 'info',
+        durationMs: 8000,
+        action: { label: 'Undo', onClick: () => handleRestoreEvent(event) }
       })
       console.log(`Successfully deleted event: ${event.eventTitle}`)
     } catch (error) {
@@ -286,9 +509,12 @@ export default function Dashboard() {
     }
 
     const timeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
-    const eventDateString = event.eventDate instanceof Date
-      ? event.eventDate.toISOString().split('T')[0]
-      : new Date(event.eventDate).toISOString().split('T')[0]
+    // Local calendar day; toISOString() would shift it by the UTC offset
+    const toDateString = (date: Date | string) => {
+      const day = new Date(date)
+      return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`
+    }
+    const eventDateString = toDateString(event.eventDate)
 
     setCalendarSyncingEventId(event.id)
     updateEventState(event.id, current => ({
@@ -298,25 +524,27 @@ export default function Dashboard() {
     }))
 
     try {
-      const response = await fetch('/api/sync-calendar-event', {
+      const response = await apiFetch('/api/sync-calendar-event', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
         body: JSON.stringify({
           userId: dbUser.id,
-          accessToken: dbUser.gmail_token,
-          refreshToken: dbUser.gmail_refresh_token,
           timeZone,
           event: {
             id: event.id,
             title: event.eventTitle,
             date: eventDateString,
             time: event.eventTime || null,
+            endDate: event.eventEndDate ? toDateString(event.eventEndDate) : null,
+            endTime: event.eventEndTime || null,
             description: event.description || null,
             emailSubject: event.emailSubject || null,
-            location: undefined,
-            durationMinutes: event.eventTime ? 60 : null,
+            location: event.location || null,
+            durationMinutes: event.eventTime && !event.eventEndTime ? 60 : null,
+            recurrenceRule: event.recurrenceRule || null,
+            recurrenceExceptions: event.recurrenceExceptions || [],
             calendarEventId: event.googleCalendarEventId || null
           }
         })
@@ -381,54 +609,317 @@ export default function Dashboard() {
     }
   }
 
-  const handleSyncEmails = async () => {
+  const handleSyncIntervalChange = async (minutes: ConfigSettings['processingInterval']) => {
     if (!dbUser) return
 
-    setIsSyncing(true)
-    setProcessingPhase('🔍 Connecting to Gmail and preparing to sync...')
-    setProcessingProgress({ current: 0, total: 0, emailsProcessed: 0, eventsExtracted: 0 })
+    const previousInterval = syncInterval
+    setSyncInterval(minutes)
+
+    const { error } = await supabase
+      .from('users')
+      .update({
+        sync_interval_minutes: minutes,
+        next_scheduled_sync_at: minutes > 0 ? new Date(Date.now() + minutes * 60 * 1000).toISOString() : null,
+        scheduled_sync_failures: 0,
+        scheduled_sync_last_error: null
+      })
+      .eq('id', dbUser.id)
+
+    if (error) {
+      console.error('Error updating sync schedule:', error)
+      setSyncInterval(previousInterval)
+      notify({
+        title: 'Error',
+        description: 'Failed to update automatic sync',
+        variant: 'error'
+      })
+      return
+    }
+
+    notify({
+      title: minutes > 0 ? 'Automatic sync on' : 'Automatic sync off',
+      description: minutes > 0
+        ? 'New school emails will be synced in the background.'
+        : 'Emails will only sync when you run a sync.',
+      variant: 'success'
+    })
+  }
+
+  const handleLlmProviderChange = async (provider: ConfigSettings['llmProvider'] | null) => {
+    if (!dbUser) return
+
+    const previousProvider = llmProvider
+    setLlmProvider(provider)
+
+    const { error } = await supabase
+      .from('users')
+      .update({ llm_provider: provider })
+      .eq('id', dbUser.id)
+
+    if (error) {
+      console.error('Error updating AI provider:', error)
+      setLlmProvider(previousProvider)
+      notify({
+        title: 'Error',
+        description: 'Failed to update AI provider',
+        variant: 'error'
+      })
+      return
+    }
 
+    notify({
+      title: 'AI provider updated',
+      description: 'New emails and summaries will be processed with this provider.',
+      variant: 'success'
+    })
+  }
+
+  const fetchLlmBudget = async () => {
     try {
-      setProcessingPhase('📧 Retrieving emails from Gmail...')
+      const response = await apiFetch('/api/llm-budget')
+      if (!response.ok) return
+      setBudgetStatus(await response.json())
+    } catch (error) {
+      console.error('Error fetching AI budget:', error)
+    }
+  }
+
+  const fetchReprocessChanges = async () => {
+    try {
+      const response = await apiFetch('/api/reprocess-changes')
+      if (!response.ok) return
+      const { counts } = await response.json()
+      const count = counts.added + counts.changed + counts.removed
+      setPendingChangeCount(count)
+      return count
+    } catch (error) {
+      console.error('Error fetching reprocess changes:', error)
+    }
+  }
+
+  const handleBudgetSave = async () => {
+    if (!dbUser) return
+
+    const trimmed = budgetDraft.trim()
+    const limit = trimmed === '' ? null : Number(trimmed)
+    if (limit !== null && (!Number.isFinite(limit) || limit < 0)) {
+      notify({
+        title: 'Invalid budget',
+        description: 'Enter an amount in USD, or leave it empty for no limit.',
+        variant: 'error'
+      })
+      return
+    }
+
+    const previousLimit = budgetStatus?.limitUsd ?? null
+    if (limit === previousLimit) return
+
+    const { error } = await supabase
+      .from('users')
+      .update({ monthly_llm_budget_usd: limit })
+      .eq('id', dbUser.id)
+
+    if (error) {
+      console.error('Error updating AI budget:', error)
+      setBudgetDraft(previousLimit !== null ? String(previousLimit) : '')
+      notify({
+        title: 'Error',
+        description: 'Failed to update AI budget',
+        variant: 'error'
+      })
+      return
+    }
+
+    await fetchLlmBudget()
+    notify({
+      title: limit !== null ? 'AI budget updated' : 'AI budget removed',
+      description: limit !== null
+        ? `AI processing is limited to $${limit.toFixed(2)} per month.`
+        : 'AI processing is no longer limited.',
+      variant: 'success'
+    })
+  }
+
+  const handleBudgetModeChange = async (mode: LlmBudgetStatus['mode']) => {
+    if (!dbUser) return
+
+    const previousMode = budgetMode
+    setBudgetMode(mode)
+
+    const { error } = await supabase
+      .from('users')
+      .update({ llm_budget_mode: mode })
+      .eq('id', dbUser.id)
+
+    if (error) {
+      console.error('Error updating AI budget mode:', error)
+      setBudgetMode(previousMode)
+      notify({
+        title: 'Error',
+        description: 'Failed to update AI budget mode',
+        variant: 'error'
+      })
+      return
+    }
 
-      const response = await fetch('/api/sync-emails', {
+    setBudgetStatus(prev => (prev ? { ...prev, mode } : prev))
+  }
+
+  // Long syncs pause before the serverless time limit and report `partial`;
+  // keep calling until the server has walked every page. Returns null when the API is missing.
+  const requestEmailSync = async (forceReprocess: boolean) => {
+    const totals = {
+      processed: 0,
+      jobsEnqueued: 0,
+      duplicatesRemoved: 0,
+      skippedDuplicateEmails: 0
+    }
+
+    while (true) {
+      const response = await apiFetch('/api/sync-emails', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           userId: dbUser.id,
-          accessToken: dbUser.gmail_token,
-          refreshToken: dbUser.gmail_refresh_token,
-          forceReprocess: false,
+          forceReprocess,
           lookbackDays: lookbackDays
         }),
       })
 
       if (!response.ok) {
-        // If we're running locally and the API doesn't exist, show a helpful message
         if (response.status === 404) {
-          notify({
-            title: 'API unavailable',
-            description: 'Try this action in the deployed Vercel app – the local endpoint is missing.',
-            variant: 'info'
-          })
-          return
+          return null
+        }
+        // The monthly AI budget blocked the sync before anything was fetched
+        if (response.status === 402) {
+          const body = await response.json().catch(() => null)
+          if (body?.budget) setBudgetStatus(body.budget)
+          throw new Error(body?.message || 'Your monthly AI budget is used up')
         }
-        throw new Error('Failed to sync emails')
+        throw new Error(forceReprocess ? 'Failed to reprocess emails' : 'Failed to sync emails')
       }
 
-      setProcessingPhase('🤖 Processing emails with AI...')
-
       const result = await response.json()
+      totals.processed += result.processed || 0
+      totals.jobsEnqueued += result.jobsEnqueued || 0
+      totals.duplicatesRemoved += result.duplicatesRemoved || 0
+      totals.skippedDuplicateEmails += result.skippedDuplicateEmails || 0
+
+      if (!result.partial) {
+        return { ...result, ...totals }
+      }
 
-      // Update progress with final results
+      setProcessingPhase(`📬 Still working through your inbox – ${totals.processed} emails so far (${result.pagesCompleted} pages)...`)
+    }
+  }
+
+  // Extraction runs as background jobs: keep kicking the worker and poll email_jobs
+  // for per-email progress until nothing is runnable for this sync session
+  const drainEmailJobs = async (sessionId: string | null, since: string) => {
+    const pollJobs = async () => {
+      let query = supabase
+        .from('email_jobs')
+        .select('id, email_id, status, attempts, last_error, result, processed_emails(subject)')
+        .eq('user_id', dbUser.id)
+        .order('created_at', { ascending: true })
+
+      query = sessionId ? query.eq('session_id', sessionId) : query.gte('created_at', since)
+
+      const { data, error } = await query
+      if (error) {
+        console.error('Error polling email jobs:', error)
+        return []
+      }
+
+      const jobs: EmailJobProgress[] = (data || []).map((job: any) => ({
+        id: job.id,
+        emailId: job.email_id,
+        subject: job.processed_emails?.subject || 'Untitled email',
+        status: job.status,
+        attempts: job.attempts,
+        eventsStored: job.result?.eventsStored || 0,
+        changesStaged: job.result?.changesStaged || 0,
+        lastError: job.last_error || undefined
+      }))
+
+      const settled = jobs.filter(job => job.status === 'completed' || job.status === 'dead')
+      setJobProgress(jobs)
       setProcessingProgress({
-        current: result.processed || 0,
-        total: result.processed || 0,
-        emailsProcessed: result.processed || 0,
-        eventsExtracted: result.extracted || 0
+        current: settled.length,
+        total: jobs.length,
+        emailsProcessed: settled.length,
+        eventsExtracted: jobs.reduce((sum, job) => sum + job.eventsStored, 0)
       })
+      return jobs
+    }
+
+    await pollJobs()
+    const pollInterval = setInterval(pollJobs, 2000)
+
+    try {
+      while (true) {
+        const response = await apiFetch('/api/process-email-jobs', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ userId: dbUser.id }),
+        })
+
+        if (!response.ok) {
+          throw new Error('Failed to process email jobs')
+        }
+
+        const result = await response.json()
+        // Jobs waiting out a retry backoff are left to the scheduled worker
+        if (result.claimed === 0 || result.remaining === 0) {
+          break
+        }
+      }
+    } finally {
+      clearInterval(pollInterval)
+    }
+
+    const jobs = await pollJobs()
+    return {
+      completed: jobs.filter(job => job.status === 'completed').length,
+      failed: jobs.filter(job => job.status === 'dead').length,
+      pending: jobs.filter(job => job.status === 'queued' || job.status === 'running').length,
+      batched: jobs.filter(job => job.status === 'batched').length,
+      eventsStored: jobs.reduce((sum, job) => sum + job.eventsStored, 0),
+      changesStaged: jobs.reduce((sum, job) => sum + job.changesStaged, 0)
+    }
+  }
+
+  const handleSyncEmails = async () => {
+    if (!dbUser) return
+
+    setIsSyncing(true)
+    setProcessingPhase('🔍 Connecting to Gmail and preparing to sync...')
+    setProcessingProgress({ current: 0, total: 0, emailsProcessed: 0, eventsExtracted: 0 })
+    setJobProgress([])
+
+    try {
+      setProcessingPhase('📧 Retrieving emails from Gmail...')
+
+      const syncStartedAt = new Date().toISOString()
+      const result = await requestEmailSync(false)
+
+      // If we're running locally and the API doesn't exist, show a helpful message
+      if (!result) {
+        notify({
+          title: 'API unavailable',
+          description: 'Try this action in the deployed Vercel app – the local endpoint is missing.',
+          variant: 'info'
+        })
+        return
+      }
+
+      setProcessingPhase('🤖 Extracting events with AI...')
+
+      const jobSummary = await drainEmailJobs(result.sessionId, syncStartedAt)
 
       setProcessingPhase('🔄 Refreshing your calendar...')
 
@@ -442,15 +933,24 @@ export default function Dashboard() {
         setProcessingPhase('')
       }, 2000)
 
-      let message = `Sync completed! Processed ${result.processed} emails and extracted ${result.extracted} dates.\nLooked back ${lookbackDays} day${lookbackDays !== 1 ? 's' : ''} for emails.`
+      let message = `Sync completed! Processed ${jobSummary.completed} emails and extracted ${jobSummary.eventsStored} dates.`
+      if (result.syncMode !== 'history') {
+        message += `\nLooked back ${lookbackDays} day${lookbackDays !== 1 ? 's' : ''} for emails.`
+      }
       if (result.duplicatesRemoved > 0) {
         message += `\nRemoved ${result.duplicatesRemoved} duplicate events.`
       }
       if (result.skippedDuplicateEmails > 0) {
         message += `\nSkipped ${result.skippedDuplicateEmails} already processed emails.`
       }
-      if (result.skippedDuplicateEvents > 0) {
-        message += `\nSkipped ${result.skippedDuplicateEvents} duplicate events.`
+      if (jobSummary.failed > 0) {
+        message += `\n${jobSummary.failed} emails could not be processed.`
+      }
+      if (jobSummary.pending > 0) {
+        message += `\n${jobSummary.pending} emails will be retried in the background.`
+      }
+      if (jobSummary.batched > 0) {
+        message += `\n${jobSummary.batched} emails are in a batch, their events appear within 24 hours.`
       }
 
       notify({
@@ -488,6 +988,7 @@ export default function Dashboard() {
       }
     } finally {
       setIsSyncing(false)
+      fetchLlmBudget()
     }
   }
 
@@ -495,67 +996,43 @@ export default function Dashboard() {
     if (!dbUser) return
 
     const confirmed = confirm(
-      'This will reprocess all emails and clean up duplicate events. This may take a while. Continue?'
+      'This will extract events from all emails of the last 90 days again. Your events stay as they are until you review and apply the changes found. This may take a while. Continue?'
     )
     if (!confirmed) return
 
     setIsSyncing(true)
     setProcessingPhase('🔄 Preparing to reprocess all emails...')
     setProcessingProgress({ current: 0, total: 0, emailsProcessed: 0, eventsExtracted: 0 })
+    setJobProgress([])
 
     try {
-      setProcessingPhase('🗑️ Cleaning up existing data...')
+      setProcessingPhase('📧 Retrieving emails from Gmail for reprocessing (90-day history)...')
 
-      const response = await fetch('/api/sync-emails', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          userId: dbUser.id,
-          accessToken: dbUser.gmail_token,
-          refreshToken: dbUser.gmail_refresh_token,
-          forceReprocess: true,
-          lookbackDays: lookbackDays
-        }),
-      })
+      const syncStartedAt = new Date().toISOString()
+      const result = await requestEmailSync(true)
 
-      if (!response.ok) {
-        // If we're running locally and the API doesn't exist, show a helpful message
-        if (response.status === 404) {
-          notify({
-            title: 'API unavailable',
-            description: 'Try this action in the deployed Vercel app – the local endpoint is missing.',
-            variant: 'info'
-          })
-          return
-        }
-        throw new Error('Failed to reprocess emails')
+      // If we're running locally and the API doesn't exist, show a helpful message
+      if (!result) {
+        notify({
+          title: 'API unavailable',
+          description: 'Try this action in the deployed Vercel app – the local endpoint is missing.',
+          variant: 'info'
+        })
+        return
       }
 
-      setProcessingPhase('📧 Retrieving emails from Gmail (90-day history)...')
+      setProcessingPhase('🤖 Extracting events with AI (this may take a while)...')
 
-      // Since reprocessing can take longer, we'll show an intermediate phase
-      setTimeout(() => {
-        if (isSyncing) {
-          setProcessingPhase('🤖 Processing emails with AI (this may take a while)...')
-        }
-      }, 3000)
-
-      const result = await response.json()
-
-      // Update progress with final results
-      setProcessingProgress({
-        current: result.processed || 0,
-        total: result.processed || 0,
-        emailsProcessed: result.processed || 0,
-        eventsExtracted: result.extracted || 0
-      })
+      const jobSummary = await drainEmailJobs(result.sessionId, syncStartedAt)
 
-      setProcessingPhase('🔄 Refreshing your calendar...')
+      setProcessingPhase('🔄 Comparing with your calendar...')
 
-      // Refresh events after reprocessing
+      // Calendar imports are added right away; extracted events wait for review
       await fetchEvents(dbUser.id)
+      const changeCount = await fetchReprocessChanges() || 0
+      if (changeCount > 0) {
+        setView('changes')
+      }
 
       setProcessingPhase('✅ Reprocessing completed successfully!')
 
@@ -564,9 +1041,17 @@ export default function Dashboard() {
         setProcessingPhase('')
       }, 2000)
 
-      let message = `Reprocessing completed! Processed ${result.processed} emails and extracted ${result.extracted} dates.\nUsed ${lookbackDays}-day lookback period (reprocess uses up to 90 days).`
-      if (result.duplicatesRemoved > 0) {
-        message += `\nRemoved ${result.duplicatesRemoved} duplicate events during cleanup.`
+      let message = changeCount > 0
+        ? `Reprocessing completed! Processed ${jobSummary.completed} emails and found ${changeCount} changes to your events, review them before they are applied.`
+        : `Reprocessing completed! Processed ${jobSummary.completed} emails, your events are up to date.`
+      if (jobSummary.failed > 0) {
+        message += `\n${jobSummary.failed} emails could not be processed.`
+      }
+      if (jobSummary.pending > 0) {
+        message += `\n${jobSummary.pending} emails will be retried in the background.`
+      }
+      if (jobSummary.batched > 0) {
+        message += `\n${jobSummary.batched} emails are in a batch, their events appear within 24 hours.`
       }
 
       notify({
@@ -604,9 +1089,23 @@ export default function Dashboard() {
       }
     } finally {
       setIsSyncing(false)
+      fetchLlmBudget()
     }
   }
 
+  // Events attributed to children match on those; the rest fall back to the
+  // kid tag of the email source they came from
+  const getEventChildIds = (event: ExtractedDate) =>
+    event.children && event.children.length > 0
+      ? event.children.map(tag => tag.id)
+      : event.tag?.type === 'kid' ? [event.tag.id] : []
+
+  const visibleEvents = childFilter
+    ? events.filter(event => getEventChildIds(event).includes(childFilter))
+    : events
+
+  const pendingReviewCount = events.filter(event => !event.isVerified && event.confidenceScore < reviewThreshold).length
+
   // Show loading state
   if (authLoading || isLoading) {
     return (
@@ -807,6 +1306,89 @@ export default function Dashboard() {
                       <option value={30}>30 days</option>
                     </select>
                   </div>
+
+                  <div className="px-3 py-2">
+                    <label htmlFor="sync-interval-select" className="text-xs font-medium text-slate-200 block mb-1">
+                      Automatic Sync
+                    </label>
+                    <select
+                      id="sync-interval-select"
+                      value={syncInterval}
+                      onChange={(e) => handleSyncIntervalChange(parseInt(e.target.value))}
+                      className="w-full px-3 py-2 text-xs rounded-md border border-white/15 bg-white/10 text-slate-100 focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+                    >
+                      <option value={0}>Off</option>
+                      <option value={60}>Every hour</option>
+                      <option value={360}>Every 6 hours</option>
+                      <option value={720}>Every 12 hours</option>
+                      <option value={1440}>Daily</option>
+                    </select>
+                    {syncInterval > 0 && dbUser?.scheduled_sync_failures > 0 && (
+                      <p className="mt-1 text-[11px] text-amber-300" title={dbUser.scheduled_sync_last_error || undefined}>
+                        Last automatic sync failed, retrying with backoff
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="px-3 py-2">
+                    <label htmlFor="llm-provider-select" className="text-xs font-medium text-slate-200 block mb-1">
+                      AI Provider
+                    </label>
+                    <select
+                      id="llm-provider-select"
+                      value={llmProvider || ''}
+                      onChange={(e) => handleLlmProviderChange((e.target.value || null) as ConfigSettings['llmProvider'] | null)}
+                      className="w-full px-3 py-2 text-xs rounded-md border border-white/15 bg-white/10 text-slate-100 focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+                    >
+                      <option value="">Default</option>
+                      <option value="openai">OpenAI</option>
+                      <option value="gemini">Google Gemini</option>
+                      <option value="claude">Anthropic Claude</option>
+                      <option value="local">Local (self-hosted)</option>
+                    </select>
+                    {llmProvider === 'local' && (
+                      <p className="mt-1 text-[11px] text-slate-300">
+                        Emails are only sent to your own model server
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="px-3 py-2">
+                    <label htmlFor="llm-budget-input" className="text-xs font-medium text-slate-200 block mb-1">
+                      Monthly AI Budget (USD)
+                    </label>
+                    <input
+                      id="llm-budget-input"
+                      type="number"
+                      min={0}
+                      step={0.5}
+                      placeholder="No limit"
+                      value={budgetDraft}
+                      onChange={(e) => setBudgetDraft(e.target.value)}
+                      onBlur={handleBudgetSave}
+                      onKeyDown={(e) => {
+                        // Keep typing inside the menu from triggering item typeahead
+                        e.stopPropagation()
+                        if (e.key === 'Enter') handleBudgetSave()
+                      }}
+                      className="w-full px-3 py-2 text-xs rounded-md border border-white/15 bg-white/10 text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+                    />
+                    <select
+                      id="llm-budget-mode-select"
+                      aria-label="When the budget is reached"
+                      value={budgetMode}
+                      onChange={(e) => handleBudgetModeChange(e.target.value as LlmBudgetStatus['mode'])}
+                      className="mt-2 w-full px-3 py-2 text-xs rounded-md border border-white/15 bg-white/10 text-slate-100 focus:outline-none focus:ring-1 focus:ring-primary focus:border-primary"
+                    >
+                      <option value="stop">Pause processing at the limit</option>
+                      <option value="degrade">Switch to cheaper models at the limit</option>
+                    </select>
+                    {budgetStatus && budgetStatus.limitUsd !== null && (
+                      <p className="mt-1 text-[11px] text-slate-300">
+                        ${budgetStatus.spentUsd.toFixed(2)} of ${budgetStatus.limitUsd.toFixed(2)} used this month
+                      </p>
+                    )}
+                  </div>
                 </DropdownMenu.Content>
               </DropdownMenu.Portal>
             </DropdownMenu.Root>
@@ -823,6 +1405,11 @@ export default function Dashboard() {
               >
                 <option value="calendar">Calendar</option>
                 <option value="list">Event List</option>
+                <option value="review">Review Queue</option>
+                <option value="trash">Trash</option>
+                {(pendingChangeCount > 0 || view === 'changes') && (
+                  <option value="changes">Reprocess Changes</option>
+                )}
                 <option value="summaries">Email Summaries</option>
                 <option value="processing">Processing Dashboard</option>
               </select>
@@ -844,6 +1431,27 @@ export default function Dashboard() {
               >
                 <List className="h-4 w-4" />
               </Button>
+              <Button
+                variant={view === 'review' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('review')}
+                className="h-8 relative"
+              >
+                <ClipboardCheck className="h-4 w-4" />
+                {pendingReviewCount > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-amber-400 text-[10px] font-semibold leading-4 text-slate-900">
+                    {pendingReviewCount}
+                  </span>
+                )}
+              </Button>
+              <Button
+                variant={view === 'trash' ? 'default' : 'ghost'}
+                size="sm"
+                onClick={() => setView('trash')}
+                className="h-8"
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
               <Button
                 variant={view === 'summaries' ? 'default' : 'ghost'}
                 size="sm"
@@ -866,6 +1474,49 @@ export default function Dashboard() {
       </div>
 
       <div className="max-w-7xl mx-auto px-4 py-6 sm:px-6">
+        {/* AI Budget Banner */}
+        {budgetStatus && budgetStatus.limitUsd !== null && (budgetStatus.state === 'warning' || budgetStatus.state === 'exceeded') && (
+          <div
+            className={`mb-6 flex items-start gap-3 rounded-2xl border p-4 text-sm ${
+              budgetStatus.state === 'exceeded'
+                ? 'border-red-400/30 bg-red-500/15 text-red-100'
+                : 'border-amber-400/30 bg-amber-500/15 text-amber-100'
+            }`}
+          >
+            <AlertCircle className="h-5 w-5 flex-shrink-0" />
+            <div>
+              <div className="font-medium">
+                {budgetStatus.state === 'exceeded' ? 'Monthly AI budget reached' : 'Monthly AI budget almost used'}
+              </div>
+              <div className="mt-1 opacity-90">
+                ${budgetStatus.spentUsd.toFixed(2)} of ${budgetStatus.limitUsd.toFixed(2)} spent this month.{' '}
+                {budgetStatus.state === 'exceeded'
+                  ? budgetStatus.mode === 'degrade'
+                    ? 'New emails are processed with cheaper models until'
+                    : 'New emails wait for processing until'
+                  : 'The budget resets on'}{' '}
+                {new Date(budgetStatus.periodEnd).toLocaleDateString(undefined, { month: 'long', day: 'numeric', timeZone: 'UTC' })}.
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Reprocess Changes Banner */}
+        {pendingChangeCount > 0 && view !== 'changes' && !isSyncing && (
+          <div className="mb-6 flex flex-col gap-3 rounded-2xl border border-primary/30 bg-primary/15 p-4 text-sm text-slate-100 sm:flex-row sm:items-center sm:justify-between">
+            <div className="flex items-start gap-3">
+              <RotateCcw className="h-5 w-5 flex-shrink-0" />
+              <div>
+                <div className="font-medium">Reprocessing found {pendingChangeCount} changes to your events</div>
+                <div className="mt-1 opacity-90">Nothing on your calendar changes until you review and apply them.</div>
+              </div>
+            </div>
+            <Button size="sm" onClick={() => setView('changes')} className="self-start sm:self-center">
+              Review changes
+            </Button>
+          </div>
+        )}
+
         {/* Processing Status Banner */}
         {isSyncing && (
           <div className="mb-6 rounded-2xl border border-white/12 bg-white/10 p-5 text-slate-100 shadow-[0_25px_55px_-25px_rgba(0,0,0,0.85)] sm:p-6">
@@ -905,6 +1556,36 @@ export default function Dashboard() {
                       </div>
                     </div>
                   )}
+                  {jobProgress.length > 0 && (
+                    <ul className="mt-3 max-h-40 space-y-1 overflow-y-auto pr-1 text-xs text-slate-300">
+                      {jobProgress.map(job => (
+                        <li key={job.id} className="flex items-center gap-2">
+                          {job.status === 'completed' ? (
+                            <CheckCircle2 className="h-3.5 w-3.5 flex-shrink-0 text-emerald-300" />
+                          ) : job.status === 'dead' ? (
+                            <AlertCircle className="h-3.5 w-3.5 flex-shrink-0 text-rose-300" />
+                          ) : job.status === 'running' ? (
+                            <Loader2 className="h-3.5 w-3.5 flex-shrink-0 animate-spin text-primary" />
+                          ) : (
+                            <Clock className="h-3.5 w-3.5 flex-shrink-0 text-slate-400" />
+                          )}
+                          <span className="truncate">{job.subject}</span>
+                          {job.status === 'completed' && job.eventsStored > 0 && (
+                            <span className="flex-shrink-0 text-slate-400">{job.eventsStored} events</span>
+                          )}
+                          {job.status === 'completed' && job.changesStaged > 0 && (
+                            <span className="flex-shrink-0 text-slate-400">{job.changesStaged} changes</span>
+                          )}
+                          {job.status === 'queued' && job.attempts > 0 && (
+                            <span className="flex-shrink-0 text-amber-300" title={job.lastError}>retrying</span>
+                          )}
+                          {job.status === 'batched' && (
+                            <span className="flex-shrink-0 text-slate-400">in batch</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
                 </div>
               </div>
               <div className="flex items-center gap-2 sm:self-center">
@@ -937,14 +1618,51 @@ export default function Dashboard() {
             <CardTitle className="text-xl text-slate-100">
               {view === 'calendar' ? 'Calendar View' : 
                view === 'list' ? 'Event List' : 
+               view === 'review' ? 'Review Queue' :
+               view === 'trash' ? 'Trash' :
+               view === 'changes' ? 'Reprocess Changes' :
                view === 'summaries' ? 'Email Summaries' :
                'Processing Dashboard'}
             </CardTitle>
+            {(view === 'calendar' || view === 'list') && kidTags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 pt-2">
+                <button
+                  type="button"
+                  onClick={() => setChildFilter(null)}
+                  className={`px-3 py-1 rounded-full text-xs font-medium border transition-colors ${
+                    childFilter === null
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : 'border-white/15 bg-white/10 text-slate-200 hover:bg-white/15'
+                  }`}
+                >
+                  All children
+                </button>
+                {kidTags.map(child => (
+                  <button
+                    key={child.id}
+                    type="button"
+                    onClick={() => setChildFilter(childFilter === child.id ? null : child.id)}
+                    className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors"
+                    style={childFilter === child.id
+                      ? { backgroundColor: child.color, borderColor: child.color, color: '#fff' }
+                      : { backgroundColor: `${child.color}20`, borderColor: `${child.color}55`, color: child.color }}
+                  >
+                    {child.emoji && <span>{child.emoji}</span>}
+                    <span>{child.name}</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </CardHeader>
           <CardContent className="p-6">
+            {(view === 'calendar' || view === 'list') && dbUser && (
+              <div className="mb-4">
+                <QuickAdd kidTags={kidTags} onAdded={() => fetchEvents(dbUser.id)} />
+              </div>
+            )}
             {view === 'calendar' ? (
                 <Calendar 
-                  events={events} 
+                  events={visibleEvents} 
                   onEventClick={handleEventClick}
                   onSyncRequest={handleSyncToCalendar}
                 />
@@ -956,10 +1674,22 @@ export default function Dashboard() {
                     const twoDaysBack = new Date(today)
                     twoDaysBack.setDate(today.getDate() - 2)
                     
-                    const filteredEvents = events.filter(event => {
-                      const eventDate = new Date(event.eventDate)
-                      return eventDate >= twoDaysBack
-                    }).sort((a, b) => new Date(a.eventDate).getTime() - new Date(b.eventDate).getTime())
+                    // Recurring events are listed once, on their next occurrence
+                    const listHorizon = new Date(today)
+                    listHorizon.setFullYear(today.getFullYear() + 2)
+                    const listDates = new Map(visibleEvents.map(event => [
+                      event.id,
+                      event.recurrenceRule
+                        ? getOccurrenceDates(event, twoDaysBack, listHorizon)[0]
+                        : new Date(event.eventDate)
+                    ]))
+
+                    // Multi-day events stay listed until their last day has passed
+                    const filteredEvents = visibleEvents.filter(event => {
+                      const eventDate = listDates.get(event.id)
+                      const lastDate = event.eventEndDate && !event.recurrenceRule ? new Date(event.eventEndDate) : eventDate
+                      return !!eventDate && !!lastDate && lastDate >= twoDaysBack
+                    }).sort((a, b) => listDates.get(a.id)!.getTime() - listDates.get(b.id)!.getTime())
 
                     if (filteredEvents.length === 0) {
                       return (
@@ -975,7 +1705,7 @@ export default function Dashboard() {
 
                     // Group events by date
                     const eventsByDate = filteredEvents.reduce((acc, event) => {
-                      const dateKey = new Date(event.eventDate).toDateString()
+                      const dateKey = listDates.get(event.id)!.toDateString()
                       if (!acc[dateKey]) {
                         acc[dateKey] = []
                       }
@@ -1016,7 +1746,7 @@ export default function Dashboard() {
                           <div className="relative mt-3 space-y-4 sm:mt-0 sm:ml-2">
                             <AnimatePresence>
                               {dayEvents.map((event, index) => {
-                                const eventIsToday = new Date(event.eventDate).toDateString() === today.toDateString()
+                                const eventIsToday = listDates.get(event.id)!.toDateString() === today.toDateString()
                                 const stackDepth = dayEvents.length - index
 
                                 return (
@@ -1059,7 +1789,14 @@ export default function Dashboard() {
                                           TODAY
                                         </span>
                                       )}
-                                      {event.tag && (
+                                      {event.children && event.children.length > 0 ? event.children.map(child => (
+                                        <div key={child.id} className="flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium"
+                                             style={{ backgroundColor: `${child.color}20`, color: child.color }}>
+                                          <User className="h-3 w-3" />
+                                          {child.emoji && <span>{child.emoji}</span>}
+                                          <span>{child.name}</span>
+                                        </div>
+                                      )) : event.tag && (
                                         <div className="flex items-center gap-1 px-2 py-1 rounded-full text-xs font-medium" 
                                              style={{ backgroundColor: `${event.tag.color}20`, color: event.tag.color }}>
                                           {event.tag.type === 'kid' ? (
@@ -1074,7 +1811,25 @@ export default function Dashboard() {
                                     </div>
                                     <p className={`text-sm ${eventIsToday ? 'text-primary-foreground/80' : 'text-slate-300'}`}>
                                       {event.eventTime && `${event.eventTime}`}
+                                      {event.eventEndTime && `${event.eventTime ? ' – ' : 'Until '}${event.eventEndTime}`}
+                                      {event.eventEndDate && (
+                                        <span className="ml-2 text-xs opacity-80">
+                                          through {formatDate(event.eventEndDate)}
+                                        </span>
+                                      )}
+                                      {event.recurrenceRule && (
+                                        <span className="inline-flex items-center gap-1 ml-2 text-xs opacity-80">
+                                          <Repeat className="h-3 w-3" />
+                                          {describeRecurrence(event.recurrenceRule)}
+                                        </span>
+                                      )}
                                     </p>
+                                    {event.location && (
+                                      <p className={`text-xs mt-1 flex items-center gap-1 ${eventIsToday ? 'text-primary-foreground/70' : 'text-slate-300/80'}`}>
+                                        <MapPin className="h-3 w-3" />
+                                        {event.location}
+                                      </p>
+                                    )}
                                     {event.senderName && (
                                       <p className={`text-xs mt-1 ${eventIsToday ? 'text-primary-foreground/70' : 'text-slate-300/80'}`}>
                                         From: {event.senderName}
@@ -1158,6 +1913,22 @@ export default function Dashboard() {
                     })
                   })()}
                 </div>
+              ) : view === 'review' ? (
+                <ReviewQueue
+                  user={dbUser}
+                  onChange={() => fetchEvents(dbUser.id)}
+                  onThresholdChange={setReviewThreshold}
+                />
+              ) : view === 'trash' ? (
+                <EventTrash user={dbUser} onRestore={() => fetchEvents(dbUser.id)} />
+              ) : view === 'changes' ? (
+                <ReprocessChanges
+                  kidTags={kidTags}
+                  onResolved={() => {
+                    fetchEvents(dbUser.id)
+                    fetchReprocessChanges()
+                  }}
+                />
               ) : view === 'summaries' ? (
                 <EmailSummaries user={dbUser} />
               ) : (
@@ -1183,65 +1954,260 @@ export default function Dashboard() {
             </div>
             
             <div className="space-y-4">
-              <div>
-                <h3 className="text-lg font-semibold text-slate-50">{selectedEvent.eventTitle}</h3>
-              </div>
-              
-              <div className="flex items-center gap-2 text-sm text-slate-300">
-                <CalendarIcon className="h-4 w-4" />
-                <span>{formatDate(selectedEvent.eventDate)}</span>
-                {selectedEvent.eventTime && (
-                  <>
-                    <Clock className="h-4 w-4 ml-2" />
-                    <span>{selectedEvent.eventTime}</span>
-                  </>
-                )}
-              </div>
+              {eventDraft ? (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 text-sm">
+                  <input
+                    type="text"
+                    value={eventDraft.title}
+                    onChange={(e) => setEventDraft({ ...eventDraft, title: e.target.value })}
+                    placeholder="Title"
+                    className={`${draftInputClassName} sm:col-span-2`}
+                    maxLength={255}
+                    autoFocus
+                  />
+                  <input
+                    type="date"
+                    value={eventDraft.date}
+                    onChange={(e) => setEventDraft({ ...eventDraft, date: e.target.value })}
+                    className={draftInputClassName}
+                  />
+                  <input
+                    type="time"
+                    value={eventDraft.time}
+                    onChange={(e) => setEventDraft({ ...eventDraft, time: e.target.value })}
+                    className={draftInputClassName}
+                  />
+                  <input
+                    type="text"
+                    value={eventDraft.location}
+                    onChange={(e) => setEventDraft({ ...eventDraft, location: e.target.value })}
+                    placeholder="Room, venue or address"
+                    className={`${draftInputClassName} sm:col-span-2`}
+                    maxLength={255}
+                  />
+                  <textarea
+                    value={eventDraft.description}
+                    onChange={(e) => setEventDraft({ ...eventDraft, description: e.target.value })}
+                    placeholder="Description"
+                    rows={3}
+                    className={`${draftInputClassName} sm:col-span-2`}
+                  />
+                  <div className="flex gap-2 sm:col-span-2">
+                    <Button
+                      size="sm"
+                      onClick={() => handleSaveEvent(selectedEvent)}
+                      disabled={isSavingEvent || !eventDraft.title.trim() || !eventDraft.date}
+                    >
+                      {isSavingEvent ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save'}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEventDraft(null)}
+                      disabled={isSavingEvent}
+                      className="text-slate-300 hover:bg-white/10"
+                    >
+                      Cancel
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <div className="flex items-start gap-2">
+                    <h3 className="text-lg font-semibold text-slate-50">{selectedEvent.eventTitle}</h3>
+                    {selectedEvent.editedAt && (
+                      <span
+                        className="mt-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-400/15 text-amber-200 border border-amber-300/30"
+                        title={`Edited ${selectedEvent.editedAt.toLocaleString()}`}
+                      >
+                        Edited
+                      </span>
+                    )}
+                    <button
+                      type="button"
+                      onClick={() => startEditingEvent(selectedEvent)}
+                      className="ml-auto p-1 rounded-md text-slate-400 hover:text-slate-100 hover:bg-white/10"
+                      title="Edit event"
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </button>
+                  </div>
+
+                  <div className="flex items-center gap-2 text-sm text-slate-300">
+                    <CalendarIcon className="h-4 w-4" />
+                    <span>
+                      {formatDate(selectedEvent.eventDate)}
+                      {selectedEvent.eventEndDate && ` – ${formatDate(selectedEvent.eventEndDate)}`}
+                    </span>
+                    {(selectedEvent.eventTime || selectedEvent.eventEndTime) && (
+                      <>
+                        <Clock className="h-4 w-4 ml-2" />
+                        <span>
+                          {selectedEvent.eventTime
+                            ? [selectedEvent.eventTime, selectedEvent.eventEndTime].filter(Boolean).join(' – ')
+                            : `Until ${selectedEvent.eventEndTime}`}
+                        </span>
+                      </>
+                    )}
+                  </div>
+
+                  {selectedEvent.recurrenceRule && (
+                    <div className="flex items-center gap-2 text-sm text-slate-300">
+                      <Repeat className="h-4 w-4" />
+                      <span>{describeRecurrence(selectedEvent.recurrenceRule)}</span>
+                    </div>
+                  )}
+
+                  <div className="flex items-center gap-2 text-sm text-slate-300">
+                    <MapPin className="h-4 w-4 flex-shrink-0" />
+                    {selectedEvent.location ? (
+                      <a
+                        href={`https://www.google.com/maps/search/?api=1&query=${encodeURIComponent(selectedEvent.location)}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-slate-100 hover:underline"
+                      >
+                        {selectedEvent.location}
+                      </a>
+                    ) : (
+                      <span className="italic text-slate-400">No location</span>
+                    )}
+                  </div>
+                </>
+              )}
               
-              {selectedEvent.description && (
+              {kidTags.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-2 text-slate-100">Children</h4>
+                  <div className="flex flex-wrap gap-2">
+                    {kidTags.map(child => {
+                      const isAssigned = (selectedEvent.children || []).some(tag => tag.id === child.id)
+                      return (
+                        <button
+                          key={child.id}
+                          type="button"
+                          onClick={() => handleToggleChild(selectedEvent, child)}
+                          className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors"
+                          style={isAssigned
+                            ? { backgroundColor: child.color, borderColor: child.color, color: '#fff' }
+                            : { backgroundColor: 'transparent', borderColor: `${child.color}55`, color: child.color }}
+                          title={isAssigned ? `Remove ${child.name}` : `Add ${child.name}`}
+                        >
+                          {child.emoji && <span>{child.emoji}</span>}
+                          <span>{child.name}</span>
+                        </button>
+                      )
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {selectedEvent.description && !eventDraft && (
                 <div>
                   <h4 className="font-medium mb-1 text-slate-100">Description</h4>
                   <p className="text-sm text-slate-300/90">{selectedEvent.description}</p>
                 </div>
               )}
+
+              {eventRevisions && eventRevisions.length > 0 && (
+                <div>
+                  <h4 className="font-medium mb-2 text-slate-100">Edit History</h4>
+                  <ol className="space-y-2 text-xs text-slate-300">
+                    {[...eventRevisions].reverse().map(revision => {
+                      const children = kidTags.filter(child => revision.tagIds.includes(child.id))
+                      return (
+                        <li key={revision.id} className="rounded-md border border-white/10 bg-white/5 p-2 space-y-0.5">
+                          <div className="flex justify-between gap-2 text-slate-400">
+                            <span>
+                              {revision.source === 'extraction'
+                                ? selectedEvent.source === 'manual' ? 'As added' : 'Originally extracted'
+                                : `Changed ${revision.changedFields.join(', ')}`}
+                            </span>
+                            {revision.source === 'user' && (
+                              <span>{new Date(revision.createdAt).toLocaleString()}</span>
+                            )}
+                          </div>
+                          <div className="text-slate-100">{revision.title}</div>
+                          <div>
+                            {formatDate(new Date(revision.date + 'T00:00:00'))}
+                            {revision.time && ` at ${revision.time.substring(0, 5)}`}
+                            {revision.location && ` · ${revision.location}`}
+                          </div>
+                          {children.length > 0 && (
+                            <div>{children.map(child => child.name).join(', ')}</div>
+                          )}
+                          {revision.description && (
+                            <div className="text-slate-400">{revision.description}</div>
+                          )}
+                        </li>
+                      )
+                    })}
+                  </ol>
+                </div>
+              )}
               
-              <div>
-                <h4 className="font-medium mb-2 text-slate-100">Email Source</h4>
-                <div className="text-sm text-slate-300 space-y-2">
-                  {selectedEvent.emailSubject && (
-                    <div>
-                      <span className="font-medium text-slate-200">Subject: </span>
-                      <span className="text-slate-50">{selectedEvent.emailSubject}</span>
+              {selectedEvent.source === 'manual' ? (
+                <div>
+                  <h4 className="font-medium mb-2 text-slate-100">Added Manually</h4>
+                  {selectedEvent.sourceText && (
+                    <div className="max-h-20 overflow-y-auto rounded-md border border-white/10 bg-white/8 p-3 text-xs text-slate-200/90 whitespace-pre-wrap">
+                      {selectedEvent.sourceText}
                     </div>
                   )}
-                  
-                  <div>
-                    <span className="font-medium text-slate-200">From: </span>
-                    <span>{selectedEvent.senderName || selectedEvent.senderEmail}</span>
-                    {selectedEvent.senderEmail && selectedEvent.senderName && (
-                      <span className="block text-xs opacity-75 ml-0 mt-1 text-slate-400">
-                        {selectedEvent.senderEmail}
-                      </span>
+                </div>
+              ) : (
+                <div>
+                  <h4 className="font-medium mb-2 text-slate-100">Email Source</h4>
+                  <div className="text-sm text-slate-300 space-y-2">
+                    {selectedEvent.emailSubject && (
+                      <div>
+                        <span className="font-medium text-slate-200">Subject: </span>
+                        <span className="text-slate-50">{selectedEvent.emailSubject}</span>
+                      </div>
                     )}
-                  </div>
                   
-                  {selectedEvent.emailSentDate && (
                     <div>
-                      <span className="font-medium text-slate-200">Sent: </span>
-                      <span className="text-slate-50">{selectedEvent.emailSentDate.toLocaleDateString()} at {selectedEvent.emailSentDate.toLocaleTimeString()}</span>
+                      <span className="font-medium text-slate-200">From: </span>
+                      <span>{selectedEvent.senderName || selectedEvent.senderEmail}</span>
+                      {selectedEvent.senderEmail && selectedEvent.senderName && (
+                        <span className="block text-xs opacity-75 ml-0 mt-1 text-slate-400">
+                          {selectedEvent.senderEmail}
+                        </span>
+                      )}
                     </div>
-                  )}
                   
-                  {selectedEvent.emailBodyPreview && (
-                    <div className="mt-3">
-                      <span className="font-medium text-slate-200 block mb-1">Email Preview:</span>
-                      <div className="max-h-20 overflow-y-auto rounded-md border border-white/10 bg-white/8 p-3 text-xs text-slate-200/90">
-                        {selectedEvent.emailBodyPreview}
+                    {selectedEvent.source === 'ics' && (
+                      <div>
+                        <span className="font-medium text-slate-200">Source: </span>
+                        <span className="text-slate-50">Calendar invite</span>
                       </div>
-                    </div>
-                  )}
+                    )}
+
+                    {selectedEvent.sourceAttachment && (
+                      <div>
+                        <span className="font-medium text-slate-200">Attachment: </span>
+                        <span className="text-slate-50">{selectedEvent.sourceAttachment}</span>
+                      </div>
+                    )}
+
+                    {selectedEvent.emailSentDate && (
+                      <div>
+                        <span className="font-medium text-slate-200">Sent: </span>
+                        <span className="text-slate-50">{selectedEvent.emailSentDate.toLocaleDateString()} at {selectedEvent.emailSentDate.toLocaleTimeString()}</span>
+                      </div>
+                    )}
+                  
+                    {selectedEvent.emailBodyPreview && (
+                      <div className="mt-3">
+                        <span className="font-medium text-slate-200 block mb-1">Email Preview:</span>
+                        <div className="max-h-20 overflow-y-auto rounded-md border border-white/10 bg-white/8 p-3 text-xs text-slate-200/90">
+                          {selectedEvent.emailBodyPreview}
+                        </div>
+                      </div>
+                    )}
+                  </div>
                 </div>
-              </div>
+              )}
               
               {selectedEvent.reasoning && (
                 <div className="pt-3 border-t border-white/10">
@@ -1361,7 +2327,7 @@ export default function Dashboard() {
               </div>
               <div>
                 <h2 className="text-lg font-semibold text-slate-100">Delete Event</h2>
-                <p className="text-sm text-slate-300">This action cannot be undone</p>
+                <p className="text-sm text-slate-300">It moves to Trash, where you can restore it</p>
               </div>
             </div>
             
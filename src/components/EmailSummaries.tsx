@@ -4,6 +4,7 @@ import { Button } from './ui/button';
 import { RefreshCw, Mail, Calendar, CheckSquare, Tag, Clock } from 'lucide-react';
 import { EmailSummary } from '../types';
 import { formatDate, formatDateTime } from '../lib/utils';
+import { apiFetch } from '../lib/api';
 
 interface Props {
   user?: any;
@@ -34,7 +35,7 @@ export default function EmailSummaries({ user: propUser }: Props) {
         throw new Error('User not authenticated - please sign in with Gmail');
       }
 
-      const response = await fetch(`/api/email-summaries?userId=${currentUser.id}&limit=10&offset=${offset}`);
+      const response = await apiFetch(`/api/email-summaries?userId=${currentUser.id}&limit=10&offset=${offset}`);
       if (!response.ok) {
         const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
         
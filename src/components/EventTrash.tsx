@@ -0,0 +1,160 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Loader2, RefreshCw, RotateCcw, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { useGlassToast } from './ui/glass-toast'
+import { supabase } from '../lib/supabase'
+import { formatDate } from '../lib/utils'
+
+interface Props {
+  user: any
+  // Called after an event was restored
+  onRestore?: () => void
+}
+
+interface DeletedEvent {
+  id: string
+  title: string
+  date: string
+  time: string | null
+  deletedAt: string
+  emailSubject: string | null
+}
+
+// Deleted events stay as tombstones (deleted_at) so reprocessing does not bring
+// them back; restoring clears deleted_at
+export default function EventTrash({ user, onRestore }: Props) {
+  const [events, setEvents] = useState<DeletedEvent[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [restoringId, setRestoringId] = useState<string | null>(null)
+  const { addToast } = useGlassToast()
+
+  const loadTrash = useCallback(async () => {
+    if (!user) return
+
+    try {
+      setLoading(true)
+      setError(null)
+
+      const { data, error: loadError } = await supabase
+        .from('extracted_dates')
+        .select('id, event_title, event_date, event_time, deleted_at, processed_emails(subject)')
+        .eq('user_id', user.id)
+        .not('deleted_at', 'is', null)
+        .order('deleted_at', { ascending: false })
+
+      if (loadError) {
+        throw loadError
+      }
+
+      setEvents((data || []).map((event: any) => {
+        const email = Array.isArray(event.processed_emails) ? event.processed_emails[0] : event.processed_emails
+        return {
+          id: event.id,
+          title: event.event_title,
+          date: event.event_date,
+          time: event.event_time,
+          deletedAt: event.deleted_at,
+          emailSubject: email?.subject || null
+        }
+      }))
+    } catch (err) {
+      console.error('Trash load error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load deleted events')
+    } finally {
+      setLoading(false)
+    }
+  }, [user])
+
+  useEffect(() => {
+    loadTrash()
+  }, [loadTrash])
+
+  const handleRestore = async (event: DeletedEvent) => {
+    setRestoringId(event.id)
+
+    const { error: restoreError } = await supabase
+      .from('extracted_dates')
+      .update({ deleted_at: null })
+      .eq('id', event.id)
+
+    setRestoringId(null)
+
+    if (restoreError) {
+      console.error('Error restoring event:', restoreError)
+      addToast({ title: 'Restore failed', description: restoreError.message, variant: 'error' })
+      return
+    }
+
+    setEvents(current => current.filter(item => item.id !== event.id))
+    onRestore?.()
+    addToast({ title: 'Event restored', description: event.title, variant: 'success' })
+  }
+
+  if (loading && events.length === 0) {
+    return (
+      <div className="flex items-center justify-center p-8 text-slate-200">
+        <RefreshCw className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading trash...</span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-xl border border-rose-400/35 bg-rose-500/15 p-4 text-sm text-rose-100">
+        <p className="font-medium">Error loading trash</p>
+        <p className="mt-1">{error}</p>
+        <Button onClick={loadTrash} variant="outline" size="sm" className="mt-3">
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-3">
+        <p className="text-sm text-slate-300">
+          Deleted events are kept here so syncing and reprocessing do not add them back. Restore one to put it back on your calendar.
+        </p>
+        <Button onClick={loadTrash} variant="ghost" size="sm" className="text-slate-300 hover:bg-white/10" disabled={loading}>
+          <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+        </Button>
+      </div>
+
+      {events.length === 0 ? (
+        <div className="text-center py-12 text-slate-300">
+          <Trash2 className="h-12 w-12 mx-auto mb-3 text-slate-400" />
+          <p>Trash is empty</p>
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {events.map(event => (
+            <div key={event.id} className="flex items-center justify-between gap-3 rounded-xl border border-white/15 bg-white/8 p-3 backdrop-blur-xl">
+              <div className="min-w-0">
+                <p className="font-medium text-slate-100 truncate">{event.title}</p>
+                <p className="text-sm text-slate-300">
+                  {formatDate(event.date + 'T00:00:00')}
+                  {event.time && ` at ${event.time.substring(0, 5)}`}
+                  {event.emailSubject && ` · ${event.emailSubject}`}
+                </p>
+                <p className="text-xs text-slate-400">Deleted {new Date(event.deletedAt).toLocaleString()}</p>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleRestore(event)}
+                disabled={restoringId === event.id}
+                className="flex-shrink-0"
+              >
+                {restoringId === event.id ? <Loader2 className="h-4 w-4 animate-spin" /> : <RotateCcw className="h-4 w-4" />}
+                <span className="ml-1">Restore</span>
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
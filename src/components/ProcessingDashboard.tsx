@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
 import { Button } from './ui/button';
+import { apiFetch } from '../lib/api';
 
 // Types for dashboard data
 interface ProcessingHistoryItem {
@@ -99,6 +100,19 @@ interface DashboardSummary {
       successRate: number;
     };
   };
+  promptVersionBreakdown?: {
+    [version: string]: {
+      emails: number;
+      events: number;
+      cost: number;
+      averageCostPerEmail: number;
+      averageConfidence: number | null;
+      verifiedEvents: number;
+      current: boolean;
+    };
+  };
+  currentPromptVersions?: string[];
+  outdatedEmails?: number;
 }
 
 interface DashboardData {
@@ -125,6 +139,8 @@ export default function ProcessingDashboard({ user: propUser }: Props) {
   const [error, setError] = useState<string | null>(null);
   const [expandedSession, setExpandedSession] = useState<string | null>(null);
   const [currentPage, setCurrentPage] = useState(0);
+  const [reprocessingOutdated, setReprocessingOutdated] = useState(false);
+  const [reprocessMessage, setReprocessMessage] = useState<string | null>(null);
 
   const loadDashboardData = async (offset = 0) => {
     try {
@@ -145,7 +161,7 @@ export default function ProcessingDashboard({ user: propUser }: Props) {
       }
 
       // Fetch dashboard data from our API
-      const response = await fetch(`/api/processing-dashboard?userId=${currentUser.id}&limit=10&offset=${offset}`);
+      const response = await apiFetch(`/api/processing-dashboard?userId=${currentUser.id}&limit=10&offset=${offset}`);
       if (!response.ok) {
         const errorText = await response.text();
         throw new Error(`Failed to fetch dashboard data: ${response.status} ${response.statusText} - ${errorText}`);
@@ -166,6 +182,44 @@ export default function ProcessingDashboard({ user: propUser }: Props) {
     loadDashboardData(currentPage * 10);
   }, [currentPage]);
 
+  // Re-extract only the emails whose prompt version is no longer current
+  const handleReprocessOutdated = async (count: number) => {
+    if (!confirm(`Re-extract ${count} emails processed with an older prompt? Your events stay as they are until you apply the changes found.`)) {
+      return;
+    }
+
+    setReprocessingOutdated(true);
+    setReprocessMessage(null);
+    try {
+      const response = await apiFetch('/api/reprocess-outdated', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({})
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.message || 'Failed to reprocess outdated emails');
+      }
+
+      // Start the worker now; the scheduled run picks up anything it leaves behind
+      if (result.jobsEnqueued > 0) {
+        await apiFetch('/api/process-email-jobs', { method: 'POST' });
+      }
+
+      setReprocessMessage(
+        `${result.jobsEnqueued} emails queued for extraction, the changes found appear on the dashboard for you to apply` +
+        (result.unavailable > 0 ? `, ${result.unavailable} need a full reprocess (no stored content)` : '') +
+        (result.remaining > 0 ? `, ${result.remaining} left for the next run` : '')
+      );
+      await loadDashboardData(currentPage * 10);
+    } catch (err) {
+      console.error('Reprocess outdated error:', err);
+      setReprocessMessage(err instanceof Error ? err.message : 'Failed to reprocess outdated emails');
+    } finally {
+      setReprocessingOutdated(false);
+    }
+  };
+
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
       style: 'currency',
@@ -413,6 +467,49 @@ export default function ProcessingDashboard({ user: propUser }: Props) {
         </CardContent>
       </Card>
 
+      {/* Prompt Version Breakdown */}
+      {summary.promptVersionBreakdown && Object.keys(summary.promptVersionBreakdown).length > 0 && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-4">
+              <CardTitle>Prompt Versions</CardTitle>
+              {(summary.outdatedEmails || 0) > 0 && (
+                <Button
+                  onClick={() => handleReprocessOutdated(summary.outdatedEmails!)}
+                  disabled={reprocessingOutdated}
+                  variant="outline"
+                >
+                  {reprocessingOutdated ? 'Queuing...' : `Reprocess ${summary.outdatedEmails} outdated emails`}
+                </Button>
+              )}
+            </div>
+            {reprocessMessage && (
+              <p className="text-sm text-slate-300 mt-2">{reprocessMessage}</p>
+            )}
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {Object.entries(summary.promptVersionBreakdown).map(([version, stats]) => (
+                <div key={version} className="p-4 border border-white/15 rounded-xl bg-white/8 backdrop-blur-xl">
+                  <div className="flex items-center justify-between gap-2 mb-2">
+                    <h3 className="font-semibold font-mono text-sm">{version}</h3>
+                    <span className={`text-xs px-2 py-0.5 rounded-full ${stats.current ? 'bg-emerald-400/25 border border-emerald-400/35 text-emerald-100' : 'bg-amber-400/25 border border-amber-400/35 text-amber-100'}`}>
+                      {stats.current ? 'Current' : 'Outdated'}
+                    </span>
+                  </div>
+                  <div className="space-y-1 text-sm">
+                    {stats.emails > 0 && <p>Emails: {stats.emails} ({formatCurrency(stats.averageCostPerEmail)} each)</p>}
+                    <p>Events: {stats.events} ({stats.verifiedEvents} verified)</p>
+                    {stats.averageConfidence !== null && <p>Avg. confidence: {(stats.averageConfidence * 100).toFixed(1)}%</p>}
+                    {stats.emails > 0 && <p>Cost: {formatCurrency(stats.cost)}</p>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Email Processing History */}
       <Card>
         <CardHeader>
@@ -0,0 +1,250 @@
+import { useState } from 'react'
+import { Check, Loader2, Plus, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { useGlassToast } from './ui/glass-toast'
+import { QuickAddEvent, Tag } from '../types'
+import { apiFetch } from '../lib/api'
+
+interface Props {
+  kidTags: Tag[]
+  // Called after confirmed events were stored
+  onAdded?: () => void
+}
+
+const MAX_LENGTH = 2000
+
+const inputClassName = 'w-full px-3 py-1.5 rounded-md border border-white/20 bg-white/10 text-sm text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-primary'
+
+// Local calendar day as YYYY-MM-DD, so the model reads "tomorrow" from the user's day
+const localToday = () => {
+  const day = new Date()
+  return `${day.getFullYear()}-${String(day.getMonth() + 1).padStart(2, '0')}-${String(day.getDate()).padStart(2, '0')}`
+}
+
+// Free text ("Picture day Oct 14 8am for Maya") is read by the extraction prompt;
+// the events it finds are shown for the user to correct and confirm before they
+// are stored as manual events.
+export default function QuickAdd({ kidTags, onAdded }: Props) {
+  const [text, setText] = useState('')
+  // Events waiting for confirmation; null when nothing was extracted yet
+  const [drafts, setDrafts] = useState<QuickAddEvent[] | null>(null)
+  const [isExtracting, setIsExtracting] = useState(false)
+  const [isSaving, setIsSaving] = useState(false)
+  const { addToast } = useGlassToast()
+
+  const postQuickAdd = async (body: Record<string, unknown>) => {
+    const response = await apiFetch('/api/quick-add', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ text, ...body })
+    })
+    const result = await response.json().catch(() => ({}))
+    if (!response.ok) {
+      throw new Error(result.message || result.error || 'Quick add failed')
+    }
+    return result
+  }
+
+  const handleExtract = async () => {
+    if (!text.trim()) return
+
+    setIsExtracting(true)
+    try {
+      const result = await postQuickAdd({ action: 'extract', today: localToday() })
+      if ((result.events || []).length === 0) {
+        addToast({
+          title: 'No event found',
+          description: 'Include what, when and, if you like, where and for whom.',
+          variant: 'info'
+        })
+        return
+      }
+      setDrafts(result.events.map((event: QuickAddEvent) => ({
+        ...event,
+        time: event.time ? event.time.substring(0, 5) : null
+      })))
+    } catch (err) {
+      console.error('Quick add extraction error:', err)
+      addToast({
+        title: 'Quick add failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'error'
+      })
+    } finally {
+      setIsExtracting(false)
+    }
+  }
+
+  const handleConfirm = async () => {
+    if (!drafts || drafts.length === 0) return
+
+    setIsSaving(true)
+    try {
+      const result = await postQuickAdd({ action: 'save', events: drafts })
+      setDrafts(null)
+      setText('')
+      onAdded?.()
+      const notes = [
+        result.restoredEvents > 0 && `${result.restoredEvents} restored from Trash`,
+        result.skippedDuplicateEvents > 0 && `${result.skippedDuplicateEvents} already on your calendar`
+      ].filter(Boolean)
+      addToast({
+        title: result.message,
+        description: notes.length > 0 ? notes.join(', ') : drafts.map(draft => draft.title).join(', '),
+        variant: 'success'
+      })
+    } catch (err) {
+      console.error('Quick add save error:', err)
+      addToast({
+        title: 'Quick add failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'error'
+      })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const updateDraft = (index: number, changes: Partial<QuickAddEvent>) => {
+    setDrafts(current => current && current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)))
+  }
+
+  const removeDraft = (index: number) => {
+    setDrafts(current => {
+      const remaining = (current || []).filter((_, i) => i !== index)
+      return remaining.length > 0 ? remaining : null
+    })
+  }
+
+  const toggleChild = (index: number, draft: QuickAddEvent, child: Tag) => {
+    updateDraft(index, {
+      tagIds: draft.tagIds.includes(child.id)
+        ? draft.tagIds.filter(tagId => tagId !== child.id)
+        : [...draft.tagIds, child.id]
+    })
+  }
+
+  return (
+    <div className="rounded-xl border border-white/15 bg-white/8 p-4 backdrop-blur-xl space-y-3">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => {
+            setText(e.target.value)
+            setDrafts(null)
+          }}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleExtract()
+          }}
+          placeholder="Quick add: Picture day Oct 14 8am for Maya"
+          className={inputClassName}
+          maxLength={MAX_LENGTH}
+          disabled={isExtracting || isSaving}
+        />
+        <Button
+          size="sm"
+          onClick={handleExtract}
+          disabled={isExtracting || isSaving || !text.trim()}
+          className="whitespace-nowrap"
+        >
+          {isExtracting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          <span className="ml-1">Add</span>
+        </Button>
+      </div>
+
+      {drafts && (
+        <div className="space-y-3">
+          <p className="text-xs text-slate-300">Check the details, then confirm to add {drafts.length === 1 ? 'this event' : `these ${drafts.length} events`}.</p>
+
+          {drafts.map((draft, index) => (
+            <div key={index} className="rounded-lg border border-white/10 bg-white/5 p-3 space-y-2">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={draft.title}
+                  onChange={(e) => updateDraft(index, { title: e.target.value })}
+                  placeholder="Title"
+                  className={inputClassName}
+                  maxLength={255}
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeDraft(index)}
+                  className="text-slate-300 hover:bg-white/10"
+                  title="Leave this event out"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                <input
+                  type="date"
+                  value={draft.date}
+                  onChange={(e) => updateDraft(index, { date: e.target.value })}
+                  className={inputClassName}
+                />
+                <input
+                  type="time"
+                  value={draft.time || ''}
+                  onChange={(e) => updateDraft(index, { time: e.target.value || null })}
+                  className={inputClassName}
+                />
+                <input
+                  type="text"
+                  value={draft.location || ''}
+                  onChange={(e) => updateDraft(index, { location: e.target.value })}
+                  placeholder="Location"
+                  className={inputClassName}
+                  maxLength={255}
+                />
+              </div>
+              {kidTags.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {kidTags.map(child => {
+                    const isAssigned = draft.tagIds.includes(child.id)
+                    return (
+                      <button
+                        key={child.id}
+                        type="button"
+                        onClick={() => toggleChild(index, draft, child)}
+                        className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-medium border transition-colors"
+                        style={isAssigned
+                          ? { backgroundColor: child.color, borderColor: child.color, color: '#fff' }
+                          : { backgroundColor: 'transparent', borderColor: `${child.color}55`, color: child.color }}
+                      >
+                        {child.emoji && <span>{child.emoji}</span>}
+                        <span>{child.name}</span>
+                      </button>
+                    )
+                  })}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex gap-2">
+            <Button
+              size="sm"
+              onClick={handleConfirm}
+              disabled={isSaving || drafts.some(draft => !draft.title.trim() || !draft.date)}
+            >
+              {isSaving ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+              <span className="ml-1">Confirm</span>
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setDrafts(null)}
+              disabled={isSaving}
+              className="text-slate-300 hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
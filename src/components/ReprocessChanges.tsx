@@ -0,0 +1,293 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Check, Loader2, RefreshCw, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { useGlassToast } from './ui/glass-toast'
+import { ReprocessChange, ReprocessChangeType, ReprocessEventDetails, Tag } from '../types'
+import { apiFetch } from '../lib/api'
+import { formatDate } from '../lib/utils'
+import { describeRecurrence } from '../lib/recurrence'
+
+interface Props {
+  kidTags: Tag[]
+  // Called after changes were applied or discarded
+  onResolved?: () => void
+}
+
+const GROUPS: Array<{ type: Exclude<ReprocessChangeType, 'unchanged'>; title: string; description: string }> = [
+  { type: 'added', title: 'New events', description: 'Found by the new extraction and not on your calendar yet' },
+  { type: 'changed', title: 'Changed events', description: 'Verification and children you assigned are kept; synced events are updated in Google Calendar' },
+  { type: 'removed', title: 'No longer found', description: 'Applying moves them to Trash and deletes them from Google Calendar' }
+]
+
+const FIELD_LABELS: Record<string, string> = {
+  title: 'Title',
+  date: 'Date',
+  time: 'Time',
+  endDate: 'End date',
+  endTime: 'End time',
+  location: 'Location',
+  description: 'Description',
+  recurrenceRule: 'Repeats',
+  tags: 'Children'
+}
+
+// A reprocess stages what the new extraction would change instead of writing it;
+// nothing happens to the calendar until the user applies the selected changes
+export default function ReprocessChanges({ kidTags, onResolved }: Props) {
+  const [changes, setChanges] = useState<ReprocessChange[]>([])
+  const [selected, setSelected] = useState<Set<string>>(new Set())
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [busyAction, setBusyAction] = useState<'apply' | 'discard' | null>(null)
+  const { addToast } = useGlassToast()
+
+  const loadChanges = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await apiFetch('/api/reprocess-changes')
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.message || result.error || 'Failed to load reprocess changes')
+      }
+
+      const loaded: ReprocessChange[] = result.changes || []
+      setChanges(loaded)
+      setSelected(new Set(loaded.filter(change => change.changeType !== 'unchanged').map(change => change.id)))
+    } catch (err) {
+      console.error('Reprocess changes load error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load reprocess changes')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadChanges()
+  }, [loadChanges])
+
+  const pending = changes.filter(change => change.changeType !== 'unchanged')
+  const unchanged = changes.filter(change => change.changeType === 'unchanged')
+
+  const handleAction = async (action: 'apply' | 'discard') => {
+    // Unchanged events need nothing; they are cleared with the last pending change
+    const changeIds = [
+      ...selected,
+      ...(selected.size === pending.length ? unchanged.map(change => change.id) : [])
+    ]
+    if (changeIds.length === 0) return
+
+    setBusyAction(action)
+    try {
+      const response = await apiFetch('/api/reprocess-changes', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          action,
+          changeIds,
+          timeZone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+        })
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.message || result.error || `Failed to ${action} changes`)
+      }
+
+      if (action === 'apply') {
+        addToast({
+          title: 'Changes applied',
+          description: `${result.added} added, ${result.changed} updated, ${result.removed} moved to Trash` +
+            (result.skipped > 0 ? `, ${result.skipped} skipped (edited, deleted or already on your calendar)` : '') +
+            (result.calendarFailed > 0 ? `. ${result.calendarFailed} could not be updated in Google Calendar` : ''),
+          variant: result.calendarFailed > 0 ? 'info' : 'success'
+        })
+      } else {
+        addToast({ title: 'Changes discarded', description: `${selected.size} changes left out`, variant: 'info' })
+      }
+
+      onResolved?.()
+      await loadChanges()
+    } catch (err) {
+      console.error(`Reprocess changes ${action} error:`, err)
+      addToast({
+        title: action === 'apply' ? 'Apply failed' : 'Discard failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'error'
+      })
+    } finally {
+      setBusyAction(null)
+    }
+  }
+
+  const toggle = (changeId: string) => {
+    setSelected(current => {
+      const next = new Set(current)
+      if (next.has(changeId)) {
+        next.delete(changeId)
+      } else {
+        next.add(changeId)
+      }
+      return next
+    })
+  }
+
+  const toggleGroup = (group: ReprocessChange[]) => {
+    const allSelected = group.every(change => selected.has(change.id))
+    setSelected(current => {
+      const next = new Set(current)
+      for (const change of group) {
+        if (allSelected) {
+          next.delete(change.id)
+        } else {
+          next.add(change.id)
+        }
+      }
+      return next
+    })
+  }
+
+  const formatField = (field: string, details: ReprocessEventDetails): string => {
+    switch (field) {
+      case 'date':
+        return formatDate(details.date + 'T00:00:00')
+      case 'endDate':
+        return details.endDate ? formatDate(details.endDate + 'T00:00:00') : '—'
+      case 'time':
+        return details.time ? details.time.substring(0, 5) : 'All day'
+      case 'endTime':
+        return details.endTime ? details.endTime.substring(0, 5) : '—'
+      case 'recurrenceRule':
+        return details.recurrenceRule ? describeRecurrence(details.recurrenceRule) : 'Does not repeat'
+      case 'tags': {
+        const names = kidTags.filter(child => details.tagIds.includes(child.id)).map(child => child.name)
+        return names.length > 0 ? names.join(', ') : 'None'
+      }
+      default:
+        return (details[field as keyof ReprocessEventDetails] as string | null) || '—'
+    }
+  }
+
+  const describeEvent = (details: ReprocessEventDetails) =>
+    `${formatDate(details.date + 'T00:00:00')}${details.time ? ` at ${details.time.substring(0, 5)}` : ''}${details.location ? ` · ${details.location}` : ''}`
+
+  if (loading && changes.length === 0) {
+    return (
+      <div className="flex items-center justify-center p-8 text-slate-200">
+        <RefreshCw className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading changes...</span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-xl border border-rose-400/35 bg-rose-500/15 p-4 text-sm text-rose-100">
+        <p className="font-medium">Error loading reprocess changes</p>
+        <p className="mt-1">{error}</p>
+        <Button onClick={loadChanges} variant="outline" size="sm" className="mt-3">
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  if (pending.length === 0) {
+    return (
+      <div className="text-center py-12 text-slate-300">
+        <Check className="h-12 w-12 mx-auto mb-3 text-emerald-300" />
+        <p>No changes waiting</p>
+        {unchanged.length > 0 && (
+          <p className="mt-1 text-sm text-slate-400">The last reprocess found the same {unchanged.length} events already on your calendar.</p>
+        )}
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-sm text-slate-300">
+          Reprocessing compared the new extraction with your events. Nothing changes until you apply it
+          {unchanged.length > 0 && `; ${unchanged.length} events came out the same`}.
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" onClick={() => handleAction('apply')} disabled={busyAction !== null || selected.size === 0}>
+            {busyAction === 'apply' ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+            <span className="ml-1">Apply {selected.size}</span>
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => handleAction('discard')}
+            disabled={busyAction !== null || selected.size === 0}
+            className="text-slate-300 hover:bg-white/10"
+          >
+            {busyAction === 'discard' ? <Loader2 className="h-4 w-4 animate-spin" /> : <X className="h-4 w-4" />}
+            <span className="ml-1">Discard {selected.size}</span>
+          </Button>
+        </div>
+      </div>
+
+      {GROUPS.map(({ type, title, description }) => {
+        const group = pending.filter(change => change.changeType === type)
+        if (group.length === 0) return null
+
+        return (
+          <div key={type} className="space-y-2">
+            <label className="flex items-center gap-2 text-sm font-medium text-slate-100">
+              <input
+                type="checkbox"
+                checked={group.every(change => selected.has(change.id))}
+                onChange={() => toggleGroup(group)}
+              />
+              {title} ({group.length})
+              <span className="font-normal text-slate-400">· {description}</span>
+            </label>
+
+            {group.map(change => {
+              const details = change.proposed || change.current!
+              return (
+                <label
+                  key={change.id}
+                  className="flex items-start gap-3 rounded-xl border border-white/15 bg-white/8 p-3 backdrop-blur-xl cursor-pointer"
+                >
+                  <input
+                    type="checkbox"
+                    className="mt-1"
+                    checked={selected.has(change.id)}
+                    onChange={() => toggle(change.id)}
+                  />
+                  <div className="min-w-0">
+                    <p className={`font-medium truncate ${type === 'removed' ? 'text-slate-400 line-through' : 'text-slate-100'}`}>
+                      {details.title}
+                    </p>
+                    <p className="text-sm text-slate-300">
+                      {describeEvent(details)}
+                      {change.emailSubject && ` · ${change.emailSubject}`}
+                    </p>
+                    {type === 'changed' && change.current && change.proposed && (
+                      <ul className="mt-1 space-y-0.5 text-xs text-slate-300">
+                        {change.changedFields.map(field => (
+                          <li key={field}>
+                            <span className="text-slate-400">{FIELD_LABELS[field] || field}:</span>{' '}
+                            <span className="line-through text-slate-500">{formatField(field, change.current!)}</span>
+                            {' → '}
+                            <span className="text-slate-100">{formatField(field, change.proposed!)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {change.current?.verified && (
+                      <p className="mt-1 text-xs text-emerald-300">Verified</p>
+                    )}
+                  </div>
+                </label>
+              )
+            })}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
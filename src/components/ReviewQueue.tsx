@@ -0,0 +1,368 @@
+import { useCallback, useEffect, useState } from 'react'
+import { Check, GitMerge, Loader2, Mail, Pencil, RefreshCw, X } from 'lucide-react'
+import { Button } from './ui/button'
+import { useGlassToast } from './ui/glass-toast'
+import { ReviewQueueEvent } from '../types'
+import { apiFetch } from '../lib/api'
+import { supabase } from '../lib/supabase'
+import { formatDate, formatDateTime } from '../lib/utils'
+
+interface Props {
+  user: any
+  // Called after an action changed the user's events
+  onChange?: () => void
+  onThresholdChange?: (threshold: number) => void
+}
+
+interface EditDraft {
+  title: string
+  date: string
+  time: string
+  location: string
+  description: string
+}
+
+const THRESHOLD_OPTIONS = [0.5, 0.6, 0.7, 0.8, 0.9, 0.95]
+
+const inputClassName = 'w-full px-3 py-1.5 rounded-md border border-white/20 bg-white/10 text-sm text-slate-100 placeholder:text-slate-400 focus:outline-none focus:ring-2 focus:ring-primary'
+
+const formatEventDate = (date: string, time: string | null) =>
+  `${formatDate(date + 'T00:00:00')}${time ? ` at ${time.substring(0, 5)}` : ''}`
+
+export default function ReviewQueue({ user, onChange, onThresholdChange }: Props) {
+  const [events, setEvents] = useState<ReviewQueueEvent[]>([])
+  const [threshold, setThreshold] = useState<number | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  // Event an action is running for
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [editing, setEditing] = useState<{ id: string; draft: EditDraft } | null>(null)
+  const [merging, setMerging] = useState<{ id: string; targetId: string } | null>(null)
+  const { addToast } = useGlassToast()
+
+  const loadQueue = useCallback(async () => {
+    try {
+      setLoading(true)
+      setError(null)
+
+      const response = await apiFetch('/api/review-queue')
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `Failed to load review queue: ${response.status}`)
+      }
+
+      setEvents(data.events || [])
+      setThreshold(data.threshold)
+    } catch (err) {
+      console.error('Review queue load error:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load review queue')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    loadQueue()
+  }, [loadQueue])
+
+  const handleThresholdChange = async (value: number) => {
+    if (!user) return
+
+    const { error: updateError } = await supabase
+      .from('users')
+      .update({ review_confidence_threshold: value })
+      .eq('id', user.id)
+
+    if (updateError) {
+      console.error('Error updating review threshold:', updateError)
+      addToast({ title: 'Error', description: 'Failed to update review threshold', variant: 'error' })
+      return
+    }
+
+    setThreshold(value)
+    onThresholdChange?.(value)
+    loadQueue()
+  }
+
+  const runAction = async (event: ReviewQueueEvent, body: Record<string, unknown>, successTitle: string) => {
+    setBusyId(event.id)
+    try {
+      const response = await apiFetch('/api/review-queue', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ eventId: event.id, ...body })
+      })
+      const result = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(result.error || result.message || 'Review action failed')
+      }
+
+      setEvents(current => current.filter(item => item.id !== event.id))
+      setEditing(null)
+      setMerging(null)
+      onChange?.()
+      addToast({ title: successTitle, description: event.title, variant: 'success' })
+    } catch (err) {
+      console.error('Review action error:', err)
+      addToast({
+        title: 'Review failed',
+        description: err instanceof Error ? err.message : 'Unknown error',
+        variant: 'error'
+      })
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const startEditing = (event: ReviewQueueEvent) => {
+    setMerging(null)
+    setEditing({
+      id: event.id,
+      draft: {
+        title: event.title,
+        date: event.date,
+        time: event.time ? event.time.substring(0, 5) : '',
+        location: event.location || '',
+        description: event.description || ''
+      }
+    })
+  }
+
+  const updateDraft = (changes: Partial<EditDraft>) => {
+    setEditing(current => (current ? { ...current, draft: { ...current.draft, ...changes } } : current))
+  }
+
+  if (loading && threshold === null) {
+    return (
+      <div className="flex items-center justify-center p-8 text-slate-200">
+        <RefreshCw className="h-8 w-8 animate-spin" />
+        <span className="ml-2">Loading review queue...</span>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <div className="rounded-xl border border-rose-400/35 bg-rose-500/15 p-4 text-sm text-rose-100">
+        <p className="font-medium">Error loading review queue</p>
+        <p className="mt-1">{error}</p>
+        <Button onClick={loadQueue} variant="outline" size="sm" className="mt-3">
+          Try Again
+        </Button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+        <p className="text-sm text-slate-300">
+          Unverified events below the confidence threshold. Approve or correct them to verify; rejected events go to Trash and are not extracted again from the same email.
+        </p>
+        <div className="flex items-center gap-2">
+          <label className="text-xs font-medium text-slate-200 whitespace-nowrap" htmlFor="review-threshold">
+            Review below
+          </label>
+          <select
+            id="review-threshold"
+            value={threshold ?? ''}
+            onChange={(e) => handleThresholdChange(parseFloat(e.target.value))}
+            className="px-3 py-1.5 text-sm rounded-md border border-white/15 bg-white/10 text-slate-100 focus:outline-none focus:ring-1 focus:ring-primary"
+          >
+            {THRESHOLD_OPTIONS.map(option => (
+              <option key={option} value={option}>{Math.round(option * 100)}%</option>
+            ))}
+          </select>
+          <Button onClick={loadQueue} variant="ghost" size="sm" className="text-slate-300 hover:bg-white/10" disabled={loading}>
+            <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </div>
+
+      {events.length === 0 ? (
+        <div className="text-center py-12 text-slate-300">
+          <Check className="h-12 w-12 mx-auto mb-3 text-emerald-300" />
+          <p>Nothing to review</p>
+          <p className="text-sm text-slate-400 mt-1">Every event is verified or above the threshold.</p>
+        </div>
+      ) : (
+        events.map(event => {
+          const isBusy = busyId === event.id
+          const draft = editing?.id === event.id ? editing.draft : null
+          const mergeTargetId = merging?.id === event.id ? merging.targetId : null
+
+          return (
+            <div key={event.id} className="rounded-xl border border-white/15 bg-white/8 p-4 backdrop-blur-xl space-y-3">
+              <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                <div>
+                  <h3 className="font-semibold text-slate-100">{event.title}</h3>
+                  <p className="text-sm text-slate-300">
+                    {formatEventDate(event.date, event.time)}
+                    {event.location && ` · ${event.location}`}
+                  </p>
+                  {event.description && <p className="text-sm text-slate-400 mt-1">{event.description}</p>}
+                </div>
+                <span className="self-start text-xs px-2 py-0.5 rounded-full bg-amber-400/25 border border-amber-400/35 text-amber-100 whitespace-nowrap">
+                  {Math.round(event.confidence * 100)}% confidence
+                </span>
+              </div>
+
+              {event.reasoning && (
+                <div className="text-sm">
+                  <span className="font-medium text-slate-200">Why the model found it: </span>
+                  <span className="text-slate-300">{event.reasoning}</span>
+                </div>
+              )}
+
+              <div className="text-sm">
+                <div className="flex flex-wrap items-center gap-x-2 text-slate-300">
+                  <Mail className="h-4 w-4" />
+                  <span className="font-medium text-slate-200">{event.email.subject}</span>
+                  <span className="text-xs text-slate-400">
+                    {event.email.senderEmail} · {formatDateTime(event.email.sentDate)}
+                    {event.sourceAttachment && ` · 📎 ${event.sourceAttachment}`}
+                  </span>
+                </div>
+                {event.email.excerpt && (
+                  <div className="mt-2 max-h-32 overflow-y-auto rounded-md border border-white/10 bg-white/8 p-3 text-xs text-slate-200/90 whitespace-pre-wrap">
+                    {event.email.excerpt}
+                  </div>
+                )}
+              </div>
+
+              {draft && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                  <input
+                    type="text"
+                    value={draft.title}
+                    onChange={(e) => updateDraft({ title: e.target.value })}
+                    placeholder="Title"
+                    className={`${inputClassName} sm:col-span-2`}
+                    maxLength={255}
+                  />
+                  <input
+                    type="date"
+                    value={draft.date}
+                    onChange={(e) => updateDraft({ date: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="time"
+                    value={draft.time}
+                    onChange={(e) => updateDraft({ time: e.target.value })}
+                    className={inputClassName}
+                  />
+                  <input
+                    type="text"
+                    value={draft.location}
+                    onChange={(e) => updateDraft({ location: e.target.value })}
+                    placeholder="Room, venue or address"
+                    className={`${inputClassName} sm:col-span-2`}
+                    maxLength={255}
+                  />
+                  <textarea
+                    value={draft.description}
+                    onChange={(e) => updateDraft({ description: e.target.value })}
+                    placeholder="Description"
+                    rows={2}
+                    className={`${inputClassName} sm:col-span-2`}
+                  />
+                </div>
+              )}
+
+              {mergeTargetId !== null && (
+                <select
+                  value={mergeTargetId}
+                  onChange={(e) => setMerging({ id: event.id, targetId: e.target.value })}
+                  className={inputClassName}
+                >
+                  <option value="">Merge into…</option>
+                  {event.mergeCandidates.map(candidate => (
+                    <option key={candidate.id} value={candidate.id}>
+                      {candidate.title} ({formatEventDate(candidate.date, candidate.time)}){candidate.verified ? ' ✓' : ''}
+                    </option>
+                  ))}
+                </select>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {draft ? (
+                  <>
+                    <Button
+                      size="sm"
+                      disabled={isBusy || !draft.title.trim() || !draft.date}
+                      onClick={() => runAction(event, {
+                        action: 'edit',
+                        changes: {
+                          title: draft.title,
+                          date: draft.date,
+                          time: draft.time || null,
+                          location: draft.location,
+                          description: draft.description
+                        }
+                      }, 'Event corrected')}
+                    >
+                      {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Save and verify'}
+                    </Button>
+                    <Button variant="ghost" size="sm" className="text-slate-300 hover:bg-white/10" onClick={() => setEditing(null)} disabled={isBusy}>
+                      Cancel
+                    </Button>
+                  </>
+                ) : mergeTargetId !== null ? (
+                  <>
+                    <Button
+                      size="sm"
+                      disabled={isBusy || !mergeTargetId}
+                      onClick={() => runAction(event, { action: 'merge', targetId: mergeTargetId }, 'Events merged')}
+                    >
+                      {isBusy ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Merge'}
+                    </Button>
+                    <Button variant="ghost" size="sm" className="text-slate-300 hover:bg-white/10" onClick={() => setMerging(null)} disabled={isBusy}>
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <Button size="sm" disabled={isBusy} onClick={() => runAction(event, { action: 'approve' }, 'Event approved')}>
+                      <Check className="h-4 w-4 mr-1" />
+                      Approve
+                    </Button>
+                    <Button variant="ghost" size="sm" className="text-slate-200 hover:bg-white/10" disabled={isBusy} onClick={() => startEditing(event)}>
+                      <Pencil className="h-4 w-4 mr-1" />
+                      Edit
+                    </Button>
+                    {event.mergeCandidates.length > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-slate-200 hover:bg-white/10"
+                        disabled={isBusy}
+                        onClick={() => {
+                          setEditing(null)
+                          setMerging({ id: event.id, targetId: '' })
+                        }}
+                      >
+                        <GitMerge className="h-4 w-4 mr-1" />
+                        Merge
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="text-rose-200 hover:bg-rose-500/15"
+                      disabled={isBusy}
+                      onClick={() => runAction(event, { action: 'reject' }, 'Event rejected')}
+                    >
+                      {isBusy ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <X className="h-4 w-4 mr-1" />}
+                      Reject
+                    </Button>
+                  </>
+                )}
+              </div>
+            </div>
+          )
+        })
+      )}
+    </div>
+  )
+}
@@ -26,17 +26,52 @@ const DEFAULT_COLORS = [
 
 const DEFAULT_EMOJIS = ['👦', '👧', '🧒', '👶', '🎓', '📚', '⚽', '🎨', '🎵', '🏆'];
 
+interface ChildDetails {
+  gradeLevel: string;
+  schoolName: string;
+  teacherName: string;
+}
+
+const EMPTY_CHILD_DETAILS: ChildDetails = { gradeLevel: '', schoolName: '', teacherName: '' };
+
+function mapTag(tag: any): Tag {
+  return {
+    id: tag.id,
+    userId: tag.user_id,
+    name: tag.name,
+    type: tag.type,
+    color: tag.color,
+    emoji: tag.emoji,
+    gradeLevel: tag.grade_level || undefined,
+    schoolName: tag.school_name || undefined,
+    teacherName: tag.teacher_name || undefined,
+    createdAt: new Date(tag.created_at),
+    updatedAt: new Date(tag.updated_at)
+  };
+}
+
+// Grade, school and teacher help the extraction step attribute events to the right child
+function toChildColumns(details: ChildDetails) {
+  return {
+    grade_level: details.gradeLevel.trim() || null,
+    school_name: details.schoolName.trim() || null,
+    teacher_name: details.teacherName.trim() || null
+  };
+}
+
 export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
   const [tags, setTags] = useState<Tag[]>([]);
   const [newTagName, setNewTagName] = useState('');
   const [newTagType, setNewTagType] = useState<'kid' | 'general'>('kid');
   const [newTagColor, setNewTagColor] = useState(DEFAULT_COLORS[0]);
   const [newTagEmoji, setNewTagEmoji] = useState('');
+  const [newChildDetails, setNewChildDetails] = useState<ChildDetails>(EMPTY_CHILD_DETAILS);
   const [isAdding, setIsAdding] = useState(false);
   const [editingId, setEditingId] = useState<string | null>(null);
   const [editingName, setEditingName] = useState('');
   const [editingColor, setEditingColor] = useState('');
   const [editingEmoji, setEditingEmoji] = useState('');
+  const [editingChildDetails, setEditingChildDetails] = useState<ChildDetails>(EMPTY_CHILD_DETAILS);
   const [loading, setLoading] = useState(true);
   const { addToast } = useGlassToast();
 
@@ -64,16 +99,7 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
         throw error;
       }
 
-      const mappedTags = (data || []).map((tag: any) => ({
-        id: tag.id,
-        userId: tag.user_id,
-        name: tag.name,
-        type: tag.type,
-        color: tag.color,
-        emoji: tag.emoji,
-        createdAt: new Date(tag.created_at),
-        updatedAt: new Date(tag.updated_at)
-      }));
+      const mappedTags = (data || []).map(mapTag);
 
       setTags(mappedTags);
     } catch (error) {
@@ -94,7 +120,8 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
           name: newTagName.trim(),
           type: newTagType,
           color: newTagColor,
-          emoji: newTagEmoji || null
+          emoji: newTagEmoji || null,
+          ...(newTagType === 'kid' ? toChildColumns(newChildDetails) : {})
         })
         .select()
         .single();
@@ -103,22 +130,14 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
         throw error;
       }
 
-      const mappedTag = {
-        id: data.id,
-        userId: data.user_id,
-        name: data.name,
-        type: data.type,
-        color: data.color,
-        emoji: data.emoji,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      const mappedTag = mapTag(data);
 
       setTags([mappedTag, ...tags]);
       setNewTagName('');
       setNewTagType('kid');
       setNewTagColor(DEFAULT_COLORS[0]);
       setNewTagEmoji('');
+      setNewChildDetails(EMPTY_CHILD_DETAILS);
       setIsAdding(false);
       notify({ title: 'Tag added', description: newTagName.trim(), variant: 'success' });
       onTagsUpdated?.();
@@ -136,7 +155,8 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
         .update({
           name: editingName.trim(),
           color: editingColor,
-          emoji: editingEmoji || null
+          emoji: editingEmoji || null,
+          ...(tags.find(tag => tag.id === id)?.type === 'kid' ? toChildColumns(editingChildDetails) : {})
         })
         .eq('id', id)
         .select()
@@ -146,22 +166,14 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
         throw error;
       }
 
-      const mappedTag = {
-        id: data.id,
-        userId: data.user_id,
-        name: data.name,
-        type: data.type,
-        color: data.color,
-        emoji: data.emoji,
-        createdAt: new Date(data.created_at),
-        updatedAt: new Date(data.updated_at)
-      };
+      const mappedTag = mapTag(data);
 
       setTags(tags.map(tag => tag.id === id ? mappedTag : tag));
       setEditingId(null);
       setEditingName('');
       setEditingColor('');
       setEditingEmoji('');
+      setEditingChildDetails(EMPTY_CHILD_DETAILS);
       onTagsUpdated?.();
       notify({ title: 'Tag updated', description: data.name, variant: 'success' });
     } catch (error) {
@@ -199,6 +211,11 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
     setEditingName(tag.name);
     setEditingColor(tag.color);
     setEditingEmoji(tag.emoji || '');
+    setEditingChildDetails({
+      gradeLevel: tag.gradeLevel || '',
+      schoolName: tag.schoolName || '',
+      teacherName: tag.teacherName || ''
+    });
   };
 
   const cancelEditing = () => {
@@ -206,6 +223,7 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
     setEditingName('');
     setEditingColor('');
     setEditingEmoji('');
+    setEditingChildDetails(EMPTY_CHILD_DETAILS);
   };
 
   const createDefaultTags = async () => {
@@ -286,6 +304,10 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
                   </select>
                 </div>
                 
+                {newTagType === 'kid' && (
+                  <ChildDetailsFields details={newChildDetails} onChange={setNewChildDetails} />
+                )}
+
                 <div className="flex items-center gap-2">
                   <span className="text-sm text-gray-600">Color:</span>
                   <div className="flex gap-1">
@@ -373,7 +395,7 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
                   </div>
                   
                   {editingId === tag.id ? (
-                    <div className="flex items-center gap-2">
+                    <div className="flex flex-wrap items-center gap-2">
                       <input
                         type="text"
                         value={editingName}
@@ -401,6 +423,9 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
                           />
                         ))}
                       </div>
+                      {tag.type === 'kid' && (
+                        <ChildDetailsFields details={editingChildDetails} onChange={setEditingChildDetails} />
+                      )}
                     </div>
                   ) : (
                     <div>
@@ -408,7 +433,7 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
                         {tag.name}
                       </p>
                       <p className="text-xs text-gray-500 capitalize">
-                        {tag.type}
+                        {[tag.type, tag.gradeLevel, tag.schoolName, tag.teacherName].filter(Boolean).join(' · ')}
                       </p>
                     </div>
                   )}
@@ -467,3 +492,26 @@ export default function TagManager({ userId, onTagsUpdated }: TagManagerProps) {
     </Card>
   );
 }
+
+function ChildDetailsFields({ details, onChange }: { details: ChildDetails; onChange: (details: ChildDetails) => void }) {
+  const fields: Array<{ key: keyof ChildDetails; placeholder: string }> = [
+    { key: 'gradeLevel', placeholder: 'Grade (e.g., 3rd Grade)' },
+    { key: 'schoolName', placeholder: 'School' },
+    { key: 'teacherName', placeholder: 'Teacher' }
+  ];
+
+  return (
+    <div className="flex flex-wrap gap-2">
+      {fields.map(field => (
+        <input
+          key={field.key}
+          type="text"
+          value={details[field.key]}
+          onChange={(e) => onChange({ ...details, [field.key]: e.target.value })}
+          placeholder={field.placeholder}
+          className="flex-1 min-w-[120px] px-2 py-1 text-sm border rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+        />
+      ))}
+    </div>
+  );
+}
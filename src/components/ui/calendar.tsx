@@ -1,7 +1,8 @@
 import { useState } from 'react'
-import { ChevronLeft, ChevronRight, Clock, CalendarCheck, AlertCircle, Loader2 } from 'lucide-react'
+import { ChevronLeft, ChevronRight, Clock, CalendarCheck, AlertCircle, Loader2, Repeat, MapPin } from 'lucide-react'
 import { Button } from './button'
 import { ExtractedDate } from '../../types'
+import { describeRecurrence, EventDay, getEventDays } from '../../lib/recurrence'
 import { FcGoogle } from 'react-icons/fc'
 
 interface CalendarProps {
@@ -10,6 +11,10 @@ interface CalendarProps {
   onSyncRequest?: (event: ExtractedDate) => void
 }
 
+function getDateKey(date: Date) {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`
+}
+
 export default function Calendar({ events, onEventClick, onSyncRequest }: CalendarProps) {
   // Start with today's week
   const [currentWeekStart, setCurrentWeekStart] = useState(() => {
@@ -28,29 +33,21 @@ export default function Calendar({ events, onEventClick, onSyncRequest }: Calend
     return date
   })
 
-  // Get events for the current week
-  const weekEvents = events.filter(event => {
-    const eventDate = new Date(event.eventDate)
-    const startOfWeek = new Date(currentWeekStart)
-    startOfWeek.setHours(0, 0, 0, 0)
-    const endOfWeek = new Date(currentWeekStart)
-    endOfWeek.setHours(0, 0, 0, 0)
-    endOfWeek.setDate(startOfWeek.getDate() + 6)
-    endOfWeek.setHours(23, 59, 59, 999)
-    
-    // Calendar date filtering works correctly
-    
-    return eventDate >= startOfWeek && eventDate <= endOfWeek
-  })
+  // Group the current week's occurrences by date. Recurring events appear on
+  // every day their rule selects and multi-day events on every day they run;
+  // each entry is the series event itself.
+  const weekEnd = new Date(currentWeekStart)
+  weekEnd.setDate(currentWeekStart.getDate() + 6)
+  weekEnd.setHours(23, 59, 59, 999)
 
-  // Group events by date
-  const eventsByDate = weekEvents.reduce((acc, event) => {
-    const eventDate = new Date(event.eventDate)
-    const dateKey = `${eventDate.getFullYear()}-${(eventDate.getMonth() + 1).toString().padStart(2, '0')}-${eventDate.getDate().toString().padStart(2, '0')}`
-    if (!acc[dateKey]) acc[dateKey] = []
-    acc[dateKey].push(event)
+  const eventsByDate = events.reduce((acc, event) => {
+    for (const day of getEventDays(event, currentWeekStart, weekEnd)) {
+      const dateKey = getDateKey(day.date)
+      if (!acc[dateKey]) acc[dateKey] = []
+      acc[dateKey].push({ event, day })
+    }
     return acc
-  }, {} as Record<string, ExtractedDate[]>)
+  }, {} as Record<string, { event: ExtractedDate; day: EventDay }[]>)
 
   const monthNames = [
     'January', 'February', 'March', 'April', 'May', 'June',
@@ -120,10 +117,6 @@ export default function Calendar({ events, onEventClick, onSyncRequest }: Calend
     }
   }
 
-  const getDateKey = (date: Date) => {
-    return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`
-  }
-
   return (
     <div className="w-full">
       {/* Calendar Header */}
@@ -197,9 +190,9 @@ export default function Calendar({ events, onEventClick, onSyncRequest }: Calend
 
               {/* Events */}
               <div className="space-y-2">
-                {dayEvents.map((event) => (
+                {dayEvents.map(({ event, day }) => (
                   <div
-                    key={event.id}
+                    key={`${event.id}-${dateKey}`}
                     className={`
                       text-xs p-2 rounded-xl cursor-pointer transition-colors backdrop-blur-xl border
                       ${event.confidenceScore >= 0.9 
@@ -213,13 +206,29 @@ export default function Calendar({ events, onEventClick, onSyncRequest }: Calend
                     title={`${event.eventTitle}\n${event.description || ''}\nConfidence: ${Math.round(event.confidenceScore * 100)}%`}
                   >
                     <div className="flex items-center justify-between gap-2 mb-1">
-                      {event.eventTime ? (
+                      {day.dayIndex > 0 ? (
+                        <span className="text-[10px] uppercase tracking-wide opacity-70">
+                          {day.dayIndex === day.spanDays && event.eventEndTime
+                            ? `Until ${event.eventEndTime}`
+                            : `Day ${day.dayIndex + 1} of ${day.spanDays + 1}`}
+                        </span>
+                      ) : event.eventTime ? (
                         <div className="flex items-center gap-1 font-medium">
                           <Clock className="h-3 w-3 flex-shrink-0" />
-                          <span>{event.eventTime}</span>
+                          <span>
+                            {event.eventTime}
+                            {event.eventEndTime && day.spanDays === 0 && `–${event.eventEndTime}`}
+                          </span>
                         </div>
                       ) : (
-                        <span className="text-[10px] uppercase tracking-wide opacity-70">All day</span>
+                        <span className="text-[10px] uppercase tracking-wide opacity-70">
+                          {day.spanDays > 0 ? `All day · ${day.spanDays + 1} days` : 'All day'}
+                        </span>
+                      )}
+                      {event.recurrenceRule && (
+                        <span title={describeRecurrence(event.recurrenceRule)}>
+                          <Repeat className="h-3 w-3 flex-shrink-0 opacity-80" />
+                        </span>
                       )}
                       {event.googleCalendarSyncStatus === 'synced' && (
                         <CalendarCheck className="h-3 w-3 text-emerald-200 flex-shrink-0" />
@@ -234,6 +243,25 @@ export default function Calendar({ events, onEventClick, onSyncRequest }: Calend
                     <div className="font-medium leading-tight text-slate-100">
                       {event.eventTitle || event.description || 'Untitled Event'}
                     </div>
+                    {event.children && event.children.length > 0 && (
+                      <div className="mt-1 flex flex-wrap gap-1">
+                        {event.children.map(child => (
+                          <span
+                            key={child.id}
+                            className="px-1.5 py-0.5 rounded-full text-[10px] font-medium"
+                            style={{ backgroundColor: `${child.color}33`, color: child.color }}
+                          >
+                            {child.emoji ? `${child.emoji} ` : ''}{child.name}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                    {event.location && (
+                      <div className="mt-1 flex items-center gap-1 text-xs opacity-80 text-slate-200">
+                        <MapPin className="h-3 w-3 flex-shrink-0" />
+                        <span className="truncate">{event.location}</span>
+                      </div>
+                    )}
                     {event.senderName && (
                       <div className="mt-1 text-xs opacity-80 text-slate-200 font-medium">
                         From: {event.senderName}
@@ -4,16 +4,24 @@ import { CheckCircle2, AlertTriangle, Info } from 'lucide-react'
 
 type ToastVariant = 'success' | 'error' | 'info'
 
+// Button shown in the toast, e.g. Undo; clicking it also dismisses the toast
+interface ToastAction {
+  label: string
+  onClick: () => void
+}
+
 interface ToastOptions {
   id?: string
   title?: string
   description?: string
   variant?: ToastVariant
   durationMs?: number
+  action?: ToastAction
 }
 
-interface Toast extends Required<Omit<ToastOptions, 'durationMs'>> {
+interface Toast extends Required<Omit<ToastOptions, 'durationMs' | 'action'>> {
   durationMs: number
+  action?: ToastAction
 }
 
 interface GlassToastContextValue {
@@ -53,14 +61,15 @@ export function GlassToastProvider({ children }: { children: React.ReactNode })
   }, [])
 
   const addToast = useCallback(
-    ({ id, title, description, variant = 'info', durationMs = DEFAULT_DURATION }: ToastOptions) => {
+    ({ id, title, description, variant = 'info', durationMs = DEFAULT_DURATION, action }: ToastOptions) => {
       const toastId = id ?? crypto.randomUUID()
       const toast: Toast = {
         id: toastId,
         title: title ?? '',
         description: description ?? '',
         variant,
-        durationMs
+        durationMs,
+        action
       }
 
       setToasts(current => {
@@ -127,6 +136,17 @@ function GlassToastViewport({ toasts, onDismiss }: { toasts: Toast[]; onDismiss:
                     </p>
                   )}
                 </div>
+                {toast.action && (
+                  <button
+                    onClick={() => {
+                      toast.action!.onClick()
+                      onDismiss(toast.id)
+                    }}
+                    className="flex-shrink-0 rounded-full bg-white/15 px-3 py-1 text-sm font-medium text-slate-100 transition hover:bg-white/25"
+                  >
+                    {toast.action.label}
+                  </button>
+                )}
                 <button
                   onClick={() => onDismiss(toast.id)}
                   className="flex h-6 w-6 items-center justify-center rounded-full bg-white/10 text-slate-200 transition hover:bg-white/20"
@@ -0,0 +1,15 @@
+import { supabase } from './supabase'
+
+// fetch() for our /api routes. Every route verifies the Supabase session, so the
+// current access token is sent as a bearer token; getSession() refreshes it
+// first when it has expired.
+export async function apiFetch(input: string, init: RequestInit = {}): Promise<Response> {
+  const { data: { session } } = await supabase.auth.getSession()
+  const headers = new Headers(init.headers)
+
+  if (session?.access_token) {
+    headers.set('Authorization', `Bearer ${session.access_token}`)
+  }
+
+  return fetch(input, { ...init, headers })
+}
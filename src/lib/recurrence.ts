@@ -0,0 +1,226 @@
+import { ExtractedDate } from '../types'
+
+// Client-side expansion of recurring and multi-day events. event_date is the
+// first occurrence and recurrence_rule an iCalendar RRULE value (FREQ, INTERVAL,
+// COUNT, UNTIL, BYDAY, BYMONTHDAY, BYMONTH). event_end_date, when set, is the
+// last day of the first occurrence.
+
+const WEEKDAYS: Record<string, number> = { SU: 0, MO: 1, TU: 2, WE: 3, TH: 4, FR: 5, SA: 6 }
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+
+function parseRule(rule: string): Record<string, string> {
+  const parts: Record<string, string> = {}
+  for (const part of rule.split(';')) {
+    const [key, value] = part.split('=')
+    if (key && value) {
+      parts[key.toUpperCase()] = value.toUpperCase()
+    }
+  }
+  return parts
+}
+
+function toDateKey(date: Date): string {
+  return `${date.getFullYear()}-${(date.getMonth() + 1).toString().padStart(2, '0')}-${date.getDate().toString().padStart(2, '0')}`
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date)
+  day.setHours(0, 0, 0, 0)
+  return day
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate()
+}
+
+// Weeks are counted Monday to Sunday, the RRULE default (WKST=MO)
+function startOfRuleWeek(date: Date): Date {
+  const day = startOfDay(date)
+  day.setDate(day.getDate() - ((day.getDay() + 6) % 7))
+  return day
+}
+
+function matchesByDayInMonth(day: Date, entry: string): boolean {
+  const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/)
+  if (!match || WEEKDAYS[match[2]] !== day.getDay()) {
+    return false
+  }
+  if (!match[1]) {
+    return true
+  }
+
+  const ordinal = parseInt(match[1], 10)
+  const fromStart = Math.floor((day.getDate() - 1) / 7) + 1
+  const fromEnd = -(Math.floor((daysInMonth(day) - day.getDate()) / 7) + 1)
+  return ordinal > 0 ? ordinal === fromStart : ordinal === fromEnd
+}
+
+function matchesDayWithinMonth(day: Date, start: Date, rule: Record<string, string>): boolean {
+  if (rule.BYMONTHDAY) {
+    return rule.BYMONTHDAY.split(',').some(value => {
+      const monthDay = parseInt(value, 10)
+      return monthDay > 0 ? day.getDate() === monthDay : day.getDate() === daysInMonth(day) + monthDay + 1
+    })
+  }
+  if (rule.BYDAY) {
+    return rule.BYDAY.split(',').some(entry => matchesByDayInMonth(day, entry))
+  }
+  return day.getDate() === start.getDate()
+}
+
+function parseUntil(value: string): Date | null {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/)
+  return match ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10), 23, 59, 59, 999) : null
+}
+
+// Dates of an event's occurrences between rangeStart and rangeEnd (inclusive).
+// Non-recurring events return their own date when it falls in the range.
+export function getOccurrenceDates(event: ExtractedDate, rangeStart: Date, rangeEnd: Date): Date[] {
+  const start = startOfDay(event.eventDate)
+  const from = startOfDay(rangeStart)
+
+  if (!event.recurrenceRule) {
+    return start >= from && start <= rangeEnd ? [start] : []
+  }
+
+  const rule = parseRule(event.recurrenceRule)
+  const interval = Math.max(1, parseInt(rule.INTERVAL || '1', 10))
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : null
+  const until = rule.UNTIL ? parseUntil(rule.UNTIL) : null
+  const lastDay = until && until < rangeEnd ? until : rangeEnd
+  const byDay = rule.BYDAY ? rule.BYDAY.split(',') : null
+  const byMonth = rule.BYMONTH ? rule.BYMONTH.split(',').map(month => parseInt(month, 10)) : null
+  const exceptions = new Set(event.recurrenceExceptions || [])
+  const startWeek = startOfRuleWeek(start)
+
+  const occurrences: Date[] = []
+  let matched = 0
+
+  for (let day = new Date(start); day <= lastDay; day.setDate(day.getDate() + 1)) {
+    let selected = false
+
+    switch (rule.FREQ) {
+      case 'DAILY': {
+        const days = Math.round((day.getTime() - start.getTime()) / 86400000)
+        selected = days % interval === 0 &&
+          (!byDay || byDay.some(entry => WEEKDAYS[entry.slice(-2)] === day.getDay())) &&
+          (!byMonth || byMonth.includes(day.getMonth() + 1))
+        break
+      }
+      case 'WEEKLY': {
+        const weeks = Math.round((startOfRuleWeek(day).getTime() - startWeek.getTime()) / (7 * 86400000))
+        selected = weeks % interval === 0 &&
+          (byDay ? byDay.some(entry => WEEKDAYS[entry.slice(-2)] === day.getDay()) : day.getDay() === start.getDay())
+        break
+      }
+      case 'MONTHLY': {
+        const months = (day.getFullYear() - start.getFullYear()) * 12 + day.getMonth() - start.getMonth()
+        selected = months % interval === 0 && matchesDayWithinMonth(day, start, rule)
+        break
+      }
+      case 'YEARLY':
+        selected = (day.getFullYear() - start.getFullYear()) % interval === 0 &&
+          (byMonth ? byMonth.includes(day.getMonth() + 1) : day.getMonth() === start.getMonth()) &&
+          matchesDayWithinMonth(day, start, rule)
+        break
+      default:
+        return start >= from && start <= rangeEnd ? [start] : []
+    }
+
+    if (!selected) {
+      continue
+    }
+
+    matched++
+    if (day >= from && !exceptions.has(toDateKey(day))) {
+      occurrences.push(new Date(day))
+    }
+    if (count !== null && matched >= count) {
+      break
+    }
+  }
+
+  return occurrences
+}
+
+// Days an event runs past its start date: 0 for single-day events
+export function getEventSpanDays(event: ExtractedDate): number {
+  if (!event.eventEndDate) {
+    return 0
+  }
+  const days = Math.round((startOfDay(event.eventEndDate).getTime() - startOfDay(event.eventDate).getTime()) / 86400000)
+  return Math.max(0, days)
+}
+
+export interface EventDay {
+  date: Date
+  // 0 on the day an occurrence starts, spanDays on its last day
+  dayIndex: number
+  spanDays: number
+}
+
+// Every day between rangeStart and rangeEnd an event covers. Multi-day events
+// cover each day from an occurrence's start through its end, so occurrences
+// that started before the range still show on the days they run into it.
+export function getEventDays(event: ExtractedDate, rangeStart: Date, rangeEnd: Date): EventDay[] {
+  const spanDays = getEventSpanDays(event)
+  const from = startOfDay(rangeStart)
+  const searchStart = new Date(from)
+  searchStart.setDate(searchStart.getDate() - spanDays)
+
+  const days: EventDay[] = []
+  for (const occurrence of getOccurrenceDates(event, searchStart, rangeEnd)) {
+    for (let dayIndex = 0; dayIndex <= spanDays; dayIndex++) {
+      const date = new Date(occurrence)
+      date.setDate(date.getDate() + dayIndex)
+      if (date >= from && date <= rangeEnd) {
+        days.push({ date, dayIndex, spanDays })
+      }
+    }
+  }
+  return days
+}
+
+// Short human description of a rule, e.g. "Weekly on Tue, Thu until Nov 26, 2025"
+export function describeRecurrence(recurrenceRule: string): string {
+  const rule = parseRule(recurrenceRule)
+  const interval = parseInt(rule.INTERVAL || '1', 10)
+  const units: Record<string, [string, string]> = {
+    DAILY: ['Daily', 'days'],
+    WEEKLY: ['Weekly', 'weeks'],
+    MONTHLY: ['Monthly', 'months'],
+    YEARLY: ['Yearly', 'years']
+  }
+  const unit = units[rule.FREQ]
+  if (!unit) {
+    return 'Repeats'
+  }
+
+  let text = interval > 1 ? `Every ${interval} ${unit[1]}` : unit[0]
+  if (rule.BYDAY) {
+    const days = rule.BYDAY.split(',').map(entry => {
+      const match = entry.match(/^([+-]?\d+)?([A-Z]{2})$/)
+      if (!match || WEEKDAYS[match[2]] === undefined) {
+        return entry
+      }
+      const name = DAY_NAMES[WEEKDAYS[match[2]]]
+      if (!match[1]) {
+        return name
+      }
+      const ordinal = parseInt(match[1], 10)
+      return `${ordinal === -1 ? 'last' : ['first', 'second', 'third', 'fourth', 'fifth'][ordinal - 1] || ordinal} ${name}`
+    })
+    text += ` on ${days.join(', ')}`
+  } else if (rule.BYMONTHDAY) {
+    text += ` on day ${rule.BYMONTHDAY.split(',').join(', ')}`
+  }
+
+  const until = rule.UNTIL ? parseUntil(rule.UNTIL) : null
+  if (until) {
+    text += ` until ${until.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}`
+  } else if (rule.COUNT) {
+    text += `, ${rule.COUNT} times`
+  }
+
+  return text
+}
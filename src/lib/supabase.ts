@@ -128,16 +128,26 @@ export type Database = {
       extracted_dates: {
         Row: {
           id: string
-          email_id: string
+          email_id: string | null
           user_id: string
           event_title: string
           event_date: string
           event_time: string | null
+          event_end_date: string | null
+          event_end_time: string | null
+          location: string | null
           description: string | null
           confidence_score: number
           extracted_at: string
           is_verified: boolean
           reasoning: string | null
+          source_attachment: string | null
+          recurrence_rule: string | null
+          recurrence_exceptions: string[] | null
+          source: 'llm' | 'ics' | 'manual'
+          source_text: string | null
+          deleted_at: string | null
+          ics_uid: string | null
           google_calendar_event_id: string | null
           google_calendar_synced_at: string | null
           google_calendar_sync_status: string | null
@@ -145,16 +155,26 @@ export type Database = {
         }
         Insert: {
           id?: string
-          email_id: string
+          email_id?: string | null
           user_id: string
           event_title: string
           event_date: string
           event_time?: string | null
+          event_end_date?: string | null
+          event_end_time?: string | null
+          location?: string | null
           description?: string | null
           confidence_score: number
           extracted_at?: string
           is_verified?: boolean
           reasoning?: string | null
+          source_attachment?: string | null
+          recurrence_rule?: string | null
+          recurrence_exceptions?: string[] | null
+          source?: 'llm' | 'ics' | 'manual'
+          source_text?: string | null
+          deleted_at?: string | null
+          ics_uid?: string | null
           google_calendar_event_id?: string | null
           google_calendar_synced_at?: string | null
           google_calendar_sync_status?: string | null
@@ -162,16 +182,26 @@ export type Database = {
         }
         Update: {
           id?: string
-          email_id?: string
+          email_id?: string | null
           user_id?: string
           event_title?: string
           event_date?: string
           event_time?: string | null
+          event_end_date?: string | null
+          event_end_time?: string | null
+          location?: string | null
           description?: string | null
           confidence_score?: number
           extracted_at?: string
           is_verified?: boolean
           reasoning?: string | null
+          source_attachment?: string | null
+          recurrence_rule?: string | null
+          recurrence_exceptions?: string[] | null
+          source?: 'llm' | 'ics' | 'manual'
+          source_text?: string | null
+          deleted_at?: string | null
+          ics_uid?: string | null
           google_calendar_event_id?: string | null
           google_calendar_synced_at?: string | null
           google_calendar_sync_status?: string | null
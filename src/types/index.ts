@@ -14,6 +14,10 @@ export interface Tag {
   type: 'kid' | 'general'
   color: string
   emoji?: string
+  // Kid tags only: details given to the extraction prompt for attribution
+  gradeLevel?: string
+  schoolName?: string
+  teacherName?: string
   createdAt: Date
   updatedAt: Date
 }
@@ -48,6 +52,11 @@ export interface ExtractedDate {
   eventTitle: string
   eventDate: Date
   eventTime?: string
+  // Last day of a multi-day event
+  eventEndDate?: Date
+  eventEndTime?: string
+  // Room, venue or address the event takes place at
+  location?: string
   description?: string
   confidenceScore: number
   extractedAt: Date
@@ -61,6 +70,18 @@ export interface ExtractedDate {
   emailBodyPreview?: string
   // LLM reasoning for extraction
   reasoning?: string
+  // iCalendar RRULE value for repeating events; eventDate is the first occurrence
+  recurrenceRule?: string
+  // Skipped occurrence dates (YYYY-MM-DD)
+  recurrenceExceptions?: string[]
+  // Where the event came from: LLM extraction, an imported calendar invite or quick-add
+  source?: 'llm' | 'ics' | 'manual'
+  // Free text a manual event was quick-added from
+  sourceText?: string
+  // Attachment filename when the event was read from a PDF or image attachment
+  sourceAttachment?: string
+  // Children (kid tags) the event was attributed to during extraction or by the user
+  children?: Tag[]
   // Tag information from email source
   tag?: Tag
   // Google Calendar sync metadata
@@ -68,6 +89,24 @@ export interface ExtractedDate {
   googleCalendarSyncedAt?: Date
   googleCalendarSyncStatus?: 'pending' | 'synced' | 'error'
   googleCalendarSyncError?: string
+  // Last edit by the user and the fields they changed; unset while as extracted
+  editedAt?: Date
+  editedFields?: string[]
+}
+
+// Mirrors EventRevision from api/_lib/revisions.ts (GET /api/event-revisions);
+// the 'extraction' revision holds the event as it was extracted
+export interface EventRevision {
+  id: string
+  source: 'extraction' | 'user'
+  title: string
+  date: string
+  time: string | null
+  description: string | null
+  location: string | null
+  tagIds: string[]
+  changedFields: string[]
+  createdAt: string
 }
 
 export interface ProcessingHistory {
@@ -81,6 +120,17 @@ export interface ProcessingHistory {
   errorMessage?: string
 }
 
+export interface EmailJobProgress {
+  id: string
+  emailId: string
+  subject: string
+  status: 'queued' | 'running' | 'batched' | 'completed' | 'dead'
+  attempts: number
+  eventsStored: number
+  changesStaged: number
+  lastError?: string
+}
+
 export interface LLMResponse {
   title: string
   date: string
@@ -123,11 +173,88 @@ export interface GmailMessage {
 
 export interface ConfigSettings {
   emailSources: EmailSource[]
-  llmProvider: 'openai' | 'claude'
-  processingInterval: number
+  llmProvider: 'openai' | 'gemini' | 'claude' | 'local'
+  processingInterval: number // Minutes between scheduled syncs (users.sync_interval_minutes), 0 = off
   confidenceThreshold: number
 }
 
+// Mirrors BudgetStatus from api/_lib/budget.ts (GET /api/llm-budget)
+export interface LlmBudgetStatus {
+  limitUsd: number | null
+  mode: 'stop' | 'degrade'
+  spentUsd: number
+  periodStart: string
+  periodEnd: string
+  state: 'unlimited' | 'ok' | 'warning' | 'exceeded'
+}
+
+// Mirrors ReviewEvent from api/_lib/review.ts (GET /api/review-queue)
+export interface ReviewQueueEvent {
+  id: string
+  emailId: string
+  title: string
+  date: string
+  time: string | null
+  endDate: string | null
+  endTime: string | null
+  location: string | null
+  description: string | null
+  confidence: number
+  reasoning: string | null
+  sourceAttachment: string | null
+  email: {
+    subject: string
+    senderEmail: string
+    sentDate: string
+    excerpt: string | null
+  }
+  mergeCandidates: Array<{ id: string; title: string; date: string; time: string | null; verified: boolean }>
+}
+
+// Mirrors QuickAddEvent from api/_lib/quickadd.ts (POST /api/quick-add)
+export interface QuickAddEvent {
+  title: string
+  date: string
+  time: string | null
+  endDate: string | null
+  endTime: string | null
+  location: string | null
+  description: string | null
+  recurrenceRule: string | null
+  confidence: number
+  reasoning: string | null
+  tagIds: string[]
+  promptVersion: string | null
+}
+
+// Event details compared by a reprocess, as in api/_lib/reprocess.ts
+export interface ReprocessEventDetails {
+  title: string
+  date: string
+  time: string | null
+  endDate: string | null
+  endTime: string | null
+  location: string | null
+  description: string | null
+  recurrenceRule: string | null
+  tagIds: string[]
+}
+
+export type ReprocessChangeType = 'added' | 'changed' | 'removed' | 'unchanged'
+
+// Mirrors ReprocessChange from api/_lib/reprocess.ts (GET /api/reprocess-changes)
+export interface ReprocessChange {
+  id: string
+  emailId: string
+  emailSubject: string | null
+  eventId: string | null
+  changeType: ReprocessChangeType
+  changedFields: string[]
+  current: (ReprocessEventDetails & { verified: boolean }) | null
+  proposed: (ReprocessEventDetails & { confidence: number }) | null
+  createdAt: string
+}
+
 export interface EmailSummary {
   id: string
   emailId: string
@@ -0,0 +1,10 @@
+-- Migration: Store the Gmail history checkpoint per user
+-- The sync stores the mailbox historyId after every successful run and uses
+-- history.list to fetch only messages added since then.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS gmail_history_id TEXT;
+
+-- Reprocessing and expired histories fall back to a bounded search scan,
+-- after which the checkpoint is written again.
+COMMENT ON COLUMN users.gmail_history_id IS 'Gmail historyId of the last successful email sync';
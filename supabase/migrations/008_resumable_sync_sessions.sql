@@ -0,0 +1,14 @@
+-- Migration: Resumable sync sessions
+-- A sync walks every page of Gmail results. When a run gets close to the
+-- serverless time limit it stops after the current page and stores its Gmail
+-- position here; the next call for the same user resumes from it.
+
+ALTER TABLE sync_sessions
+ADD COLUMN IF NOT EXISTS sync_cursor JSONB;
+
+COMMENT ON COLUMN sync_sessions.sync_cursor IS 'Gmail position of an interrupted run (mode, query/startHistoryId, pageToken); NULL once completed';
+
+-- Finding the interrupted session to resume
+CREATE INDEX IF NOT EXISTS idx_sync_sessions_resumable
+ON sync_sessions(user_id, session_type, started_at DESC)
+WHERE completed_at IS NULL AND sync_cursor IS NOT NULL;
@@ -0,0 +1,88 @@
+-- Migration: Background job queue for email processing
+-- /api/sync-emails stores new emails and enqueues one extraction job per email.
+-- /api/process-email-jobs claims jobs under a lease, retries failures with
+-- exponential backoff and dead-letters jobs that exhaust max_attempts.
+
+-- Step 1: Jobs table
+CREATE TABLE IF NOT EXISTS email_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  session_id UUID REFERENCES sync_sessions(id) ON DELETE SET NULL,
+  email_id UUID NOT NULL REFERENCES processed_emails(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'dead')),
+  payload JSONB NOT NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 5,
+  run_after TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  lease_owner TEXT,
+  lease_expires_at TIMESTAMPTZ,
+  last_error TEXT,
+  result JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+-- Step 2: Indexes
+-- At most one active job per email
+CREATE UNIQUE INDEX IF NOT EXISTS idx_email_jobs_active_email
+ON email_jobs(email_id)
+WHERE status IN ('queued', 'running');
+
+-- Claiming runnable jobs in order
+CREATE INDEX IF NOT EXISTS idx_email_jobs_runnable
+ON email_jobs(status, run_after, created_at);
+
+-- Dashboard progress polling
+CREATE INDEX IF NOT EXISTS idx_email_jobs_user_created
+ON email_jobs(user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS idx_email_jobs_session
+ON email_jobs(session_id);
+
+-- Step 3: Atomically lease the next runnable jobs.
+-- Runnable = queued and past run_after, or running with an expired lease (crashed worker).
+-- SKIP LOCKED lets several workers drain the queue without claiming the same job.
+CREATE OR REPLACE FUNCTION claim_email_jobs(
+  p_worker_id TEXT,
+  p_limit INTEGER DEFAULT 1,
+  p_lease_seconds INTEGER DEFAULT 180,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS SETOF email_jobs
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE email_jobs j
+  SET status = 'running',
+      lease_owner = p_worker_id,
+      lease_expires_at = NOW() + make_interval(secs => p_lease_seconds),
+      attempts = j.attempts + 1,
+      updated_at = NOW()
+  WHERE j.id IN (
+    SELECT candidate.id
+    FROM email_jobs candidate
+    WHERE (
+        (candidate.status = 'queued' AND candidate.run_after <= NOW())
+        OR (candidate.status = 'running' AND candidate.lease_expires_at < NOW())
+      )
+      AND (p_user_id IS NULL OR candidate.user_id = p_user_id)
+    ORDER BY candidate.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING j.*;
+END;
+$$;
+
+-- Step 4: RLS - users can watch their own jobs; only the service role writes
+ALTER TABLE email_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own email jobs" ON email_jobs;
+
+CREATE POLICY "Users can view own email jobs"
+ON email_jobs FOR SELECT
+USING (auth.uid() IN (SELECT auth_user_id FROM users WHERE users.id = email_jobs.user_id));
+
+GRANT SELECT ON email_jobs TO authenticated;
@@ -0,0 +1,24 @@
+-- Migration: Scheduled automatic sync per user
+-- /api/scheduled-sync runs on a Vercel cron and syncs every user whose
+-- next_scheduled_sync_at has passed, using the stored refresh token.
+
+-- Step 1: Per-user schedule (0 = automatic sync disabled)
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS sync_interval_minutes INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_scheduled_sync_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS scheduled_sync_failures INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS scheduled_sync_last_error TEXT;
+
+COMMENT ON COLUMN users.sync_interval_minutes IS 'Minutes between scheduled syncs, 0 disables automatic sync';
+COMMENT ON COLUMN users.scheduled_sync_failures IS 'Consecutive failed scheduled syncs, drives exponential backoff';
+
+-- Step 2: Finding users that are due
+CREATE INDEX IF NOT EXISTS idx_users_next_scheduled_sync
+ON users(next_scheduled_sync_at)
+WHERE sync_interval_minutes > 0;
+
+-- Step 3: Allow the new session type
+ALTER TABLE sync_sessions DROP CONSTRAINT IF EXISTS sync_sessions_session_type_check;
+ALTER TABLE sync_sessions
+ADD CONSTRAINT sync_sessions_session_type_check
+CHECK (session_type IN ('sync', 'reprocess', 'scheduled'));
@@ -0,0 +1,8 @@
+-- Migration: Track which attachment an extracted event came from
+-- The sync reads PDF text layers and OCRs image attachments, and the extraction
+-- step runs each attachment separately from the email body.
+
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS source_attachment TEXT;
+
+COMMENT ON COLUMN extracted_dates.source_attachment IS 'Filename of the attachment the event was extracted from, NULL when it came from the email body';
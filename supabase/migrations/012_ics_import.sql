@@ -0,0 +1,23 @@
+-- Migration: Deterministic import of calendar invites and .ics files
+-- VEVENTs are parsed during sync and stored without the LLM, with confidence 1.0.
+
+-- Step 1: Where each event came from
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS source TEXT NOT NULL DEFAULT 'llm';
+
+ALTER TABLE extracted_dates
+DROP CONSTRAINT IF EXISTS extracted_dates_source_check;
+
+ALTER TABLE extracted_dates
+ADD CONSTRAINT extracted_dates_source_check CHECK (source IN ('llm', 'ics'));
+
+-- Step 2: iCalendar UID, so updated or cancelled invites replace earlier rows
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS ics_uid TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_extracted_dates_ics_uid
+ON extracted_dates(user_id, ics_uid)
+WHERE ics_uid IS NOT NULL;
+
+COMMENT ON COLUMN extracted_dates.source IS 'llm for extracted events, ics for events imported from calendar data';
+COMMENT ON COLUMN extracted_dates.ics_uid IS 'UID of the VEVENT an imported event came from';
@@ -0,0 +1,14 @@
+-- Migration: Recurring events
+-- A repeating event is stored once, on its first upcoming occurrence, with an
+-- iCalendar RRULE value. The Dashboard calendar expands the occurrences and
+-- Google Calendar receives a single recurring event.
+
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS recurrence_rule TEXT;
+
+-- Skipped occurrences (EXDATE) from imported calendar invites
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS recurrence_exceptions DATE[];
+
+COMMENT ON COLUMN extracted_dates.recurrence_rule IS 'RRULE value without the RRULE: prefix, e.g. FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20251126. event_date is the first occurrence';
+COMMENT ON COLUMN extracted_dates.recurrence_exceptions IS 'Occurrence dates removed from the series';
@@ -0,0 +1,17 @@
+-- Migration: Event end date and end time
+-- Multi-day events (spring break, camps, tournaments) are stored once with the
+-- last day in event_end_date instead of one row per day. event_end_time holds a
+-- stated end time; without it Google Calendar events get a default duration.
+
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS event_end_date DATE;
+
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS event_end_time TIME;
+
+ALTER TABLE extracted_dates
+ADD CONSTRAINT extracted_dates_end_after_start_check
+CHECK (event_end_date IS NULL OR event_end_date >= event_date);
+
+COMMENT ON COLUMN extracted_dates.event_end_date IS 'Last day of a multi-day event (inclusive); NULL for single-day events';
+COMMENT ON COLUMN extracted_dates.event_end_time IS 'End time on event_end_date (or event_date when NULL)';
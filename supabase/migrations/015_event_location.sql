@@ -0,0 +1,9 @@
+-- Migration: Event location
+-- Where an event happens (room, campus, field, address) as written in the email
+-- or the calendar invite's LOCATION. Editable from the Dashboard and sent to
+-- Google Calendar.
+
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS location TEXT;
+
+COMMENT ON COLUMN extracted_dates.location IS 'Venue as written: room, campus, field or street address';
@@ -0,0 +1,50 @@
+-- Migration: Per-child event attribution
+-- The extraction prompt receives the user's kid tags and assigns each event to
+-- the children it applies to. Assignments live in a join table so one event
+-- (e.g. from a district-wide newsletter) can belong to several children.
+
+-- Step 1: Teacher alongside the existing child details on kid tags
+ALTER TABLE tags
+ADD COLUMN IF NOT EXISTS teacher_name TEXT;
+
+COMMENT ON COLUMN tags.teacher_name IS 'Teacher or homeroom of the child (for kid-type tags), given to the extraction prompt';
+
+-- Step 2: Event <-> kid tag join table
+CREATE TABLE IF NOT EXISTS extracted_date_tags (
+  extracted_date_id UUID NOT NULL REFERENCES extracted_dates(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  assigned_by TEXT NOT NULL DEFAULT 'llm' CHECK (assigned_by IN ('llm', 'user')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (extracted_date_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_extracted_date_tags_tag
+ON extracted_date_tags(tag_id);
+
+CREATE INDEX IF NOT EXISTS idx_extracted_date_tags_user
+ON extracted_date_tags(user_id);
+
+-- Step 3: RLS
+ALTER TABLE extracted_date_tags ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own event tags" ON extracted_date_tags;
+DROP POLICY IF EXISTS "Users can insert own event tags" ON extracted_date_tags;
+DROP POLICY IF EXISTS "Users can delete own event tags" ON extracted_date_tags;
+
+CREATE POLICY "Users can view own event tags"
+ON extracted_date_tags FOR SELECT
+USING (auth.uid() IN (SELECT auth_user_id FROM users WHERE users.id = extracted_date_tags.user_id));
+
+CREATE POLICY "Users can insert own event tags"
+ON extracted_date_tags FOR INSERT
+WITH CHECK (auth.uid() IN (SELECT auth_user_id FROM users WHERE users.id = extracted_date_tags.user_id));
+
+CREATE POLICY "Users can delete own event tags"
+ON extracted_date_tags FOR DELETE
+USING (auth.uid() IN (SELECT auth_user_id FROM users WHERE users.id = extracted_date_tags.user_id));
+
+GRANT SELECT, INSERT, DELETE ON extracted_date_tags TO authenticated;
+
+COMMENT ON TABLE extracted_date_tags IS 'Children (kid tags) an event applies to';
+COMMENT ON COLUMN extracted_date_tags.assigned_by IS 'llm when assigned during extraction, user when set from the Dashboard';
@@ -0,0 +1,32 @@
+-- Migration: Encrypted token vault
+-- Google OAuth tokens move out of users.gmail_token / users.gmail_refresh_token
+-- into user_tokens, encrypted by the API (envelope encryption, master keys in
+-- TOKEN_ENCRYPTION_KEYS). Plaintext columns are cleared as each user's tokens are
+-- moved into the vault on first use.
+
+-- Step 1: Vault table
+CREATE TABLE IF NOT EXISTS user_tokens (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL DEFAULT 'google',
+  access_token_ciphertext TEXT,
+  refresh_token_ciphertext TEXT,
+  wrapped_data_key TEXT NOT NULL,
+  key_id TEXT NOT NULL,
+  access_token_expires_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Rotation looks for rows still wrapped with an older master key
+CREATE INDEX IF NOT EXISTS idx_user_tokens_key_id ON user_tokens(key_id);
+
+-- Step 2: RLS with no policies - only the service role (API) can read or write
+ALTER TABLE user_tokens ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON user_tokens FROM anon, authenticated;
+
+COMMENT ON TABLE user_tokens IS 'Encrypted Google OAuth tokens; readable by the service role only';
+COMMENT ON COLUMN user_tokens.wrapped_data_key IS 'Per-row AES-256-GCM data key, encrypted with master key key_id';
+COMMENT ON COLUMN user_tokens.key_id IS 'Id of the TOKEN_ENCRYPTION_KEYS master key that wraps the data key';
+
+COMMENT ON COLUMN users.gmail_token IS 'Deprecated: plaintext token from before the vault, cleared once moved to user_tokens';
+COMMENT ON COLUMN users.gmail_refresh_token IS 'Deprecated: plaintext token from before the vault, cleared once moved to user_tokens';
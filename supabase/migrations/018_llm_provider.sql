@@ -0,0 +1,10 @@
+-- Migration: Per-user LLM provider
+-- Extraction, classification and summaries resolve their provider per stage:
+-- LLM_PROVIDER_<STAGE> pins a stage for the deployment, otherwise this choice
+-- applies, otherwise the built-in defaults. NULL = deployment defaults.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS llm_provider TEXT
+CHECK (llm_provider IN ('openai', 'gemini', 'claude'));
+
+COMMENT ON COLUMN users.llm_provider IS 'Preferred LLM vendor for every pipeline stage not pinned by LLM_PROVIDER_<STAGE>, NULL uses the defaults';
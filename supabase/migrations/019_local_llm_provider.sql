@@ -0,0 +1,10 @@
+-- Migration: Allow the self-hosted 'local' LLM provider
+-- Users who keep school mail off cloud vendors pick 'local'; every stage then
+-- runs against LOCAL_LLM_BASE_URL and never falls back to a cloud provider.
+
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_llm_provider_check;
+ALTER TABLE users
+ADD CONSTRAINT users_llm_provider_check
+CHECK (llm_provider IN ('openai', 'gemini', 'claude', 'local'));
+
+COMMENT ON COLUMN users.llm_provider IS 'Preferred LLM vendor for every pipeline stage not pinned by LLM_PROVIDER_<STAGE>, NULL uses the defaults; local overrides the pins';
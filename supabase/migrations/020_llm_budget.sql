@@ -0,0 +1,15 @@
+-- Migration: Per-user monthly LLM budget
+-- Spend is summed from processing_history.cost for the calendar month (UTC).
+-- Before extraction the worker estimates each email's cost; once it would cross
+-- the budget, 'stop' defers the job and 'degrade' runs on the cheapest models.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS monthly_llm_budget_usd NUMERIC(10, 2) CHECK (monthly_llm_budget_usd >= 0),
+ADD COLUMN IF NOT EXISTS llm_budget_mode TEXT NOT NULL DEFAULT 'stop' CHECK (llm_budget_mode IN ('stop', 'degrade'));
+
+COMMENT ON COLUMN users.monthly_llm_budget_usd IS 'Monthly LLM spend limit in USD, NULL = no limit';
+COMMENT ON COLUMN users.llm_budget_mode IS 'stop = defer extraction at the limit, degrade = continue on the cheapest models without fallback';
+
+-- Summing a user's spend for the current month
+CREATE INDEX IF NOT EXISTS idx_processing_history_user_created
+ON processing_history(user_id, created_at);
@@ -0,0 +1,53 @@
+-- Migration: Asynchronous batch extraction
+-- With ENABLE_BATCH_PROCESSING=true the job worker submits main extraction
+-- requests to the OpenAI / Gemini batch APIs instead of calling them live. Jobs
+-- wait as 'batched' until a later worker run finds their batch finished and
+-- queues them again with the results, which are ingested at the batch price.
+
+-- Step 1: Submitted batches
+CREATE TABLE IF NOT EXISTS llm_batches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  external_id TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'submitted' CHECK (status IN ('submitted', 'completed', 'failed')),
+  request_ids TEXT[] NOT NULL,
+  request_count INTEGER NOT NULL,
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  submitted_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_polled_at TIMESTAMPTZ,
+  completed_at TIMESTAMPTZ
+);
+
+-- Polling the oldest open batches
+CREATE INDEX IF NOT EXISTS idx_llm_batches_status
+ON llm_batches(status, submitted_at);
+
+-- RLS with no policies - only the service role (API) can read or write
+ALTER TABLE llm_batches ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON llm_batches FROM anon, authenticated;
+
+COMMENT ON COLUMN llm_batches.external_id IS 'Batch id at the vendor: OpenAI batch id or Gemini operation name';
+COMMENT ON COLUMN llm_batches.request_ids IS 'Request ids in submission order, "<email job id>:<email index>:<chunk index>"';
+
+-- Step 2: Jobs wait in a batch
+ALTER TABLE email_jobs
+ADD COLUMN IF NOT EXISTS batch_id UUID REFERENCES llm_batches(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS batch_output JSONB;
+
+ALTER TABLE email_jobs DROP CONSTRAINT IF EXISTS email_jobs_status_check;
+ALTER TABLE email_jobs
+ADD CONSTRAINT email_jobs_status_check CHECK (status IN ('queued', 'running', 'batched', 'completed', 'dead'));
+
+-- A batched job is still the email's active job
+DROP INDEX IF EXISTS idx_email_jobs_active_email;
+CREATE UNIQUE INDEX idx_email_jobs_active_email
+ON email_jobs(email_id)
+WHERE status IN ('queued', 'running', 'batched');
+
+CREATE INDEX IF NOT EXISTS idx_email_jobs_batch
+ON email_jobs(batch_id);
+
+COMMENT ON COLUMN email_jobs.batch_id IS 'Batch the job went through; such jobs are retried live, never batched again';
+COMMENT ON COLUMN email_jobs.batch_output IS 'Main extraction results from the batch, waiting to be ingested';
@@ -0,0 +1,33 @@
+-- Migration: Extraction cache
+-- Main and fallback extraction output keyed by a hash of the content sent to the
+-- model, the prompt version and the model. Reprocessing, or the same newsletter
+-- arriving for both parents, reuses the stored output instead of paying again.
+
+-- Step 1: Cached model output
+CREATE TABLE IF NOT EXISTS llm_extraction_cache (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  stage TEXT NOT NULL CHECK (stage IN ('extraction', 'fallback')),
+  content_hash TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  result JSONB NOT NULL,
+  hit_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_hit_at TIMESTAMPTZ,
+  UNIQUE (stage, content_hash, prompt_version, provider, model)
+);
+
+-- Finding entries nobody reused, for cleanup
+CREATE INDEX IF NOT EXISTS idx_llm_extraction_cache_created
+ON llm_extraction_cache(created_at);
+
+-- RLS with no policies - only the service role (API) can read or write.
+-- Entries are shared across users, so they must never be exposed to clients.
+ALTER TABLE llm_extraction_cache ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON llm_extraction_cache FROM anon, authenticated;
+
+COMMENT ON COLUMN llm_extraction_cache.content_hash IS 'SHA-256 of the subject, body, sender, sent date, attachment name and kid profiles sent to the model';
+COMMENT ON COLUMN llm_extraction_cache.prompt_version IS 'Hash of the stage''s rendered request template; changes whenever the prompt does';
+COMMENT ON COLUMN llm_extraction_cache.model IS 'Model the request was sent to, not the snapshot reported back';
+COMMENT ON COLUMN llm_extraction_cache.result IS 'The completion as returned: content, reported model and token usage';
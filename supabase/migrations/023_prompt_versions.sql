@@ -0,0 +1,26 @@
+-- Migration: Prompt versions
+-- Prompts carry a version (promptVersions in config/prompts.ts and the main
+-- extraction prompt in api/_lib/llm.ts). It is stored with every model call,
+-- email and event, so results can be traced to the prompt that produced them
+-- and emails extracted with an older prompt can be reprocessed on their own.
+
+-- Step 1: Version of each model call
+ALTER TABLE processing_history
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+COMMENT ON COLUMN processing_history.prompt_version IS 'Version of the prompt the call sent; for email_analysis rows the main extraction prompt';
+
+-- Step 2: Main extraction version per email, to find outdated emails
+ALTER TABLE processed_emails
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_processed_emails_prompt_version
+ON processed_emails(user_id, prompt_version);
+
+COMMENT ON COLUMN processed_emails.prompt_version IS 'Main extraction prompt version of the last extraction; NULL for emails extracted before versioning or imported from calendar data only';
+
+-- Step 3: Version of the stage that produced each event
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS prompt_version TEXT;
+
+COMMENT ON COLUMN extracted_dates.prompt_version IS 'Prompt version of the main or fallback extraction that produced the event; NULL for calendar imports';
@@ -0,0 +1,39 @@
+-- Migration: Review queue for low-confidence events
+-- Events below the user's review threshold that nobody has verified yet are
+-- listed in the Review view, where they can be approved, edited, merged into
+-- another event or rejected. Rejected, merged and corrected events are
+-- remembered per Gmail message so extracting the same email again does not
+-- bring them back.
+
+-- Step 1: Per-user review threshold
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS review_confidence_threshold NUMERIC(3,2) NOT NULL DEFAULT 0.80
+CHECK (review_confidence_threshold >= 0 AND review_confidence_threshold <= 1);
+
+COMMENT ON COLUMN users.review_confidence_threshold IS 'Unverified events with a lower confidence score are listed in the review queue';
+
+-- Step 2: Events the user turned down, keyed by Gmail message rather than
+-- processed_emails.id, which a full reprocess recreates
+CREATE TABLE IF NOT EXISTS event_suppressions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  gmail_message_id TEXT NOT NULL,
+  title_key TEXT NOT NULL,
+  event_title TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  reason TEXT NOT NULL CHECK (reason IN ('rejected', 'merged', 'edited')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, gmail_message_id, title_key, event_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_suppressions_message
+ON event_suppressions(user_id, gmail_message_id);
+
+-- Step 3: RLS with no policies - only the service role (API) can read or write
+ALTER TABLE event_suppressions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON event_suppressions FROM anon, authenticated;
+
+COMMENT ON TABLE event_suppressions IS 'Extracted events rejected, merged or corrected in the review queue; extraction of the same email skips them';
+COMMENT ON COLUMN event_suppressions.title_key IS 'Lowercased title with punctuation and extra spaces removed, matched together with event_date';
+COMMENT ON COLUMN event_suppressions.event_title IS 'Title as extracted, for display';
+COMMENT ON COLUMN event_suppressions.reason IS 'rejected when turned down, merged when folded into another event, edited when replaced by a corrected title or date';
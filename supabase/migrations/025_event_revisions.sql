@@ -0,0 +1,41 @@
+-- Migration: Event revisions
+-- Users can edit the title, date, time, description, location and children of
+-- an event. Every edit stores a revision with the editable fields after the
+-- change; the first revision of an event holds it as extracted. Reprocessing
+-- keeps edited events and does not extract them again.
+
+-- Step 1: Edit markers on events
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS edited_at TIMESTAMPTZ,
+ADD COLUMN IF NOT EXISTS edited_fields TEXT[] NOT NULL DEFAULT '{}';
+
+COMMENT ON COLUMN extracted_dates.edited_at IS 'Last edit by the user; NULL while the event is as extracted';
+COMMENT ON COLUMN extracted_dates.edited_fields IS 'Fields the user changed: title, date, time, description, location, tags';
+
+-- Step 2: Revision history
+CREATE TABLE IF NOT EXISTS event_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  extracted_date_id UUID NOT NULL REFERENCES extracted_dates(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  source TEXT NOT NULL CHECK (source IN ('extraction', 'user')),
+  event_title TEXT NOT NULL,
+  event_date DATE NOT NULL,
+  event_time TIME,
+  description TEXT,
+  location TEXT,
+  tag_ids UUID[] NOT NULL DEFAULT '{}',
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_event_revisions_event
+ON event_revisions(extracted_date_id, created_at);
+
+-- Step 3: RLS with no policies - only the service role (API) can read or write
+ALTER TABLE event_revisions ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON event_revisions FROM anon, authenticated;
+
+COMMENT ON TABLE event_revisions IS 'Editable fields of an event after each change; the extraction revision is written before the first edit';
+COMMENT ON COLUMN event_revisions.source IS 'extraction for the event as the model or calendar import produced it, user for an edit';
+COMMENT ON COLUMN event_revisions.tag_ids IS 'Kid tags (children) assigned to the event';
+COMMENT ON COLUMN event_revisions.changed_fields IS 'Fields this revision changed; empty for the extraction revision';
@@ -0,0 +1,33 @@
+-- Migration: Manual events and quick-add
+-- Events the user types in (a text from a coach, a paper flyer) run through the
+-- extraction prompt, are confirmed by the user and stored with source 'manual'.
+-- They have no email behind them.
+
+-- Step 1: Manual source
+ALTER TABLE extracted_dates
+DROP CONSTRAINT IF EXISTS extracted_dates_source_check;
+
+ALTER TABLE extracted_dates
+ADD CONSTRAINT extracted_dates_source_check CHECK (source IN ('llm', 'ics', 'manual'));
+
+COMMENT ON COLUMN extracted_dates.source IS 'llm for extracted events, ics for events imported from calendar data, manual for events the user added';
+
+-- Step 2: Only manual events may be without an email
+ALTER TABLE extracted_dates
+ALTER COLUMN email_id DROP NOT NULL;
+
+ALTER TABLE extracted_dates
+DROP CONSTRAINT IF EXISTS extracted_dates_email_check;
+
+ALTER TABLE extracted_dates
+ADD CONSTRAINT extracted_dates_email_check CHECK (email_id IS NOT NULL OR source = 'manual');
+
+-- Step 3: Text a manual event was quick-added from
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS source_text TEXT;
+
+COMMENT ON COLUMN extracted_dates.source_text IS 'Free text the user quick-added the event from; NULL for other sources';
+
+-- Step 4: Model calls of a quick-add are not tied to an email, but count toward the LLM budget
+ALTER TABLE processing_history
+ALTER COLUMN email_id DROP NOT NULL;
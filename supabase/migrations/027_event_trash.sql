@@ -0,0 +1,14 @@
+-- Migration: Soft delete for events
+-- Deleting an event sets deleted_at instead of removing the row. Deleted events
+-- are listed in the Trash view until restored, and the tombstone keeps
+-- reprocessing from extracting the same event again.
+
+-- Step 1: Tombstone
+ALTER TABLE extracted_dates
+ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_extracted_dates_deleted
+ON extracted_dates(user_id, deleted_at)
+WHERE deleted_at IS NOT NULL;
+
+COMMENT ON COLUMN extracted_dates.deleted_at IS 'When the user deleted the event; NULL for live events. Deleted events are kept so reprocessing does not bring them back';
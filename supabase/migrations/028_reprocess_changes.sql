@@ -0,0 +1,33 @@
+-- Migration: Reprocess diff
+-- A full reprocess (and reprocessing outdated prompts) no longer deletes events
+-- before extracting again. The new extraction of each email is compared with
+-- the events already stored for it, and the differences wait here until the
+-- user applies or discards them. Matched events keep their verification,
+-- Google Calendar link and children assigned by the user.
+
+-- Step 1: Pending changes, one row per proposed or existing event of an email
+CREATE TABLE IF NOT EXISTS reprocess_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  email_id UUID NOT NULL REFERENCES processed_emails(id) ON DELETE CASCADE,
+  extracted_date_id UUID REFERENCES extracted_dates(id) ON DELETE CASCADE,
+  change_type TEXT NOT NULL CHECK (change_type IN ('added', 'changed', 'removed', 'unchanged')),
+  proposed JSONB,
+  changed_fields TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((change_type = 'added') = (extracted_date_id IS NULL)),
+  CHECK (change_type = 'removed' OR proposed IS NOT NULL)
+);
+
+CREATE INDEX IF NOT EXISTS idx_reprocess_changes_user
+ON reprocess_changes(user_id, email_id);
+
+-- Step 2: RLS with no policies - only the service role (API) can read or write
+ALTER TABLE reprocess_changes ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON reprocess_changes FROM anon, authenticated;
+
+COMMENT ON TABLE reprocess_changes IS 'Differences between a reprocessed extraction and the stored events, until the user applies or discards them';
+COMMENT ON COLUMN reprocess_changes.extracted_date_id IS 'Stored event the change applies to; NULL for added events';
+COMMENT ON COLUMN reprocess_changes.change_type IS 'added: new event, changed: stored event with different details, removed: stored event no longer extracted, unchanged: stored event extracted as is';
+COMMENT ON COLUMN reprocess_changes.proposed IS 'Event as extracted again (title, date, time, endDate, endTime, location, description, recurrenceRule, tagIds, ...); NULL for removed events';
+COMMENT ON COLUMN reprocess_changes.changed_fields IS 'Fields of a changed event that differ: title, date, time, endDate, endTime, location, description, recurrenceRule, tags';